@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createApiKeyringFromEnv, hasScope, LEGACY_KEY_NAME, parseApiKeys, sendScope } from './api-keys';
+
+const KEYS = JSON.stringify([
+  { name: 'api', secrets: ['api-current', 'api-previous'], scopes: ['send:Authentication/*', 'templates:read'] },
+  { name: 'orchestrator', secret: 'orchestrator-secret', scopes: ['*'], rateLimit: 120 },
+]);
+
+test('verify identifies a key by any of its secrets', () => {
+  const keyring = parseApiKeys(KEYS);
+  assert.equal(keyring.verify('api-current')?.name, 'api');
+  assert.equal(keyring.verify('api-previous')?.name, 'api', 'the old secret works until it is removed');
+  assert.equal(keyring.verify('orchestrator-secret')?.rateLimit, 120);
+  assert.equal(keyring.verify('api-current '), null);
+  assert.equal(keyring.verify(''), null);
+  assert.equal(keyring.verify(undefined), null);
+});
+
+test('scopes match exactly or by a trailing wildcard', () => {
+  const api = parseApiKeys(KEYS).verify('api-current');
+  assert.ok(api);
+  assert.equal(hasScope(api, sendScope('Authentication/magic-link')), true);
+  assert.equal(hasScope(api, sendScope('Security/password-changed')), false);
+  assert.equal(hasScope(api, 'templates:read'), true);
+  assert.equal(hasScope(api, 'templates:write'), false);
+  assert.equal(hasScope({ name: 'root', scopes: ['*'] }, 'suppressions:write'), true);
+});
+
+test('parseApiKeys rejects malformed or ambiguous key lists', () => {
+  assert.throws(() => parseApiKeys('{'), /JSON list/);
+  assert.throws(() => parseApiKeys('[{"secret":"x","scopes":["*"]}]'), /name is required/);
+  assert.throws(() => parseApiKeys('[{"name":"a","scopes":["*"]}]'), /secret/);
+  assert.throws(() => parseApiKeys('[{"name":"a","secret":"x","scopes":[]}]'), /scopes/);
+  assert.throws(() => parseApiKeys('[{"name":"a","secret":"x","scopes":["send:*/x"]}]'), /invalid scope/);
+  assert.throws(() => parseApiKeys('[{"name":"a","secret":"x","scopes":["*"],"rateLimit":0}]'), /rateLimit/);
+  assert.throws(
+    () => parseApiKeys('[{"name":"a","secret":"x","scopes":["*"]},{"name":"b","secret":"x","scopes":["*"]}]'),
+    /reuses a secret/,
+  );
+  assert.throws(
+    () => parseApiKeys('[{"name":"a","secret":"x","scopes":["*"]},{"name":"a","secret":"y","scopes":["*"]}]'),
+    /listed twice/,
+  );
+});
+
+test('the shared secret becomes an all-scopes key when no key list is configured', () => {
+  const keyring = createApiKeyringFromEnv({ COMMUNICATIONS_API_SECRET: 'shared' });
+  assert.deepEqual(keyring.verify('shared'), { name: LEGACY_KEY_NAME, scopes: ['*'] });
+  assert.equal(createApiKeyringFromEnv({ COMMUNICATIONS_API_SECRET: 'shared', COMMUNICATIONS_API_KEYS: KEYS }).verify('shared'), null);
+  assert.deepEqual(createApiKeyringFromEnv({}).keys, []);
+});
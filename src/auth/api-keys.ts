@@ -0,0 +1,145 @@
+import crypto from 'node:crypto';
+import { readFileSync } from 'node:fs';
+
+/** Name given to the single key built from `COMMUNICATIONS_API_SECRET` when no key list is configured. */
+export const LEGACY_KEY_NAME = 'default';
+const SCOPE_WILDCARD = '*';
+// The wildcard may only end a scope.
+const SCOPE_PATTERN = /^[\w:/.-]*\*?$/;
+
+/** A named caller. Every secret listed for it identifies it, so a key can be rotated without downtime. */
+export type ApiKey = {
+  name: string;
+  /** `area:action` or `send:<template>`; a trailing `*` matches any suffix (`send:Authentication/*`, `*`). */
+  scopes: string[];
+  /** Immediate sends per minute; overrides the service default. */
+  rateLimit?: number;
+  /** Async and scheduled sends per minute; overrides the service default. */
+  queueRateLimit?: number;
+};
+
+export type ApiKeyring = {
+  keys: ApiKey[];
+  /** The key a presented secret belongs to. Every configured secret is compared, in constant time. */
+  verify(presented: string | undefined): ApiKey | null;
+};
+
+type ApiKeyEnv = Record<string, string | undefined>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function digest(secret: string): Buffer {
+  return crypto.createHash('sha256').update(secret, 'utf8').digest();
+}
+
+function optionalLimit(value: unknown, field: string, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new Error(`API key "${name}": ${field} must be a positive integer`);
+  }
+  return value;
+}
+
+function parseKey(raw: unknown, index: number): { key: ApiKey; secrets: string[] } {
+  if (!isRecord(raw)) throw new Error(`API key #${index + 1} must be an object`);
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) throw new Error(`API key #${index + 1}: name is required`);
+
+  const secrets = raw.secrets ?? (raw.secret === undefined ? undefined : [raw.secret]);
+  const validSecret = (secret: unknown) => typeof secret === 'string' && secret.length > 0;
+  if (!Array.isArray(secrets) || secrets.length === 0 || !secrets.every(validSecret)) {
+    throw new Error(`API key "${name}": secret or secrets (a non-empty list) is required`);
+  }
+
+  const scopes = raw.scopes;
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    throw new Error(`API key "${name}": scopes must be a non-empty list`);
+  }
+  for (const scope of scopes) {
+    if (typeof scope !== 'string' || !scope || !SCOPE_PATTERN.test(scope)) {
+      throw new Error(`API key "${name}": invalid scope ${JSON.stringify(scope)}`);
+    }
+  }
+
+  return {
+    key: {
+      name,
+      scopes: scopes as string[],
+      rateLimit: optionalLimit(raw.rateLimit, 'rateLimit', name),
+      queueRateLimit: optionalLimit(raw.queueRateLimit, 'queueRateLimit', name),
+    },
+    secrets: secrets as string[],
+  };
+}
+
+export function createApiKeyring(entries: Array<{ key: ApiKey; secrets: string[] }>): ApiKeyring {
+  const names = new Set<string>();
+  const digests: Array<{ digest: Buffer; key: ApiKey }> = [];
+  for (const { key, secrets } of entries) {
+    if (names.has(key.name)) throw new Error(`API key "${key.name}" is listed twice`);
+    names.add(key.name);
+    for (const secret of secrets) {
+      const hashed = digest(secret);
+      if (digests.some((entry) => entry.digest.equals(hashed))) {
+        throw new Error(`API key "${key.name}" reuses a secret of another key`);
+      }
+      digests.push({ digest: hashed, key });
+    }
+  }
+
+  return {
+    keys: entries.map(({ key }) => key),
+    verify(presented) {
+      if (!presented) return null;
+      // Comparing fixed-length digests keeps the timing independent of the secrets' lengths and contents.
+      const hashed = digest(presented);
+      let match: ApiKey | null = null;
+      for (const entry of digests) {
+        if (crypto.timingSafeEqual(entry.digest, hashed)) match = entry.key;
+      }
+      return match;
+    },
+  };
+}
+
+/** Parses the JSON list of keys: `[{ "name", "secret" | "secrets", "scopes", "rateLimit"?, "queueRateLimit"? }]`. */
+export function parseApiKeys(raw: string): ApiKeyring {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('API keys must be a JSON list');
+  }
+  if (!Array.isArray(parsed)) throw new Error('API keys must be a JSON list');
+  return createApiKeyring(parsed.map(parseKey));
+}
+
+/**
+ * Loads keys from `COMMUNICATIONS_API_KEYS_FILE` or `COMMUNICATIONS_API_KEYS`. Without either, a set
+ * `COMMUNICATIONS_API_SECRET` becomes one all-scopes key, so existing deployments keep working.
+ * Throws on a malformed list rather than starting with fewer keys than intended.
+ */
+export function createApiKeyringFromEnv(env: ApiKeyEnv): ApiKeyring {
+  if (env.COMMUNICATIONS_API_KEYS_FILE) {
+    return parseApiKeys(readFileSync(env.COMMUNICATIONS_API_KEYS_FILE, 'utf8'));
+  }
+  if (env.COMMUNICATIONS_API_KEYS) {
+    return parseApiKeys(env.COMMUNICATIONS_API_KEYS);
+  }
+  const legacySecret = env.COMMUNICATIONS_API_SECRET;
+  return createApiKeyring(
+    legacySecret ? [{ key: { name: LEGACY_KEY_NAME, scopes: [SCOPE_WILDCARD] }, secrets: [legacySecret] }] : [],
+  );
+}
+
+export function hasScope(key: ApiKey, required: string): boolean {
+  return key.scopes.some((scope) =>
+    scope.endsWith(SCOPE_WILDCARD) ? required.startsWith(scope.slice(0, -1)) : scope === required,
+  );
+}
+
+export function sendScope(template: string): string {
+  return `send:${template}`;
+}
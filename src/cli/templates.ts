@@ -0,0 +1,89 @@
+import dotenv from 'dotenv';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { buildTemplates, writeTemplateFiles } from '../templates/build';
+import { createTemplateBundle, readTemplateBundle, type TemplateBundle } from '../templates/bundle';
+import { lintTemplates } from '../templates/lint';
+import { createTemplateRegistry } from '../templates/registry';
+
+dotenv.config();
+
+const USAGE = 'Usage: templates <build|lint|sync> [--src templates] [--out dist/templates]';
+const RELOAD_TIMEOUT_MS = 10_000;
+
+type Options = { src: string; out: string };
+
+/** Compiles the sources and reports build errors; null when any source failed. */
+async function compile(src: string): Promise<TemplateBundle | null> {
+  const { files, errors } = await buildTemplates(readTemplateBundle(src).files);
+  for (const error of errors) console.error(`error  ${error}`);
+  return errors.length > 0 ? null : createTemplateBundle(files);
+}
+
+async function lint(src: string, bundle: TemplateBundle): Promise<boolean> {
+  const registry = createTemplateRegistry(src, bundle);
+  const issues = await lintTemplates(registry);
+  for (const issue of issues) {
+    const where = issue.locale ? `${issue.template} (${issue.locale})` : issue.template;
+    console.error(`${issue.rule}  ${where}: ${issue.message}`);
+  }
+  console.log(`Linted ${registry.versions.size} templates: ${issues.length} issue(s)`);
+  return issues.length === 0;
+}
+
+/** Asks a running service to pick up the new bundle; it must serve from the `--out` directory. */
+async function requestReload(): Promise<boolean> {
+  const baseUrl = process.env.COMMUNICATIONS_BASE_URL;
+  // Needs the `templates:write` scope.
+  const secret = process.env.COMMUNICATIONS_API_KEY || process.env.COMMUNICATIONS_API_SECRET;
+  if (!baseUrl || !secret) {
+    console.log('COMMUNICATIONS_BASE_URL or COMMUNICATIONS_API_KEY not set; skipping reload');
+    return true;
+  }
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/templates/reload`, {
+    method: 'POST',
+    headers: { 'x-communications-secret': secret },
+    signal: AbortSignal.timeout(RELOAD_TIMEOUT_MS),
+  });
+  const body = await response.text();
+  if (!response.ok) {
+    console.error(`Reload failed with ${response.status}: ${body}`);
+    return false;
+  }
+  console.log(`Service reloaded: ${body}`);
+  return true;
+}
+
+async function run(command: string | undefined, { src, out }: Options): Promise<boolean> {
+  if (command !== 'build' && command !== 'lint' && command !== 'sync') {
+    console.error(USAGE);
+    return false;
+  }
+  const bundle = await compile(src);
+  if (!bundle) return false;
+  if (command !== 'build' && !(await lint(src, bundle))) return false;
+  if (command === 'lint') return true;
+
+  writeTemplateFiles(out, bundle.files);
+  console.log(`Wrote bundle ${bundle.version} (${bundle.files.size} files) to ${out}`);
+  return command === 'sync' ? requestReload() : true;
+}
+
+const { positionals, values } = parseArgs({
+  allowPositionals: true,
+  options: {
+    src: { type: 'string', default: 'templates' },
+    out: { type: 'string', default: path.join('dist', 'templates') },
+  },
+});
+
+run(positionals[0], { src: path.resolve(values.src), out: path.resolve(values.out) })
+  .then((ok) => {
+    process.exitCode = ok ? 0 : 1;
+  })
+  .catch((error) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`templates ${positionals[0] ?? ''} failed: ${message}`);
+    process.exitCode = 1;
+  });
@@ -1,33 +1,105 @@
 export type Channel = 'email' | 'sms' | 'push';
 
+export type SendMode = 'sync' | 'async';
+
 export interface SendRequest {
   id: string;
   channel: Channel;
-  template: string;
-  to: string;
+  template: string; // `Category/name`, optionally pinned to a version: `Category/name@3f2a9c01b7de`
+  to: string; // email address, E.164 phone number, or metadata.userId for push
+  cc?: string | string[]; // email only
+  bcc?: string | string[]; // email only
+  replyTo?: string | string[]; // email only
   subject?: string;
+  locale?: string; // BCP 47, e.g. pt-BR; falls back pt-BR → pt → en for templates and subjects
   data: Record<string, unknown>;
   metadata?: {
     projectId?: string;
     userId?: string;
     traceId?: string;
-    source?: string; // api | orchestrator | scheduler
+    source?: string; // set by the service: the API key name, or `scheduler` for digests
+    locale?: string; // used when the request has no top-level locale
   };
   callbackUrl?: string;
+  mode?: SendMode; // async: persist and return 202 queued; also accepted as ?mode=async
+  sendAt?: string; // ISO 8601 timestamp; delivers no earlier than this and implies async
 }
 
+/** Per-recipient part of a template batch; `data` is merged over the batch's shared `data`. */
+export interface BatchRecipient {
+  id: string;
+  to: string;
+  cc?: string | string[];
+  bcc?: string | string[];
+  replyTo?: string | string[];
+  subject?: string;
+  data?: Record<string, unknown>;
+  metadata?: SendRequest['metadata'];
+}
+
+/** Either a list of full requests, or one template sent to each recipient. */
+export type BatchSendRequest =
+  | { requests: SendRequest[]; mode?: SendMode }
+  | (Omit<SendRequest, 'id' | 'to' | 'cc' | 'bcc' | 'replyTo' | 'data'> & {
+      data?: Record<string, unknown>;
+      recipients: BatchRecipient[];
+    });
+
 export interface SendResponse {
   id: string;
   provider: string;
-  status: 'queued' | 'sent' | 'failed';
+  status: 'queued' | 'sent' | 'failed' | 'suppressed' | 'opted_out' | 'canceled';
   messageId?: string;
+  sendAt?: string;
   error?: string;
 }
 
+/** One entry per batch item, in request order; `statusCode` is what `/send` would have answered. */
+export type BatchSendResult = { index: number; statusCode: number; replayed?: boolean } & (
+  | SendResponse
+  | { id?: string; error: string }
+);
+
+export interface BatchSendResponse {
+  results: BatchSendResult[];
+}
+
+export type ProviderEventStatus =
+  | 'delivered'
+  | 'delivery_delayed'
+  | 'bounced'
+  | 'complaint'
+  | 'dropped'
+  | 'opened'
+  | 'clicked';
+
+export type BounceType = 'hard' | 'soft' | 'transient';
+
+export type ProviderEventDetail =
+  | { kind: 'open'; userAgent?: string; ipAddress?: string }
+  | { kind: 'click'; url: string; userAgent?: string; ipAddress?: string }
+  | {
+      kind: 'bounce';
+      type: BounceType;
+      subType?: string; // provider classification, e.g. General, MailboxFull, Suppressed
+      message?: string;
+      diagnosticCode?: string; // remote MTA response, e.g. "smtp; 550 5.1.1 user unknown"
+    }
+  | { kind: 'delay'; message?: string };
+
 export interface ProviderEvent {
   provider: string;
   messageId: string;
-  status: 'delivered' | 'bounced' | 'complaint' | 'dropped';
+  status: ProviderEventStatus;
   timestamp: number;
-  detail?: Record<string, unknown>;
+  detail?: ProviderEventDetail;
 }
+
+/** Body POSTed to a send's `callbackUrl`; nothing from the provider's own payload is passed on. */
+export type MessageStatusCallback = {
+  requestId: string;
+  provider: string;
+  messageId: string;
+  status: 'delivered' | 'bounced' | 'complaint';
+  timestamp: number;
+};
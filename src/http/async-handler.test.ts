@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import test from 'node:test';
+
+import express from 'express';
+
+import type { KeyValueStore } from '../stores';
+import { asyncHandler, handleRouteError } from './async-handler';
+
+// A backend that is down, e.g. Redis during an outage.
+function createRejectingStore<T>(): KeyValueStore<T> {
+  const fail = async (): Promise<never> => {
+    throw new Error('ECONNREFUSED store');
+  };
+  return { get: fail, set: fail, setIfAbsent: fail, delete: fail, entries: fail };
+}
+
+test('a rejected store call answers 500 through the error middleware instead of escaping', async () => {
+  const store = createRejectingStore<string>();
+  const app = express();
+  app.get(
+    '/records/:id',
+    asyncHandler(async (req, res) => {
+      res.json({ record: await store.get(req.params.id) });
+    }),
+  );
+  app.use(handleRouteError);
+
+  const unhandled: unknown[] = [];
+  const onUnhandled = (reason: unknown) => unhandled.push(reason);
+  process.on('unhandledRejection', onUnhandled);
+  const server = app.listen(0, '127.0.0.1');
+  try {
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}/records/a`);
+    assert.equal(response.status, 500);
+    assert.deepEqual(await response.json(), { error: 'Internal server error' });
+    assert.deepEqual(unhandled, []);
+  } finally {
+    process.off('unhandledRejection', onUnhandled);
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+});
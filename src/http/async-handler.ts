@@ -0,0 +1,27 @@
+import type { ErrorRequestHandler, NextFunction, Request, RequestHandler, Response } from 'express';
+
+import { logger } from '../observability/log';
+
+const INTERNAL_ERROR_MESSAGE = 'Internal server error';
+
+/**
+ * Express 4 ignores the promise an async handler returns, so a rejected store call would become
+ * an unhandled rejection and stop the process. This passes it to the error middleware instead.
+ */
+export function asyncHandler(
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<void>,
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
+
+/** The last middleware: logs the error and answers `500` unless a response has already started. */
+export const handleRouteError: ErrorRequestHandler = (error, req, res, next) => {
+  logger.error('Request failed', { method: req.method, path: req.path, error });
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+  res.status(500).json({ error: INTERNAL_ERROR_MESSAGE });
+};
@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { MemoryStore } from 'express-rate-limit';
+
+import { chargeRateLimit } from './rate-limit';
+
+test('chargeRateLimit admits a batch only up to what is left of the limit', async () => {
+  const store = new MemoryStore();
+  store.init({ windowMs: 60_000 } as Parameters<MemoryStore['init']>[0]);
+  try {
+    await store.increment('key:api');
+    assert.equal(await chargeRateLimit(store, 'key:api', 3, 5), 2);
+    assert.equal((await store.get('key:api'))?.totalHits, 3);
+    assert.equal(await chargeRateLimit(store, 'key:api', 3, 1), 0);
+    assert.equal(await chargeRateLimit(store, 'key:other', 3, 2), 2);
+  } finally {
+    store.shutdown();
+  }
+});
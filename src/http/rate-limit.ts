@@ -0,0 +1,19 @@
+import type { Store } from 'express-rate-limit';
+
+/**
+ * Charges `count` hits to `key` in a rate limiter's store, stopping at `limit`, and returns how many
+ * fit. Lets a batch draw one hit per item from the budget its single-item route uses.
+ */
+export async function chargeRateLimit(store: Store, key: string, limit: number, count: number): Promise<number> {
+  let charged = 0;
+  while (charged < count) {
+    const { totalHits } = await store.increment(key);
+    if (totalHits > limit) {
+      // Over the limit: give the hit back so the caller's next request sees an accurate count.
+      await store.decrement(key);
+      break;
+    }
+    charged += 1;
+  }
+  return charged;
+}
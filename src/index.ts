@@ -1,13 +1,90 @@
 import dotenv from 'dotenv';
-import express, { type Request, type Response } from 'express';
-import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
-import { readdirSync } from 'node:fs';
-import { readFile } from 'node:fs/promises';
+import express, { type NextFunction, type Request, type Response } from 'express';
+import rateLimit, { ipKeyGenerator, MemoryStore } from 'express-rate-limit';
+import crypto from 'node:crypto';
 import path from 'node:path';
-import { Resend } from 'resend';
+import { collectDefaultMetrics } from 'prom-client';
 
-import type { SendRequest, SendResponse } from './contracts/send';
-import { RESEND_SIGNATURE_HEADER, verifyResendSignature } from './webhooks/resend';
+import { type ApiKey, createApiKeyringFromEnv, hasScope, sendScope } from './auth/api-keys';
+import type {
+  BatchSendResult,
+  MessageStatusCallback,
+  ProviderEventDetail,
+  SendRequest,
+  SendResponse,
+} from './contracts/send';
+import { asyncHandler, handleRouteError } from './http/async-handler';
+import { chargeRateLimit } from './http/rate-limit';
+import { type CallbackJob, createCallbackDispatcher } from './jobs/callbacks';
+import {
+  createDigestScheduler,
+  type DigestBatch,
+  type DigestItem,
+  type DigestSchedule,
+  validateDigestItemInput,
+} from './jobs/digests';
+import { createApiOutbox, type OutboxEntry, type OutboxStatus } from './jobs/outbox';
+import { createPoller } from './jobs/poller';
+import { createSendQueue, PermanentSendError, type SendJob } from './jobs/send-queue';
+import { addLogContext, currentLogContext, type LogContext, logger, withLogContext } from './observability/log';
+import {
+  metricsRegistry,
+  sendsTotal,
+  timeProviderCall,
+  webhookVerificationFailuresTotal,
+} from './observability/metrics';
+import { createTraceparent, newTraceId, parseTraceparent, TRACEPARENT_HEADER } from './observability/trace';
+import {
+  createEmailProvidersFromEnv,
+  createPushProviderFromEnv,
+  createSmsProviderFromEnv,
+  type EmailMessage,
+  ProviderError,
+  type ProviderSendResult,
+  RESEND_PROVIDER_NAME,
+  TWILIO_PROVIDER_NAME,
+  WEB_PUSH_PROVIDER_NAME,
+} from './providers';
+import { createDueIndexFactory, createStoreFactory } from './stores';
+import { formatSender, renderSubject, validateTemplateData } from './templates/manifest';
+import type { PushNotification } from './templates/push';
+import { escapeHtml } from './templates/escape';
+import { type ArchivedTemplateBundle, createTemplateCatalog, parseTemplateRef } from './templates/catalog';
+import { normalizeTemplateName, type TemplateChannel, type TemplateRegistry } from './templates/registry';
+import { normalizeLocale } from './templates/locale';
+import { countSmsSegments, type SmsSegmentInfo } from './templates/sms';
+import { createWebhookDeduplicator, verifyResendWebhook } from './webhooks/resend';
+import { parseResendEventDetail } from './webhooks/resend-events';
+import { verifyStandardWebhook } from './webhooks/standard-webhooks';
+import { mapSendEmailHook, SUPABASE_SOURCE } from './webhooks/supabase';
+import { normalizeTwilioStatus, TWILIO_SIGNATURE_HEADER, verifyTwilioSignature } from './webhooks/twilio';
+import { parseCallbackAllowlist, validateCallbackUrl } from './workflows/callback-url';
+import { createIdempotencyGuard, fingerprintPayload, type IdempotencyRecord } from './workflows/idempotency';
+import { createMessageLedger, type LedgerEntry } from './workflows/ledger';
+import {
+  createPreferenceStore,
+  createUnsubscribeToken,
+  isTransactionalCategory,
+  type PreferenceSubject,
+  preferenceKey,
+  type Preferences,
+  validatePreferencePatch,
+  verifyUnsubscribeToken,
+} from './workflows/preferences';
+import {
+  createSuppressionList,
+  type SoftBounceCounter,
+  type Suppression,
+  type SuppressionReason,
+} from './workflows/suppressions';
+import {
+  createPushSubscriptionRegistry,
+  sendPushToUser,
+  type StoredPushSubscription,
+  validatePushSubscription,
+} from './workflows/push';
+import { batchIdempotencyKey, expandBatchRequest } from './workflows/batch';
+import { sendBatchWithFallback, sendWithFallback } from './workflows/routing';
 
 dotenv.config();
 
@@ -25,30 +102,126 @@ app.use(
   }),
 );
 
+const REQUEST_ID_HEADER = 'x-request-id';
+// Scraped and probed every few seconds; logged only at debug level.
+const QUIET_PATHS = new Set(['/health', '/metrics']);
+
+// Everything logged while handling a request carries its request id and trace id, including the access log line.
+app.use((req, res, next) => {
+  const presented = req.header(REQUEST_ID_HEADER)?.trim();
+  const requestId = presented && presented.length <= MAX_ID_LENGTH ? presented : crypto.randomUUID();
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+  const traceId = parseTraceparent(req.headers[TRACEPARENT_HEADER])?.traceId ?? newTraceId();
+  const startedAt = Date.now();
+  withLogContext({ requestId, traceId }, () => {
+    const context = currentLogContext();
+    res.on('finish', () => {
+      const fields = { method: req.method, path: req.path, status: res.statusCode, durationMs: Date.now() - startedAt };
+      withLogContext(context, () => {
+        if (QUIET_PATHS.has(req.path)) logger.debug('Request handled', fields);
+        else logger.info('Request handled', fields);
+      });
+    });
+    next();
+  });
+});
+
+// Form posts: Twilio status callbacks and RFC 8058 one-click unsubscribes.
+const formBody = express.urlencoded({ extended: false, limit: JSON_BODY_LIMIT });
+
 const DEFAULT_PORT = 8700;
+const DEFAULT_IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_LEDGER_RETENTION_DAYS = 30;
+const DEFAULT_SMS_MAX_SEGMENTS = 4;
+const DEFAULT_PUSH_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_SOFT_BOUNCE_THRESHOLD = 3;
+const SOFT_BOUNCE_WINDOW_MS = 30 * 24 * 60 * 60_000;
+const DEFAULT_TEMPLATE_BUNDLES_RETAINED = 10;
 const port = parsePort(process.env.PORT, DEFAULT_PORT);
 const bindHost = process.env.BIND_HOST || process.env.HOST || '0.0.0.0';
-const templatesDir = path.resolve(__dirname, '..', 'templates');
+// Point at `npm run templates:build` output in production; the sources render as is in development.
+const templatesDir = path.resolve(process.env.TEMPLATES_DIR || path.join(__dirname, '..', 'templates'));
 const emailFrom = process.env.EMAIL_FROM;
-const resendKey = process.env.EMAIL_PROVIDER_KEY;
-const webhookSecret = process.env.EMAIL_WEBHOOK_SECRET;
+// Comma-separated so a new signing secret can be added before the old one is removed.
+const webhookSecrets = (process.env.EMAIL_WEBHOOK_SECRET ?? '')
+  .split(',')
+  .map((secret) => secret.trim())
+  .filter(Boolean);
+// `|`-separated rather than comma-separated: Supabase shows these secrets as `v1,whsec_…`.
+const supabaseHookSecrets = (process.env.SUPABASE_SEND_EMAIL_HOOK_SECRET ?? '')
+  .split('|')
+  .map((secret) => secret.trim())
+  .filter(Boolean);
+// Project URL the Auth confirmation links point at, e.g. `https://<ref>.supabase.co`.
+const supabaseUrl = process.env.SUPABASE_URL;
+// Legacy shared secret: the only API key when no key list is configured, and the default for the secrets below.
 const apiSecret = process.env.COMMUNICATIONS_API_SECRET;
+const apiKeys = createApiKeyringFromEnv(process.env);
 const apiBaseUrl = process.env.API_BASE_URL;
-const resend = resendKey ? new Resend(resendKey) : null;
-const allowedTemplates = safeDiscoverTemplates(templatesDir);
+// Sent to `intellex-api` with forwarded events; separate from the keys callers use here.
+const apiForwardingSecret = process.env.API_FORWARDING_SECRET || apiSecret;
+const callbackSigningSecret = process.env.CALLBACK_SIGNING_SECRET || apiSecret;
+const unsubscribeSigningSecret = process.env.UNSUBSCRIBE_SIGNING_SECRET || apiSecret;
+// Public origin of this service, used to build unsubscribe links.
+const publicBaseUrl = process.env.COMMUNICATIONS_BASE_URL;
+const callbackAllowlist = parseCallbackAllowlist(process.env.CALLBACK_URL_ALLOWLIST);
+const emailProviders = createEmailProvidersFromEnv(process.env);
+const smsProvider = createSmsProviderFromEnv(process.env);
+const smsFrom = process.env.SMS_FROM;
+const smsAuthToken = process.env.TWILIO_AUTH_TOKEN;
+// Public URL of `/webhooks/sms`: passed to the provider per message and used to verify signatures.
+const smsStatusCallbackUrl = process.env.SMS_STATUS_CALLBACK_URL;
+const smsMaxSegments = parsePositiveInt(process.env.SMS_MAX_SEGMENTS, DEFAULT_SMS_MAX_SEGMENTS);
+const pushProvider = createPushProviderFromEnv(process.env);
+const pushTtlSeconds = parsePositiveInt(process.env.PUSH_TTL_SECONDS, DEFAULT_PUSH_TTL_SECONDS);
+const softBounceThreshold = parsePositiveInt(process.env.SOFT_BOUNCE_THRESHOLD, DEFAULT_SOFT_BOUNCE_THRESHOLD);
+const createStore = createStoreFactory(process.env);
+const createDueIndex = createDueIndexFactory(process.env);
+const templateCatalog = createTemplateCatalog({
+  dir: templatesDir,
+  retain: parsePositiveInt(process.env.TEMPLATE_BUNDLES_RETAINED, DEFAULT_TEMPLATE_BUNDLES_RETAINED),
+  // Pinned sends can wait up to `MAX_SEND_AT_DAYS` in the queue, across restarts and deploys.
+  archive: {
+    bundles: createStore<ArchivedTemplateBundle>('template-bundles'),
+    templates: createStore<string>('template-bundle-versions'),
+  },
+});
+// Unset disables polling; `POST /templates/reload` still picks up changes.
+const templatesReloadIntervalMs = parsePositiveInt(process.env.TEMPLATES_RELOAD_INTERVAL_SECONDS, 0) * 1000;
+const idempotencyTtlMs = parsePositiveInt(process.env.IDEMPOTENCY_TTL_SECONDS, DEFAULT_IDEMPOTENCY_TTL_SECONDS) * 1000;
+const ledgerRetentionMs =
+  parsePositiveInt(process.env.LEDGER_RETENTION_DAYS, DEFAULT_LEDGER_RETENTION_DAYS) * 24 * 60 * 60_000;
 
 const API_EVENTS_PATH = '/communications/events';
 const API_MESSAGES_PATH = '/communications/messages';
-const API_REQUEST_TIMEOUT_MS = 5000;
-const PROVIDER_NAME = 'resend';
+const PRIMARY_PROVIDER_NAME = emailProviders[0]?.name ?? RESEND_PROVIDER_NAME;
+const SMS_PROVIDER_NAME = smsProvider?.name ?? TWILIO_PROVIDER_NAME;
 const CHANNEL_EMAIL = 'email';
+const CHANNEL_SMS = 'sms';
+const CHANNEL_PUSH = 'push';
+const TEMPLATE_CHANNELS = new Set<unknown>([CHANNEL_EMAIL, CHANNEL_SMS, CHANNEL_PUSH]);
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const E164_REGEX = /^\+[1-9]\d{7,14}$/;
 const MAX_SUBJECT_LENGTH = 180;
+const MAX_EMAIL_ADDRESS_LENGTH = 320;
+/** Resend's per-message cap across `to`, `cc` and `bcc`. */
+const MAX_EMAIL_RECIPIENTS = 50;
+const MAX_SEND_AT_DAYS = 90;
+const DEFAULT_SUBJECT = 'Intellex notification';
 const MAX_ID_LENGTH = 120;
 const MAX_DATA_BYTES = 20000;
+const DIGEST_TEMPLATE = 'Research/research-digest';
+// Push services accept ~4 KB of encrypted payload; leave room for the encryption overhead.
+const MAX_PUSH_PAYLOAD_BYTES = 3000;
 const SEND_RATE_LIMIT = 30;
+const PREVIEW_RATE_LIMIT = 120;
 const SEND_WINDOW_MS = 60_000;
+const QUEUE_RATE_LIMIT = 600;
+const SEND_MODE_ASYNC = 'async';
+const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed';
+const BEARER_PREFIX = 'Bearer ';
+const CALLBACK_ROUTE_TTL_MS = 30 * 24 * 60 * 60_000;
 const WEBHOOK_TOLERANCE_SECONDS = 300;
 const EPOCH_MS_THRESHOLD = 1_000_000_000_000;
 
@@ -57,9 +230,15 @@ const COMMUNICATION_STATUSES = {
   sent: 'sent',
   failed: 'failed',
   delivered: 'delivered',
+  delivery_delayed: 'delivery_delayed',
+  opened: 'opened',
+  clicked: 'clicked',
   bounced: 'bounced',
   complaint: 'complaint',
   dropped: 'dropped',
+  suppressed: 'suppressed',
+  opted_out: 'opted_out',
+  canceled: 'canceled',
 } as const;
 
 type CommunicationStatus = (typeof COMMUNICATION_STATUSES)[keyof typeof COMMUNICATION_STATUSES];
@@ -70,6 +249,8 @@ type ApiMessagePayload = {
   providerMessageId?: string;
   channel: string;
   template?: string;
+  /** Version of the template that was rendered, so a bad rollout can be traced and rolled back. */
+  templateVersion?: string;
   recipient?: string;
   subject?: string;
   metadata?: Record<string, unknown>;
@@ -84,27 +265,89 @@ type ApiEventPayload = {
   requestId?: string;
   status: CommunicationStatus;
   timestamp: number;
+  detail?: ProviderEventDetail;
   payload?: Record<string, unknown>;
 };
 
+type CallbackRoute = {
+  requestId: string;
+  callbackUrl: string;
+};
+
+const CALLBACK_STATUSES = new Set<CommunicationStatus>([
+  COMMUNICATION_STATUSES.delivered,
+  COMMUNICATION_STATUSES.bounced,
+  COMMUNICATION_STATUSES.complaint,
+]);
+
+/** The key `requireApiKey` authenticated the request with. */
+function callerOf(res: Response): ApiKey | undefined {
+  return res.locals.apiKey as ApiKey | undefined;
+}
+
+// Limits are per API key, so one noisy caller cannot use up another's budget.
+function rateLimitKey(req: Request, res: Response): string {
+  const caller = callerOf(res);
+  return caller ? `key:${caller.name}` : ipKeyGenerator(req.ip || '');
+}
+
+function isAsyncSend(req: Request): boolean {
+  const body = req.body as Partial<SendRequest> | undefined;
+  return req.query.mode === SEND_MODE_ASYNC || body?.mode === SEND_MODE_ASYNC || body?.sendAt !== undefined;
+}
+
+// Kept in hand so `/send/batch` can charge one hit per item against the same budgets.
+const sendLimitStore = new MemoryStore();
+const queueLimitStore = new MemoryStore();
+
 const sendLimiter = rateLimit({
   windowMs: SEND_WINDOW_MS,
-  max: SEND_RATE_LIMIT,
+  store: sendLimitStore,
+  max: (_req, res) => callerOf(res)?.rateLimit ?? SEND_RATE_LIMIT,
   standardHeaders: true,
   legacyHeaders: false,
   handler: (_req, res) => {
     res.status(429).json({ error: 'Too many requests' });
   },
-  keyGenerator: (req) => {
-    const header = req.headers['x-communications-secret'];
-    if (Array.isArray(header)) {
-      return `secret:${header[0] || ''}`;
-    }
-    if (header) {
-      return `secret:${header}`;
-    }
-    return ipKeyGenerator(req.ip || '');
+  keyGenerator: rateLimitKey,
+  skip: isAsyncSend,
+});
+
+// Async sends only persist a job, so they get a higher ceiling; the queue worker paces delivery.
+const queueLimiter = rateLimit({
+  windowMs: SEND_WINDOW_MS,
+  store: queueLimitStore,
+  max: (_req, res) => callerOf(res)?.queueRateLimit ?? QUEUE_RATE_LIMIT,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (_req, res) => {
+    res.status(429).json({ error: 'Too many requests' });
+  },
+  keyGenerator: rateLimitKey,
+  skip: (req) => !isAsyncSend(req),
+});
+
+// Unsubscribe links are public; keyed by IP since they carry no secret.
+const unsubscribeLimiter = rateLimit({
+  windowMs: SEND_WINDOW_MS,
+  max: PREVIEW_RATE_LIMIT,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (_req, res) => {
+    res.status(429).send('Too many requests');
+  },
+  keyGenerator: (req) => ipKeyGenerator(req.ip || ''),
+});
+
+const previewLimiter = rateLimit({
+  windowMs: SEND_WINDOW_MS,
+  max: PREVIEW_RATE_LIMIT,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (_req, res) => {
+    res.status(429).json({ error: 'Too many requests' });
   },
+  keyGenerator: rateLimitKey,
 });
 
 function parsePort(portRaw: string | undefined, fallbackPort: number): number {
@@ -116,44 +359,65 @@ function parsePort(portRaw: string | undefined, fallbackPort: number): number {
   return parsed;
 }
 
+function parsePositiveInt(raw: string | undefined, fallback: number): number {
+  if (!raw) return fallback;
+  const parsed = Number.parseInt(raw, 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function providerNameFor(channel: string): string {
+  if (channel === CHANNEL_SMS) return SMS_PROVIDER_NAME;
+  if (channel === CHANNEL_PUSH) return WEB_PUSH_PROVIDER_NAME;
+  return PRIMARY_PROVIDER_NAME;
+}
+
+function channelConfigError(channel: string): string | null {
+  if (channel === CHANNEL_SMS) {
+    return smsProvider && smsFrom ? null : 'An SMS provider and SMS_FROM must be configured';
+  }
+  if (channel === CHANNEL_PUSH) {
+    return pushProvider ? null : 'VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT must be configured';
+  }
+  return emailProviders.length > 0 && emailFrom ? null : 'An email provider and EMAIL_FROM must be configured';
+}
+
 function joinUrl(base: string, pathSuffix: string): string {
   const trimmedBase = base.replace(/\/+$/, '');
   const trimmedPath = pathSuffix.startsWith('/') ? pathSuffix : `/${pathSuffix}`;
   return `${trimmedBase}${trimmedPath}`;
 }
 
-async function postApiPayload(pathSuffix: string, payload: ApiMessagePayload | ApiEventPayload) {
-  if (!apiBaseUrl) {
-    console.warn('API_BASE_URL not set; skipping communications event forwarding');
-    return;
-  }
-  if (!apiSecret) {
-    console.warn('COMMUNICATIONS_API_SECRET not set; skipping communications event forwarding');
-    return;
-  }
+const apiOutbox =
+  apiBaseUrl && apiForwardingSecret
+    ? createApiOutbox({
+        entries: createStore<OutboxEntry>('api-outbox'),
+        finished: createStore<OutboxEntry>('api-outbox-finished'),
+        locks: createStore<number>('api-outbox-locks'),
+        baseUrl: apiBaseUrl,
+        secret: apiForwardingSecret,
+      })
+    : null;
 
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), API_REQUEST_TIMEOUT_MS);
-  try {
-    const url = joinUrl(apiBaseUrl, pathSuffix);
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-communications-secret': apiSecret,
-      },
-      body: JSON.stringify(payload),
-      signal: controller.signal,
-    });
-    if (!response.ok) {
-      console.warn(`Communications event forward failed (${response.status})`);
-    }
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    console.warn(`Communications event forward error: ${message}`);
-  } finally {
-    clearTimeout(timeout);
+/** Persists the payload for `src/jobs/outbox.ts` to deliver; updates for one message keep their order. */
+async function enqueueApiPayload(
+  pathSuffix: string,
+  payload: ApiMessagePayload | ApiEventPayload,
+  traceId = currentLogContext().traceId,
+) {
+  if (!apiOutbox) {
+    logger.warn(
+      apiBaseUrl
+        ? 'API_FORWARDING_SECRET not set; skipping communications event forwarding'
+        : 'API_BASE_URL not set; skipping communications event forwarding',
+    );
+    return;
   }
+  const orderingKey = payload.requestId
+    ? `request:${payload.requestId}`
+    : 'messageId' in payload && payload.messageId
+      ? `message:${payload.provider}:${payload.messageId}`
+      : undefined;
+  await apiOutbox.enqueue(pathSuffix, payload, orderingKey, traceId);
 }
 
 function readString(value: unknown): string | null {
@@ -164,6 +428,9 @@ function readString(value: unknown): string | null {
 
 const EVENT_STATUS_ALIASES: Record<string, CommunicationStatus> = {
   delivered: COMMUNICATION_STATUSES.delivered,
+  delivery_delayed: COMMUNICATION_STATUSES.delivery_delayed,
+  opened: COMMUNICATION_STATUSES.opened,
+  clicked: COMMUNICATION_STATUSES.clicked,
   bounced: COMMUNICATION_STATUSES.bounced,
   complaint: COMMUNICATION_STATUSES.complaint,
   complained: COMMUNICATION_STATUSES.complaint,
@@ -249,95 +516,160 @@ function extractTimestampMs(payload: Record<string, unknown>): number {
   return Date.now();
 }
 
+const RECIPIENT_PATHS = [['data', 'to'], ['data', 'email'], ['to'], ['email'], ['recipient']];
+
+function readAddress(value: unknown): string | null {
+  const asString = readString(value);
+  if (!asString) return null;
+  const angle = asString.match(/<([^>]+)>/);
+  const address = (angle ? angle[1] : asString).trim();
+  return EMAIL_REGEX.test(address) ? address : null;
+}
+
+function extractRecipients(payload: Record<string, unknown>): string[] {
+  for (const pathParts of RECIPIENT_PATHS) {
+    const value = getNestedValue(payload, pathParts);
+    const candidates = Array.isArray(value) ? value : [value];
+    const addresses = candidates.map(readAddress).filter((address): address is string => Boolean(address));
+    if (addresses.length > 0) return addresses;
+  }
+  return [];
+}
+
+/** Adds the event to its message's timeline and fills in `requestId` when the ledger knows the message. */
+async function recordProviderEvent(event: ApiEventPayload): Promise<ApiEventPayload> {
+  if (!event.messageId) return event;
+  try {
+    const requestId = await messageLedger.recordProviderEvent(event.messageId, {
+      status: event.status,
+      timestamp: event.timestamp,
+      provider: event.provider,
+      detail: event.detail,
+    });
+    return requestId ? { ...event, requestId } : event;
+  } catch (error) {
+    logger.error('Ledger update for provider event failed', { providerMessageId: event.messageId, error });
+    return event;
+  }
+}
+
 function buildWebhookEvent(payload: Record<string, unknown>): ApiEventPayload | null {
   const status = extractStatus(payload);
   if (!status) return null;
   return {
-    provider: PROVIDER_NAME,
+    provider: RESEND_PROVIDER_NAME,
     messageId: extractMessageId(payload) ?? undefined,
     status,
     timestamp: extractTimestampMs(payload),
+    detail: parseResendEventDetail(status, payload),
     payload,
   };
 }
 
-function discoverTemplates(baseDir: string): Set<string> {
-  const templates = new Set<string>();
-  const walk = (dir: string) => {
-    const entries = readdirSync(dir, { withFileTypes: true });
-    entries.forEach((entry) => {
-      const fullPath = path.join(dir, entry.name);
-      if (entry.isDirectory()) {
-        walk(fullPath);
-        return;
-      }
-      if (entry.isFile() && entry.name.endsWith('.html')) {
-        const relative = path.relative(baseDir, fullPath).replace(/\\/g, '/');
-        const normalized = relative.replace(/\.html$/i, '');
-        templates.add(normalized);
-      }
-    });
-  };
+app.get('/health', (_req: Request, res: Response) => {
+  res.json({ status: 'ok', timestamp: Date.now() });
+});
+
+collectDefaultMetrics({ register: metricsRegistry });
+
+app.get('/metrics', requireApiKey('metrics:read'), asyncHandler(async (_req, res) => {
+  res.type(metricsRegistry.contentType).send(await metricsRegistry.metrics());
+}));
+
+type ValidatedSendRequest = {
+  id: string;
+  templateName: string;
+  /** Set only for pinned (`name@version`) requests; others render with the current bundle. */
+  templateVersion?: string;
+  to: string;
+  /** Email only. */
+  subject?: string;
+  cc?: string[];
+  bcc?: string[];
+  replyTo?: string[];
+  /** Canonical BCP 47 tag; templates fall back to `en` when it is unset. */
+  locale?: string;
+  data: Record<string, unknown>;
+  channel: string;
+  metadata?: SendRequest['metadata'];
+  callbackUrl?: string;
+  /** Epoch ms; set for scheduled sends. */
+  sendAt?: number;
+};
+
+function readAddressList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  const candidates = Array.isArray(value) ? value : [value];
+  const addresses = candidates.map((candidate) => (typeof candidate === 'string' ? candidate.trim() : ''));
+  if (addresses.some((address) => address.length > MAX_EMAIL_ADDRESS_LENGTH || !EMAIL_REGEX.test(address))) {
+    throw new Error(`${field} must be an email address or a list of them`);
+  }
+  return addresses.length > 0 ? addresses : undefined;
+}
+
+function channelTemplates(registry: TemplateRegistry, channel: string): Set<string> {
+  if (channel === CHANNEL_SMS) return registry.smsAllowed;
+  if (channel === CHANNEL_PUSH) return registry.pushAllowed;
+  return registry.allowed;
+}
+
+function findTemplateRegistry(name: string, version: string | undefined): TemplateRegistry {
+  if (!version) return templateCatalog.current();
+  const registry = templateCatalog.resolve(name, version);
+  if (!registry) {
+    throw new PermanentSendError(`Template version ${version} of ${name} is not loaded`);
+  }
+  return registry;
+}
 
-  walk(baseDir);
-  return templates;
+function templatesFor(validated: ValidatedSendRequest): TemplateRegistry {
+  return findTemplateRegistry(validated.templateName, validated.templateVersion);
 }
 
-function safeDiscoverTemplates(baseDir: string): Set<string> {
+/** Renders only read the in-memory bundle, so one that fails would fail the same way on every attempt. */
+async function renderOrFail<T>(render: () => Promise<T>): Promise<T> {
   try {
-    return discoverTemplates(baseDir);
+    return await render();
   } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    console.error(`Failed to discover templates under ${baseDir}: ${message}`);
-    return new Set<string>();
+    throw new PermanentSendError(error instanceof Error ? error.message : String(error), { cause: error });
   }
 }
 
-function normalizeTemplateName(template: string): string {
-  if (!template || typeof template !== 'string') {
-    throw new Error('Template is required');
-  }
-  if (template.includes('..')) {
-    throw new Error('Invalid template path');
-  }
-  const cleaned = template.trim().replace(/^\/+/, '').replace(/\.html$/i, '');
-  if (!cleaned) {
-    throw new Error('Template is required');
-  }
-  return cleaned;
+/** Brings a pinned bundle back from the archive, e.g. after a restart, so `templatesFor` finds it. */
+async function loadPinnedTemplate(name: string, version: string | undefined): Promise<void> {
+  if (version) await templateCatalog.load(name, version);
 }
 
-function resolveTemplatePath(template: string): string {
-  const normalized = normalizeTemplateName(template);
-  if (!allowedTemplates.has(normalized)) {
-    throw new Error('Unknown template');
-  }
-  const resolved = path.resolve(templatesDir, `${normalized}.html`);
-  if (!resolved.startsWith(templatesDir + path.sep) && resolved !== templatesDir) {
-    throw new Error('Template path outside allowed directory');
+/** The pinned template in a send request; null when unpinned or malformed, which `validateSendRequest` reports. */
+function pinnedTemplateOf(body: Partial<SendRequest>): { name: string; version: string } | null {
+  try {
+    const ref = parseTemplateRef(typeof body.template === 'string' ? body.template : '');
+    return ref.version ? { name: normalizeTemplateName(ref.name), version: ref.version } : null;
+  } catch {
+    return null;
   }
-  return resolved;
 }
 
-function renderTemplate(raw: string, data: Record<string, unknown>): string {
-  return raw.replace(/{{\s*\.([A-Za-z0-9_]+)\s*}}/g, (_, key: string) => {
-    const value = data?.[key];
-    if (value === undefined || value === null) return '';
-    return String(value);
-  });
+function templateVersionFor(validated: ValidatedSendRequest): string | undefined {
+  return validated.templateVersion ?? templateCatalog.current().versions.get(validated.templateName);
 }
 
-async function loadTemplate(template: string, data: Record<string, unknown>): Promise<string> {
-  const filePath = resolveTemplatePath(template);
-  const raw = await readFile(filePath, 'utf8');
-  return renderTemplate(raw, data);
+/** Correlation fields for log lines about one send. */
+function sendLogContext(validated: ValidatedSendRequest): LogContext {
+  return { requestId: validated.id, traceId: validated.metadata?.traceId, template: validated.templateName };
 }
 
-app.get('/health', (_req: Request, res: Response) => {
-  res.json({ status: 'ok', timestamp: Date.now() });
-});
+function traceparentFor(validated: ValidatedSendRequest): string | undefined {
+  const traceId = validated.metadata?.traceId ?? currentLogContext().traceId;
+  return traceId ? createTraceparent(traceId) : undefined;
+}
+
+// The trace id differs between retries of one request, so it is left out of the idempotency fingerprint.
+function sendFingerprint(validated: ValidatedSendRequest): string {
+  return fingerprintPayload({ ...validated, metadata: { ...validated.metadata, traceId: undefined } });
+}
 
-function validateSendRequest(body: Partial<SendRequest>) {
+function validateSendRequest(body: Partial<SendRequest>): ValidatedSendRequest {
   if (!body?.id || typeof body.id !== 'string' || body.id.trim().length === 0) {
     throw new Error('id is required');
   }
@@ -346,26 +678,37 @@ function validateSendRequest(body: Partial<SendRequest>) {
     throw new Error('id too long');
   }
 
-  if (body.channel !== CHANNEL_EMAIL) {
+  const channel = body.channel;
+  if (!channel || !TEMPLATE_CHANNELS.has(channel)) {
     throw new Error(`Unsupported channel: ${body?.channel ?? 'unknown'}`);
   }
-  const channel = body.channel;
 
-  const templateName = normalizeTemplateName(body.template as string);
-  if (!allowedTemplates.has(templateName)) {
-    throw new Error('Unknown template');
+  const ref = parseTemplateRef(typeof body.template === 'string' ? body.template : '');
+  const templateName = normalizeTemplateName(ref.name);
+  const registry = findTemplateRegistry(templateName, ref.version);
+  if (!channelTemplates(registry, channel).has(templateName)) {
+    throw new Error(channel === CHANNEL_EMAIL ? 'Unknown template' : `Unknown ${channel} template`);
   }
 
-  const to = body.to?.trim();
-  if (!to || to.length > 320 || !EMAIL_REGEX.test(to)) {
+  let to = body.to?.trim();
+  if (channel === CHANNEL_SMS) {
+    if (!to || !E164_REGEX.test(to)) {
+      throw new Error('Valid "to" phone number in E.164 format is required');
+    }
+  } else if (channel === CHANNEL_PUSH) {
+    // Push fans out to every subscription registered for the user.
+    const userId = body.metadata?.userId?.trim();
+    if (!userId || userId.length > MAX_ID_LENGTH) {
+      throw new Error('metadata.userId is required for push');
+    }
+    if (to && to !== userId) {
+      throw new Error('"to" must match metadata.userId for push');
+    }
+    to = userId;
+  } else if (!to || to.length > MAX_EMAIL_ADDRESS_LENGTH || !EMAIL_REGEX.test(to)) {
     throw new Error('Valid "to" email is required');
   }
 
-  const subject = (body.subject ?? 'Intellex notification').toString().trim();
-  if (!subject || subject.length > MAX_SUBJECT_LENGTH) {
-    throw new Error(`subject is required and must be <= ${MAX_SUBJECT_LENGTH} characters`);
-  }
-
   const data = body.data;
   if (!data || typeof data !== 'object') {
     throw new Error('data must be an object');
@@ -375,146 +718,1437 @@ function validateSendRequest(body: Partial<SendRequest>) {
     throw new Error('data payload too large');
   }
 
-  return { id, templateName, to, subject, data, channel };
+  let locale: string | undefined;
+  const rawLocale = body.locale ?? body.metadata?.locale;
+  if (rawLocale !== undefined && rawLocale !== null) {
+    locale = normalizeLocale(rawLocale) ?? undefined;
+    if (!locale) {
+      throw new Error('locale must be a BCP 47 language tag, e.g. "pt-BR"');
+    }
+  }
+
+  const manifest = registry.manifests.get(templateName);
+  if (manifest) {
+    const dataErrors = validateTemplateData(manifest, data);
+    if (dataErrors.length > 0) {
+      throw new Error(dataErrors.join('; '));
+    }
+  }
+
+  const cc = readAddressList(body.cc, 'cc');
+  const bcc = readAddressList(body.bcc, 'bcc');
+  const replyTo = readAddressList(body.replyTo, 'replyTo');
+  if (channel !== CHANNEL_EMAIL && (cc || bcc || replyTo)) {
+    throw new Error('cc, bcc and replyTo are only supported for email');
+  }
+  if (1 + (cc?.length ?? 0) + (bcc?.length ?? 0) > MAX_EMAIL_RECIPIENTS) {
+    throw new Error(`An email can have at most ${MAX_EMAIL_RECIPIENTS} recipients across to, cc and bcc`);
+  }
+
+  let subject: string | undefined;
+  if (channel === CHANNEL_EMAIL) {
+    const defaultSubject = manifest ? renderSubject(manifest, data, { locale }) : DEFAULT_SUBJECT;
+    subject = (body.subject ?? defaultSubject).toString().trim();
+    if (!subject || subject.length > MAX_SUBJECT_LENGTH) {
+      throw new Error(`subject is required and must be <= ${MAX_SUBJECT_LENGTH} characters`);
+    }
+  }
+
+  let callbackUrl: string | undefined;
+  if (body.callbackUrl !== undefined && body.callbackUrl !== null) {
+    callbackUrl = validateCallbackUrl(body.callbackUrl, callbackAllowlist);
+  }
+
+  let sendAt: number | undefined;
+  if (body.sendAt !== undefined && body.sendAt !== null) {
+    sendAt = typeof body.sendAt === 'string' ? Date.parse(body.sendAt) : Number.NaN;
+    if (!Number.isFinite(sendAt)) {
+      throw new Error('sendAt must be an ISO 8601 timestamp');
+    }
+    if (sendAt > Date.now() + MAX_SEND_AT_DAYS * 24 * 60 * 60_000) {
+      throw new Error(`sendAt must be within ${MAX_SEND_AT_DAYS} days`);
+    }
+    if (body.mode === 'sync') {
+      throw new Error('sendAt cannot be combined with mode "sync"');
+    }
+  }
+
+  return {
+    id,
+    templateName,
+    templateVersion: ref.version,
+    to,
+    subject,
+    cc,
+    bcc,
+    replyTo,
+    locale,
+    data,
+    channel,
+    metadata: body.metadata ?? undefined,
+    callbackUrl,
+    sendAt,
+  };
 }
 
-app.post('/send', sendLimiter, async (req: Request, res: Response) => {
-  // Auth check - fail closed if secret not configured
-  if (!apiSecret) {
-    res.status(503).json({ error: 'COMMUNICATIONS_API_SECRET not configured' });
-    return;
+/** Validates a request and renders SMS and push bodies, so oversized ones are rejected up front. */
+async function validateForSend(body: Partial<SendRequest>): Promise<ValidatedSendRequest> {
+  const pinned = pinnedTemplateOf(body);
+  if (pinned) await loadPinnedTemplate(pinned.name, pinned.version);
+  const validated = validateSendRequest(body);
+  // Reject oversized bodies now rather than dead-lettering them in the queue.
+  if (validated.channel === CHANNEL_SMS) {
+    await renderSmsBody(validated);
+  } else if (validated.channel === CHANNEL_PUSH) {
+    await renderPushPayload(validated);
   }
-  const headerValue = req.headers['x-communications-secret'];
-  const providedSecret = Array.isArray(headerValue) ? headerValue[0] : headerValue;
-  if (providedSecret !== apiSecret) {
-    res.status(401).json({ error: 'Invalid or missing secret' });
-    return;
+  return validated;
+}
+
+function preferenceSubjectFor(validated: ValidatedSendRequest): PreferenceSubject {
+  return {
+    userId: validated.metadata?.userId,
+    recipient: validated.channel === CHANNEL_PUSH ? undefined : validated.to,
+  };
+}
+
+function unsubscribeUrlFor(validated: ValidatedSendRequest): string | null {
+  const category = templatesFor(validated).manifests.get(validated.templateName)?.category;
+  if (!category || isTransactionalCategory(category) || !unsubscribeSigningSecret || !publicBaseUrl) return null;
+  const key = preferenceKey(preferenceSubjectFor(validated));
+  if (!key) return null;
+  const token = createUnsubscribeToken(unsubscribeSigningSecret, { key, category });
+  return joinUrl(publicBaseUrl, `/unsubscribe/${token}`);
+}
+
+/** RFC 8058 one-click unsubscribe headers; only non-transactional mail carries them. */
+function listUnsubscribeHeaders(validated: ValidatedSendRequest): Record<string, string> | undefined {
+  const url = unsubscribeUrlFor(validated);
+  if (!url) return undefined;
+  return {
+    'List-Unsubscribe': `<${url}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+}
+
+/** Suppressed copy recipients are dropped; only a suppressed `to` blocks the send. */
+async function withoutSuppressed(
+  validated: ValidatedSendRequest,
+  addresses: string[] | undefined,
+): Promise<string[] | undefined> {
+  if (!addresses || templatesFor(validated).manifests.get(validated.templateName)?.bypassSuppression) return addresses;
+  const active: string[] = [];
+  for (const address of addresses) {
+    if (!(await suppressionList.get(address))) active.push(address);
   }
+  return active.length > 0 ? active : undefined;
+}
 
-  if (allowedTemplates.size === 0) {
-    res.status(503).json({ error: 'No templates available' });
-    return;
+async function buildEmailMessage(validated: ValidatedSendRequest): Promise<EmailMessage> {
+  if (!emailFrom) {
+    throw new Error('EMAIL_FROM must be configured');
+  }
+  const registry = templatesFor(validated);
+  const { html, text } = await renderOrFail(() =>
+    registry.renderMessage(validated.templateName, validated.data, { locale: validated.locale }),
+  );
+  const manifest = registry.manifests.get(validated.templateName);
+  return {
+    from: formatSender(manifest?.sender, emailFrom),
+    to: validated.to,
+    cc: await withoutSuppressed(validated, validated.cc),
+    bcc: await withoutSuppressed(validated, validated.bcc),
+    replyTo: validated.replyTo,
+    subject: validated.subject ?? DEFAULT_SUBJECT,
+    html,
+    text,
+    headers: listUnsubscribeHeaders(validated),
+    idempotencyKey: validated.id,
+    traceparent: traceparentFor(validated),
+  };
+}
+
+async function deliverEmail(validated: ValidatedSendRequest): Promise<ProviderSendResult> {
+  return sendWithFallback(emailProviders, await buildEmailMessage(validated));
+}
+
+/** Renders the SMS body and enforces the segment limit; throws for bodies that cannot be sent. */
+async function renderSmsBody(validated: ValidatedSendRequest): Promise<string> {
+  const body = await renderOrFail(() =>
+    templatesFor(validated).renderSms(validated.templateName, validated.data, { locale: validated.locale }),
+  );
+  if (!body) {
+    throw new PermanentSendError('SMS body is empty');
   }
+  const { encoding, segments } = countSmsSegments(body);
+  if (segments > smsMaxSegments) {
+    throw new PermanentSendError(`SMS body needs ${segments} ${encoding} segments; the limit is ${smsMaxSegments}`);
+  }
+  return body;
+}
 
-  const body = req.body as Partial<SendRequest>;
-  let validated: {
-    id: string;
-    templateName: string;
-    to: string;
-    subject: string;
-    data: Record<string, unknown>;
-    channel: string;
+async function deliverSms(validated: ValidatedSendRequest): Promise<ProviderSendResult> {
+  if (!smsProvider || !smsFrom) {
+    throw new Error('An SMS provider and SMS_FROM must be configured');
+  }
+  const message = {
+    from: smsFrom,
+    to: validated.to,
+    body: await renderSmsBody(validated),
+    statusCallbackUrl: smsStatusCallbackUrl,
+    idempotencyKey: validated.id,
   };
-  try {
-    validated = validateSendRequest(body);
-  } catch (validationError) {
-    const message = validationError instanceof Error ? validationError.message : 'Invalid request';
-    res.status(400).json({ error: message });
-    return;
+  return timeProviderCall(smsProvider.name, 'send', () => smsProvider.send(message));
+}
+
+/** Renders the notification and checks that it fits in a push message. */
+async function renderPushPayload(validated: ValidatedSendRequest): Promise<string> {
+  const notification = await renderOrFail(() =>
+    templatesFor(validated).renderPush(validated.templateName, validated.data, { locale: validated.locale }),
+  );
+  const payload = JSON.stringify({ id: validated.id, ...notification });
+  if (Buffer.byteLength(payload) > MAX_PUSH_PAYLOAD_BYTES) {
+    throw new PermanentSendError(`push payload exceeds ${MAX_PUSH_PAYLOAD_BYTES} bytes`);
   }
+  return payload;
+}
 
-  if (!resend || !emailFrom) {
-    const response: SendResponse = {
-      id: validated.id,
-      provider: PROVIDER_NAME,
-      status: 'failed',
-      error: 'EMAIL_PROVIDER_KEY and EMAIL_FROM must be configured',
-    };
-    res.status(503).json(response);
-    return;
+async function deliverPush(validated: ValidatedSendRequest): Promise<ProviderSendResult> {
+  if (!pushProvider) {
+    throw new Error('VAPID keys must be configured for push');
   }
+  const payload = await renderPushPayload(validated);
+  // Timed as one call: a user's devices are sent to in parallel.
+  const result = await timeProviderCall(pushProvider.name, 'send', () =>
+    sendPushToUser(pushSubscriptions, pushProvider, validated.to, payload, { ttlSeconds: pushTtlSeconds }),
+  );
+  if (result.pruned > 0) {
+    logger.warn('Pruned expired push subscriptions', { userId: validated.to, pruned: result.pruned });
+  }
+  return { provider: result.provider, messageId: result.messageId };
+}
 
-  try {
-    const html = await loadTemplate(validated.templateName, validated.data);
-    const subject = validated.subject || 'Intellex notification';
-    const result = await resend.emails.send({
-      from: emailFrom,
-      to: validated.to,
-      subject,
-      html,
-    });
-    const messageId = (result as any)?.data?.id;
+function deliverMessage(validated: ValidatedSendRequest): Promise<ProviderSendResult> {
+  if (validated.channel === CHANNEL_SMS) return deliverSms(validated);
+  if (validated.channel === CHANNEL_PUSH) return deliverPush(validated);
+  return deliverEmail(validated);
+}
 
-    const response: SendResponse = {
-      id: validated.id,
-      provider: PROVIDER_NAME,
-      status: COMMUNICATION_STATUSES.sent,
-      messageId,
-    };
-    await postApiPayload(API_MESSAGES_PATH, {
-      requestId: validated.id,
-      provider: PROVIDER_NAME,
-      providerMessageId: messageId,
-      channel: validated.channel,
-      template: validated.templateName,
-      recipient: validated.to,
-      subject,
-      metadata: body.metadata ?? undefined,
-      status: COMMUNICATION_STATUSES.sent,
-      timestamp: Date.now(),
-    });
-    res.json(response);
+const messageLedger = createMessageLedger({
+  entries: createStore<LedgerEntry>('message-ledger'),
+  providerIndex: createStore<string>('message-ledger-index'),
+  retentionMs: ledgerRetentionMs,
+});
+
+async function forwardMessageStatus(
+  validated: ValidatedSendRequest,
+  status: CommunicationStatus,
+  details: { provider: string; providerMessageId?: string; error?: string },
+) {
+  const templateVersion = templateVersionFor(validated);
+  sendsTotal.inc({ channel: validated.channel, template: validated.templateName, status, provider: details.provider });
+  // Fields rather than the context: a batch reports every item from one request.
+  const fields = { ...sendLogContext(validated), channel: validated.channel, templateVersion, ...details };
+  if (status === COMMUNICATION_STATUSES.failed) logger.warn(`Message ${status}`, fields);
+  else logger.info(`Message ${status}`, fields);
+  try {
+    await messageLedger.record(
+      {
+        requestId: validated.id,
+        channel: validated.channel,
+        template: validated.templateName,
+        templateVersion,
+        recipient: validated.to,
+        metadata: validated.metadata,
+      },
+      { status, timestamp: Date.now(), ...details },
+    );
   } catch (error) {
-    const response: SendResponse = {
-      id: validated.id,
-      provider: PROVIDER_NAME,
-      status: COMMUNICATION_STATUSES.failed,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-    await postApiPayload(API_MESSAGES_PATH, {
-      requestId: validated.id,
-      provider: PROVIDER_NAME,
-      channel: validated.channel,
-      template: validated.templateName,
-      recipient: validated.to,
-      subject: validated.subject,
-      metadata: body.metadata ?? undefined,
-      status: COMMUNICATION_STATUSES.failed,
-      error: response.error,
-      timestamp: Date.now(),
-    });
-    res.status(500).json(response);
+    // The ledger is a local record; losing an entry must not fail a send that already happened.
+    logger.error('Ledger update failed', { ...sendLogContext(validated), error });
+  }
+  try {
+    await enqueueApiPayload(
+      API_MESSAGES_PATH,
+      {
+        requestId: validated.id,
+        provider: details.provider,
+        providerMessageId: details.providerMessageId,
+        channel: validated.channel,
+        template: validated.templateName,
+        templateVersion,
+        recipient: validated.to,
+        subject: validated.subject,
+        metadata: validated.metadata,
+        status,
+        error: details.error,
+        timestamp: Date.now(),
+      },
+      validated.metadata?.traceId,
+    );
+  } catch (error) {
+    logger.error('Outbox write failed', { ...sendLogContext(validated), error });
   }
+}
+
+const pushSubscriptions = createPushSubscriptionRegistry(createStore<StoredPushSubscription[]>('push-subscriptions'));
+
+const callbackRoutes = createStore<CallbackRoute>('callback-routes');
+const callbackDispatcher = callbackSigningSecret
+  ? createCallbackDispatcher({
+      jobs: createStore<CallbackJob>('callback-jobs'),
+      due: createDueIndex('callback-jobs-due'),
+      locks: createStore<number>('callback-job-locks'),
+      signingSecret: callbackSigningSecret,
+      allowlist: callbackAllowlist,
+    })
+  : null;
+
+async function registerCallbackRoute(validated: ValidatedSendRequest, result: ProviderSendResult) {
+  if (!validated.callbackUrl || !result.messageId) return;
+  await callbackRoutes.set(
+    result.messageId,
+    { requestId: validated.id, callbackUrl: validated.callbackUrl },
+    { ttlMs: CALLBACK_ROUTE_TTL_MS },
+  );
+}
+
+async function dispatchCallback(event: ApiEventPayload) {
+  if (!callbackDispatcher || !event.messageId || !CALLBACK_STATUSES.has(event.status)) return;
+  const route = await callbackRoutes.get(event.messageId);
+  if (!route) return;
+  const callback: MessageStatusCallback = {
+    requestId: route.requestId,
+    provider: event.provider,
+    messageId: event.messageId,
+    status: event.status as MessageStatusCallback['status'],
+    timestamp: event.timestamp,
+  };
+  await callbackDispatcher.enqueue(`${event.messageId}:${event.status}`, route.callbackUrl, callback);
+}
+
+const preferences = createPreferenceStore(createStore<Preferences>('preferences'));
+
+const suppressionList = createSuppressionList({
+  suppressions: createStore<Suppression>('suppressions'),
+  softBounces: createStore<SoftBounceCounter>('soft-bounces'),
+  softBounceThreshold,
+  softBounceWindowMs: SOFT_BOUNCE_WINDOW_MS,
 });
 
-app.post('/webhooks/provider', (req: Request, res: Response) => {
-  if (!webhookSecret) {
-    res.status(503).send('EMAIL_WEBHOOK_SECRET not configured');
-    return;
+async function recordSuppressions(event: ApiEventPayload, payload: Record<string, unknown>) {
+  if (event.status !== COMMUNICATION_STATUSES.bounced && event.status !== COMMUNICATION_STATUSES.complaint) return;
+  const details = { messageId: event.messageId };
+  for (const address of extractRecipients(payload)) {
+    if (event.status === COMMUNICATION_STATUSES.complaint) {
+      await suppressionList.recordComplaint(address, details);
+    } else {
+      // Resend's `email.bounced` is a permanent rejection unless the bounce says otherwise.
+      const kind = event.detail?.kind === 'bounce' && event.detail.type !== 'hard' ? 'soft' : 'hard';
+      await suppressionList.recordBounce(address, kind, details);
+    }
   }
+}
 
-  const rawBody = (req as RawBodyRequest).rawBody;
-  if (!rawBody) {
-    res.status(400).send('Missing raw request body');
-    return;
-  }
+type SendBlock = {
+  status: typeof COMMUNICATION_STATUSES.suppressed | typeof COMMUNICATION_STATUSES.opted_out;
+  error: string;
+};
 
-  const verification = verifyResendSignature({
-    secret: webhookSecret,
-    signatureHeader: req.headers[RESEND_SIGNATURE_HEADER],
-    payload: rawBody,
-    toleranceSeconds: WEBHOOK_TOLERANCE_SECONDS,
-  });
-  if (!verification.ok) {
-    res.status(401).send(verification.reason || 'Invalid signature');
-    return;
+/** Raised at delivery time when a scheduled send's recipient became suppressed or opted out after it was queued. */
+class SendBlockedError extends PermanentSendError {
+  readonly status: SendBlock['status'];
+
+  constructor(block: SendBlock) {
+    super(block.error);
+    this.name = 'SendBlockedError';
+    this.status = block.status;
   }
+}
 
-  const payload = req.body as Record<string, unknown>;
-  const normalized = buildWebhookEvent(payload);
-  if (normalized) {
-    void postApiPayload(API_EVENTS_PATH, normalized);
+/** Push targets users rather than addresses, and critical templates opt out via their manifest. */
+async function findSuppression(validated: ValidatedSendRequest): Promise<Suppression | null> {
+  if (validated.channel === CHANNEL_PUSH) return null;
+  if (templatesFor(validated).manifests.get(validated.templateName)?.bypassSuppression) return null;
+  return suppressionList.get(validated.to);
+}
+
+async function findSendBlock(validated: ValidatedSendRequest): Promise<SendBlock | null> {
+  const suppression = await findSuppression(validated);
+  if (suppression) {
+    return { status: COMMUNICATION_STATUSES.suppressed, error: `Recipient is suppressed (${suppression.reason})` };
+  }
+  const category = templatesFor(validated).manifests.get(validated.templateName)?.category;
+  const decision = await preferences.check(preferenceSubjectFor(validated), category, validated.channel);
+  if (!decision.allowed) {
+    return { status: COMMUNICATION_STATUSES.opted_out, error: `Recipient ${decision.reason}` };
   }
+  return null;
+}
 
-  res.status(204).end();
+function sendAtIso(validated: ValidatedSendRequest): string | undefined {
+  return validated.sendAt === undefined ? undefined : new Date(validated.sendAt).toISOString();
+}
+
+const sendIdempotency = createIdempotencyGuard<SendResponse>(
+  createStore<IdempotencyRecord<SendResponse>>('send-idempotency'),
+  idempotencyTtlMs,
+);
+
+const sendQueue = createSendQueue<ValidatedSendRequest>({
+  jobs: createStore<SendJob<ValidatedSendRequest>>('send-jobs'),
+  due: createDueIndex('send-jobs-due'),
+  locks: createStore<number>('send-job-locks'),
+  logContext: (job) => sendLogContext(job.payload),
+  deliver: async (job) => {
+    await loadPinnedTemplate(job.payload.templateName, job.payload.templateVersion);
+    // Checked again because a scheduled send may wait days after `/send` accepted it.
+    if (job.payload.sendAt !== undefined) {
+      const block = await findSendBlock(job.payload);
+      if (block) throw new SendBlockedError(block);
+    }
+    return deliverMessage(job.payload);
+  },
+  onSent: async (job, result) => {
+    await registerCallbackRoute(job.payload, result);
+    await forwardMessageStatus(job.payload, COMMUNICATION_STATUSES.sent, {
+      provider: result.provider,
+      providerMessageId: result.messageId,
+    });
+  },
+  onDeadLetter: (job, error) => {
+    const status = error instanceof SendBlockedError ? error.status : COMMUNICATION_STATUSES.failed;
+    return forwardMessageStatus(job.payload, status, {
+      provider: error instanceof ProviderError ? error.provider : providerNameFor(job.payload.channel),
+      error: job.lastError,
+    });
+  },
 });
 
+function digestData(batch: DigestBatch, items: DigestItem[]): Record<string, unknown> {
+  const projects = new Map<string, { ProjectName: string; Items: Array<Record<string, unknown>> }>();
+  for (const item of items) {
+    const project = projects.get(item.projectId) ?? { ProjectName: item.projectName, Items: [] };
+    project.Items.push({ Title: item.title, Summary: item.summary, URL: item.url });
+    projects.set(item.projectId, project);
+  }
+  return { Cadence: batch.cadence, ItemCount: items.length, Projects: [...projects.values()] };
+}
+
+/** Digests go through `/send`'s pipeline, keyed by batch id so a resumed batch is not sent twice. */
+async function dispatchDigest(batch: DigestBatch, items: DigestItem[]) {
+  if (items.length === 0) return;
+  let validated: ValidatedSendRequest;
+  try {
+    validated = validateSendRequest({
+      id: batch.id,
+      channel: CHANNEL_EMAIL,
+      template: DIGEST_TEMPLATE,
+      to: batch.to,
+      data: digestData(batch, items),
+      metadata: { userId: batch.userId, source: 'scheduler', traceId: newTraceId() },
+    });
+  } catch (error) {
+    // Retrying cannot fix a rejected payload, so the batch is dropped rather than blocking the schedule.
+    logger.error('Digest rejected', { requestId: batch.id, userId: batch.userId, error });
+    return;
+  }
+  const outcome = await withLogContext(sendLogContext(validated), () => submitSend(validated, { async: true }));
+  if (outcome.statusCode >= 400) {
+    const reason = 'error' in outcome.body ? outcome.body.error : `status ${outcome.statusCode}`;
+    // An unconfigured provider is retried on the next tick; suppressions and opt-outs are final.
+    if (outcome.statusCode >= 500) throw new Error(`Digest ${batch.id} could not be queued: ${reason}`);
+    logger.warn('Digest not sent', { ...sendLogContext(validated), reason });
+  }
+}
+
+const digestScheduler = createDigestScheduler({
+  items: createStore<DigestItem>('digest-items'),
+  schedules: createStore<DigestSchedule>('digest-schedules'),
+  due: createDueIndex('digest-schedules-due'),
+  batches: createStore<DigestBatch>('digest-batches'),
+  locks: createStore<number>('digest-locks'),
+  dispatch: dispatchDigest,
+});
+
+function presentedSecret(req: Request): string | undefined {
+  const headerValue = req.headers['x-communications-secret'];
+  const secret = Array.isArray(headerValue) ? headerValue[0] : headerValue;
+  if (secret) return secret;
+  const authorization = req.headers.authorization;
+  return authorization?.startsWith(BEARER_PREFIX) ? authorization.slice(BEARER_PREFIX.length).trim() : undefined;
+}
+
+function missingScope(res: Response, caller: ApiKey, scope: string) {
+  res.status(403).json({ error: `API key "${caller.name}" lacks scope ${scope}` });
+}
+
+/** Authenticates the caller and, when `scope` is given, checks the key grants it. */
+function requireApiKey(scope?: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    // Fail closed if no key is configured
+    if (apiKeys.keys.length === 0) {
+      res.status(503).json({ error: 'COMMUNICATIONS_API_KEYS not configured' });
+      return;
+    }
+    const caller = apiKeys.verify(presentedSecret(req));
+    if (!caller) {
+      res.status(401).json({ error: 'Invalid or missing secret' });
+      return;
+    }
+    if (scope && !hasScope(caller, scope)) {
+      missingScope(res, caller, scope);
+      return;
+    }
+    res.locals.apiKey = caller;
+    next();
+  };
+}
+
+/**
+ * Stamps the caller into `metadata.source`, replacing whatever the request claimed, and the request's
+ * trace into `metadata.traceId` when the caller sent none, so queued sends and forwarded events keep it.
+ */
+function withCaller(body: unknown, caller: ApiKey): Partial<SendRequest> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return body as Partial<SendRequest>;
+  const request = body as Partial<SendRequest>;
+  const metadata = request.metadata && typeof request.metadata === 'object' ? request.metadata : {};
+  const traceId = typeof metadata.traceId === 'string' && metadata.traceId ? metadata.traceId : undefined;
+  return {
+    ...request,
+    metadata: { ...metadata, source: caller.name, traceId: traceId ?? currentLogContext().traceId },
+  };
+}
+
+type SendOutcome = {
+  statusCode: number;
+  body: SendResponse | { error: string };
+  replayed?: boolean;
+};
+
+type SendStart = { kind: 'done'; outcome: SendOutcome } | { kind: 'ready'; fingerprint: string };
+
+/** Configuration, idempotency, suppression and preference checks that come before any send. */
+async function beginSend(validated: ValidatedSendRequest): Promise<SendStart> {
+  const providerName = providerNameFor(validated.channel);
+  const unconfigured = channelConfigError(validated.channel);
+  if (unconfigured) {
+    const response: SendResponse = {
+      id: validated.id,
+      provider: providerName,
+      status: 'failed',
+      error: unconfigured,
+    };
+    return { kind: 'done', outcome: { statusCode: 503, body: response } };
+  }
+
+  const fingerprint = sendFingerprint(validated);
+  const idempotency = await sendIdempotency.begin(validated.id, fingerprint);
+  if (idempotency.kind === 'conflict') {
+    const body = { error: 'id was already used with a different payload' };
+    return { kind: 'done', outcome: { statusCode: 409, body } };
+  }
+  if (idempotency.kind === 'in_progress') {
+    const body = { error: 'A request with this id is already in progress' };
+    return { kind: 'done', outcome: { statusCode: 409, body } };
+  }
+  if (idempotency.kind === 'replay') {
+    // Queued sends are remembered as `queued`; the job says how far the message has got since.
+    const job = idempotency.statusCode === 202 ? await sendQueue.get(validated.id) : null;
+    const body = job ? queuedSendResponse(validated, job) : idempotency.response;
+    return { kind: 'done', outcome: { statusCode: idempotency.statusCode, body, replayed: true } };
+  }
+
+  const block = await findSendBlock(validated);
+  if (block) {
+    const response: SendResponse = {
+      id: validated.id,
+      provider: providerName,
+      status: block.status,
+      error: block.error,
+    };
+    await forwardMessageStatus(validated, block.status, { provider: providerName, error: block.error });
+    // Not remembered: once the suppression or opt-out is lifted, a retry with the same id should send.
+    await sendIdempotency.release(validated.id);
+    return { kind: 'done', outcome: { statusCode: 422, body: response } };
+  }
+  return { kind: 'ready', fingerprint };
+}
+
+async function completeSend(
+  validated: ValidatedSendRequest,
+  fingerprint: string,
+  result: ProviderSendResult,
+): Promise<SendOutcome> {
+  const response: SendResponse = {
+    id: validated.id,
+    provider: result.provider,
+    status: COMMUNICATION_STATUSES.sent,
+    messageId: result.messageId,
+  };
+  // The provider has accepted the message: a bookkeeping failure must not report `failed` or free the id,
+  // or the caller's retry would send it again.
+  try {
+    await registerCallbackRoute(validated, result);
+    await forwardMessageStatus(validated, COMMUNICATION_STATUSES.sent, {
+      provider: result.provider,
+      providerMessageId: result.messageId,
+    });
+  } catch (error) {
+    logger.error('Bookkeeping after send failed', {
+      provider: result.provider,
+      providerMessageId: result.messageId,
+      error,
+    });
+  }
+  await sendIdempotency.complete(validated.id, fingerprint, 200, response);
+  return { statusCode: 200, body: response };
+}
+
+async function failSend(validated: ValidatedSendRequest, error: unknown): Promise<SendOutcome> {
+  const provider = error instanceof ProviderError ? error.provider : providerNameFor(validated.channel);
+  const response: SendResponse = {
+    id: validated.id,
+    provider,
+    status: COMMUNICATION_STATUSES.failed,
+    error: error instanceof Error ? error.message : 'Unknown error',
+  };
+  await forwardMessageStatus(validated, COMMUNICATION_STATUSES.failed, { provider, error: response.error });
+  // Failures are not replayed: the caller's retry with the same id should get a fresh attempt.
+  await sendIdempotency.release(validated.id);
+  return { statusCode: 500, body: response };
+}
+
+/** `/send`'s answer for a queued message, from the job's current state. */
+function queuedSendResponse(validated: ValidatedSendRequest, job: SendJob<ValidatedSendRequest>): SendResponse {
+  return {
+    id: validated.id,
+    provider: job.provider ?? providerNameFor(validated.channel),
+    status: job.status === 'dead' ? COMMUNICATION_STATUSES.failed : job.status,
+    messageId: job.messageId,
+    error: job.lastError,
+    sendAt: sendAtIso(validated),
+  };
+}
+
+/**
+ * Everything after validation that `/send` does: idempotency, suppression and preference
+ * checks, then an immediate or queued send. Shared with the digest scheduler.
+ */
+async function submitSend(validated: ValidatedSendRequest, options: { async: boolean }): Promise<SendOutcome> {
+  const start = await beginSend(validated);
+  if (start.kind === 'done') return start.outcome;
+  const { fingerprint } = start;
+
+  if (options.async || validated.sendAt !== undefined) {
+    const providerName = providerNameFor(validated.channel);
+    const job = await sendQueue.enqueue(validated.id, validated, { notBefore: validated.sendAt });
+    const response = queuedSendResponse(validated, job);
+    if (job.attempts === 0) {
+      await forwardMessageStatus(validated, COMMUNICATION_STATUSES.queued, { provider: providerName });
+    }
+    await sendIdempotency.complete(validated.id, fingerprint, 202, response);
+    return { statusCode: 202, body: response };
+  }
+
+  let result: ProviderSendResult;
+  try {
+    result = await deliverMessage(validated);
+  } catch (error) {
+    return failSend(validated, error);
+  }
+  return completeSend(validated, fingerprint, result);
+}
+
+/**
+ * `submitSend` for many requests. Immediate emails that pass their checks go to the provider
+ * together; queued, SMS and push items are submitted one by one. Outcomes are in input order.
+ */
+async function submitBatch(items: ValidatedSendRequest[], options: { async: boolean }): Promise<SendOutcome[]> {
+  const outcomes: SendOutcome[] = new Array(items.length);
+  const ready: Array<{ index: number; validated: ValidatedSendRequest; fingerprint: string }> = [];
+  for (const [index, validated] of items.entries()) {
+    if (options.async || validated.sendAt !== undefined || validated.channel !== CHANNEL_EMAIL) {
+      outcomes[index] = await submitSend(validated, options);
+      continue;
+    }
+    const start = await beginSend(validated);
+    if (start.kind === 'done') outcomes[index] = start.outcome;
+    else ready.push({ index, validated, fingerprint: start.fingerprint });
+  }
+
+  const sendable: typeof ready = [];
+  const messages: EmailMessage[] = [];
+  for (const entry of ready) {
+    try {
+      messages.push(await buildEmailMessage(entry.validated));
+      sendable.push(entry);
+    } catch (error) {
+      outcomes[entry.index] = await failSend(entry.validated, error);
+    }
+  }
+  if (sendable.length === 0) return outcomes;
+
+  // One provider call, so it joins the trace of the request that carried the batch.
+  const { traceId } = currentLogContext();
+  const results = await sendBatchWithFallback(emailProviders, messages, {
+    idempotencyKey: batchIdempotencyKey(sendable.map((entry) => entry.validated.id)),
+    traceparent: traceId ? createTraceparent(traceId) : undefined,
+  });
+  for (const [position, { index, validated, fingerprint }] of sendable.entries()) {
+    const result = results[position];
+    outcomes[index] =
+      result instanceof ProviderError
+        ? await failSend(validated, result)
+        : await completeSend(validated, fingerprint, result);
+  }
+  return outcomes;
+}
+
+function templatesUnavailable(): boolean {
+  const registry = templateCatalog.current();
+  return [...TEMPLATE_CHANNELS].every((channel) => channelTemplates(registry, channel as string).size === 0);
+}
+
+app.post('/send', requireApiKey(), sendLimiter, queueLimiter, asyncHandler(async (req, res) => {
+  if (templatesUnavailable()) {
+    res.status(503).json({ error: 'No templates available' });
+    return;
+  }
+
+  const caller = callerOf(res) as ApiKey;
+  let validated: ValidatedSendRequest;
+  try {
+    validated = await validateForSend(withCaller(req.body, caller));
+  } catch (validationError) {
+    const message = validationError instanceof Error ? validationError.message : 'Invalid request';
+    res.status(400).json({ error: message });
+    return;
+  }
+  addLogContext(sendLogContext(validated));
+  const scope = sendScope(validated.templateName);
+  if (!hasScope(caller, scope)) {
+    missingScope(res, caller, scope);
+    return;
+  }
+
+  const outcome = await submitSend(validated, { async: isAsyncSend(req) });
+  if (outcome.replayed) res.setHeader(IDEMPOTENT_REPLAY_HEADER, 'true');
+  res.status(outcome.statusCode).json(outcome.body);
+}));
+
+function toBatchResult(index: number, outcome: SendOutcome): BatchSendResult {
+  return { index, statusCode: outcome.statusCode, ...(outcome.replayed ? { replayed: true } : {}), ...outcome.body };
+}
+
+app.post('/send/batch', requireApiKey(), asyncHandler(async (req, res) => {
+  if (templatesUnavailable()) {
+    res.status(503).json({ error: 'No templates available' });
+    return;
+  }
+
+  const caller = callerOf(res) as ApiKey;
+  let requests: Array<Partial<SendRequest>>;
+  try {
+    requests = expandBatchRequest(req.body).map((request) => withCaller(request, caller));
+  } catch (validationError) {
+    const message = validationError instanceof Error ? validationError.message : 'Invalid request';
+    res.status(400).json({ error: message });
+    return;
+  }
+
+  // All items are validated before anything is sent, so a bad item never leaves a half-sent batch.
+  const validatedItems: ValidatedSendRequest[] = [];
+  const invalid: BatchSendResult[] = [];
+  for (const [index, request] of requests.entries()) {
+    const id = typeof request.id === 'string' ? request.id : undefined;
+    let validated: ValidatedSendRequest;
+    try {
+      validated = await validateForSend(request);
+    } catch (validationError) {
+      const message = validationError instanceof Error ? validationError.message : 'Invalid request';
+      invalid.push({ index, statusCode: 400, id, error: message });
+      continue;
+    }
+    const scope = sendScope(validated.templateName);
+    if (hasScope(caller, scope)) {
+      validatedItems.push(validated);
+    } else {
+      invalid.push({ index, statusCode: 403, id, error: `API key "${caller.name}" lacks scope ${scope}` });
+    }
+  }
+  if (invalid.length > 0) {
+    // 403 only when every rejected item was out of scope; anything malformed makes the batch a 400.
+    const statusCode = invalid.every((item) => item.statusCode === 403) ? 403 : 400;
+    res.status(statusCode).json({ error: 'Batch contains invalid items', results: invalid });
+    return;
+  }
+
+  // Every item counts against the caller's per-minute limits, as the same sends through `/send` would.
+  // Items past the limit answer 429 and are not sent; the ones before them go ahead.
+  const asyncBatch = isAsyncSend(req);
+  const isQueued = (validated: ValidatedSendRequest) => asyncBatch || validated.sendAt !== undefined;
+  const key = rateLimitKey(req, res);
+  const queuedCount = validatedItems.filter(isQueued).length;
+  const immediateCount = validatedItems.length - queuedCount;
+  const allowance = {
+    immediate: await chargeRateLimit(sendLimitStore, key, caller.rateLimit ?? SEND_RATE_LIMIT, immediateCount),
+    queued: await chargeRateLimit(queueLimitStore, key, caller.queueRateLimit ?? QUEUE_RATE_LIMIT, queuedCount),
+  };
+  const results: BatchSendResult[] = new Array(validatedItems.length);
+  const admitted: Array<{ index: number; validated: ValidatedSendRequest }> = [];
+  for (const [index, validated] of validatedItems.entries()) {
+    const budget = isQueued(validated) ? 'queued' : 'immediate';
+    if (allowance[budget] > 0) {
+      allowance[budget] -= 1;
+      admitted.push({ index, validated });
+    } else {
+      results[index] = { index, statusCode: 429, id: validated.id, error: 'Too many requests' };
+    }
+  }
+
+  const outcomes = await submitBatch(admitted.map((item) => item.validated), { async: asyncBatch });
+  for (const [position, { index }] of admitted.entries()) {
+    results[index] = toBatchResult(index, outcomes[position]);
+  }
+  res.status(admitted.length === 0 ? 429 : 200).json({ results });
+}));
+
+app.get('/messages/:id', requireApiKey('messages:read'), asyncHandler(async (req, res) => {
+  const entry = await messageLedger.get(req.params.id);
+  if (!entry) {
+    res.status(404).json({ error: 'Message not found' });
+    return;
+  }
+  res.json(entry);
+}));
+
+const OUTBOX_STATUSES = new Set<OutboxStatus>(['pending', 'delivered', 'dead']);
+const MAX_OUTBOX_LIST = 500;
+
+function readOutboxFilter(source: Record<string, unknown>): { status?: OutboxStatus; from?: number; to?: number } {
+  const readTime = (field: 'from' | 'to') => {
+    const value = source[field];
+    if (value === undefined) return undefined;
+    const parsed = typeof value === 'string' ? Date.parse(value) : Number.NaN;
+    if (!Number.isFinite(parsed)) throw new Error(`${field} must be an ISO 8601 timestamp`);
+    return parsed;
+  };
+  const status = source.status;
+  if (status !== undefined && !OUTBOX_STATUSES.has(status as OutboxStatus)) {
+    throw new Error('status must be pending, delivered or dead');
+  }
+  return { status: status as OutboxStatus | undefined, from: readTime('from'), to: readTime('to') };
+}
+
+// Dead-letter view: `?status=dead`, optionally narrowed to a `from`/`to` window.
+app.get('/outbox', requireApiKey('outbox:read'), asyncHandler(async (req, res) => {
+  if (!apiOutbox) {
+    res.status(503).json({ error: 'API_BASE_URL not configured' });
+    return;
+  }
+  let filter: ReturnType<typeof readOutboxFilter>;
+  try {
+    filter = readOutboxFilter(req.query);
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    return;
+  }
+  const entries = await apiOutbox.list(filter);
+  res.json({ total: entries.length, entries: entries.slice(-MAX_OUTBOX_LIST) });
+}));
+
+/** Re-sends delivered and dead entries created in `from`..`to`, e.g. after the API lost writes during an incident. */
+app.post('/outbox/replay', requireApiKey('outbox:write'), asyncHandler(async (req, res) => {
+  if (!apiOutbox) {
+    res.status(503).json({ error: 'API_BASE_URL not configured' });
+    return;
+  }
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  let filter: ReturnType<typeof readOutboxFilter>;
+  try {
+    filter = readOutboxFilter(body);
+    if (filter.from === undefined || filter.to === undefined) throw new Error('from and to are required');
+    if (filter.status === 'pending') throw new Error('pending entries are already being delivered');
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    return;
+  }
+  res.json({ replayed: await apiOutbox.replay(filter) });
+}));
+
+app.delete('/send/:id', requireApiKey(), asyncHandler(async (req, res) => {
+  const caller = callerOf(res) as ApiKey;
+  const queued = await sendQueue.get(req.params.id);
+  if (queued && !hasScope(caller, sendScope(queued.payload.templateName))) {
+    missingScope(res, caller, sendScope(queued.payload.templateName));
+    return;
+  }
+  const outcome = await sendQueue.cancel(req.params.id);
+  if (outcome.kind === 'not_found') {
+    res.status(404).json({ error: 'No queued message with this id' });
+    return;
+  }
+  if (outcome.kind === 'in_progress') {
+    res.status(409).json({ error: 'Message is being sent' });
+    return;
+  }
+  if (outcome.kind === 'not_pending') {
+    const status = outcome.job.status === 'dead' ? COMMUNICATION_STATUSES.failed : outcome.job.status;
+    res.status(409).json({ error: `Message is already ${status}` });
+    return;
+  }
+
+  const { job } = outcome;
+  const provider = providerNameFor(job.payload.channel);
+  const response: SendResponse = {
+    id: job.id,
+    provider,
+    status: COMMUNICATION_STATUSES.canceled,
+    sendAt: sendAtIso(job.payload),
+  };
+  await forwardMessageStatus(job.payload, COMMUNICATION_STATUSES.canceled, { provider });
+  // A replay of the original request now reports the cancellation rather than `queued`.
+  await sendIdempotency.complete(job.id, sendFingerprint(job.payload), 200, response);
+  res.json(response);
+}));
+
+app.get('/templates', requireApiKey('templates:read'), asyncHandler(async (_req, res) => {
+  const registry = templateCatalog.current();
+  try {
+    const templates = await Promise.all(
+      [...registry.versions.keys()].sort().map((name) => registry.describeTemplate(name)),
+    );
+    res.json({ bundle: registry.version, templates });
+  } catch (error) {
+    logger.error('Template listing failed', { error });
+    res.status(500).json({ error: 'Failed to load templates' });
+  }
+}));
+
+app.post('/templates/reload', requireApiKey('templates:write'), (_req: Request, res: Response) => {
+  try {
+    const { version, changed } = templateCatalog.reload({ force: true });
+    if (changed) logger.info('Template bundle activated', { bundle: version });
+    res.json({ bundle: version, changed });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('Template reload failed', { error: message });
+    res.status(500).json({ error: message });
+  }
+});
+
+app.get('/templates/bundles', requireApiKey('templates:read'), (_req: Request, res: Response) => {
+  res.json({ bundles: templateCatalog.list() });
+});
+
+app.post('/templates/bundles/:version/activate', requireApiKey('templates:write'), (req: Request, res: Response) => {
+  const registry = templateCatalog.activate(req.params.version);
+  if (!registry) {
+    res.status(404).json({ error: 'Bundle not loaded' });
+    return;
+  }
+  logger.info('Template bundle activated', { bundle: registry.version });
+  res.json({ bundle: registry.version });
+});
+
+const templateReloader =
+  templatesReloadIntervalMs > 0
+    ? createPoller(
+        'Template reload',
+        async () => {
+          const { version, changed } = templateCatalog.reload();
+          if (changed) logger.info('Template bundle activated', { bundle: version });
+        },
+        templatesReloadIntervalMs,
+      )
+    : null;
+
+type TemplatePreview = {
+  template: string;
+  /** Version of the template that was rendered. */
+  version: string;
+  channel: string;
+  /** The variant that was rendered, after falling back from the requested locale. */
+  locale: string;
+  /** Email only. */
+  subject?: string;
+  /** Email only. */
+  html?: string;
+  /** Email and SMS. */
+  text?: string;
+  /** SMS only: encoding and segment count of `text`. */
+  sms?: SmsSegmentInfo & { maxSegments: number };
+  /** Push only: the notification shown by the service worker. */
+  push?: PushNotification;
+  /** Placeholders that resolved to nothing for the supplied data. */
+  unresolved: string[];
+  /** Keys in `data` that neither the manifest nor any template file references. */
+  unknownKeys: string[];
+  /** Manifest violations that would make `/send` reject the same data. */
+  errors: string[];
+};
+
+// Template names contain slashes (`Authentication/magic-link`), so the name is the wildcard segment.
+app.post(
+  '/templates/*/render',
+  requireApiKey('templates:read'),
+  previewLimiter,
+  asyncHandler(async (req, res) => {
+    let templateName: string;
+    let templateVersion: string | undefined;
+    try {
+      const ref = parseTemplateRef(req.params[0]);
+      templateName = normalizeTemplateName(ref.name);
+      templateVersion = ref.version;
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid template' });
+      return;
+    }
+    const registry = templateVersion
+      ? await templateCatalog.load(templateName, templateVersion)
+      : templateCatalog.current();
+    if (!registry) {
+      res.status(404).json({ error: `Template version ${templateVersion} is not loaded` });
+      return;
+    }
+    const body = (req.body ?? {}) as { data?: unknown; subject?: unknown; channel?: unknown; locale?: unknown };
+    const channel = body.channel ?? CHANNEL_EMAIL;
+    if (typeof channel !== 'string' || !TEMPLATE_CHANNELS.has(channel)) {
+      res.status(400).json({ error: `Unsupported channel: ${String(channel)}` });
+      return;
+    }
+    if (!channelTemplates(registry, channel).has(templateName)) {
+      res.status(404).json({ error: 'Unknown template' });
+      return;
+    }
+
+    const data = body.data ?? {};
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      res.status(400).json({ error: 'data must be an object' });
+      return;
+    }
+    if (JSON.stringify(data).length > MAX_DATA_BYTES) {
+      res.status(400).json({ error: 'data payload too large' });
+      return;
+    }
+    const record = data as Record<string, unknown>;
+    const locale = body.locale === undefined ? undefined : normalizeLocale(body.locale);
+    if (locale === null) {
+      res.status(400).json({ error: 'locale must be a BCP 47 language tag, e.g. "pt-BR"' });
+      return;
+    }
+
+    const unresolved = new Set<string>();
+    const onMissing = (placeholder: string) => unresolved.add(placeholder);
+    try {
+      const description = await registry.describeTemplate(templateName);
+      const manifest = registry.manifests.get(templateName);
+      let rendered: Pick<TemplatePreview, 'subject' | 'html' | 'text' | 'sms' | 'push'>;
+      if (channel === CHANNEL_PUSH) {
+        rendered = { push: await registry.renderPush(templateName, record, { onMissing, locale }) };
+      } else if (channel === CHANNEL_SMS) {
+        const text = await registry.renderSms(templateName, record, { onMissing, locale });
+        rendered = { text, sms: { ...countSmsSegments(text), maxSegments: smsMaxSegments } };
+      } else {
+        const { html, text } = await registry.renderMessage(templateName, record, { onMissing, locale });
+        const subject =
+          typeof body.subject === 'string'
+            ? body.subject.trim()
+            : manifest
+              ? renderSubject(manifest, record, { onMissing, locale })
+              : DEFAULT_SUBJECT;
+        rendered = { subject, html, text };
+      }
+      const known = new Set(description.variables.map((variable) => variable.name));
+      const preview: TemplatePreview = {
+        template: templateName,
+        version: description.version,
+        channel,
+        locale: registry.resolveLocale(templateName, channel as TemplateChannel, locale),
+        ...rendered,
+        unresolved: [...unresolved].sort(),
+        unknownKeys: Object.keys(record).filter((key) => !known.has(key)).sort(),
+        errors: manifest ? validateTemplateData(manifest, record) : [],
+      };
+      res.json(preview);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(422).json({ error: message });
+    }
+  }),
+);
+
+const webhookEvents = createWebhookDeduplicator(createStore<number>('webhook-events'));
+
+app.post('/webhooks/provider', asyncHandler(async (req, res) => {
+  if (webhookSecrets.length === 0) {
+    res.status(503).send('EMAIL_WEBHOOK_SECRET not configured');
+    return;
+  }
+
+  const rawBody = (req as RawBodyRequest).rawBody;
+  if (!rawBody) {
+    res.status(400).send('Missing raw request body');
+    return;
+  }
+
+  const verification = verifyResendWebhook({
+    secrets: webhookSecrets,
+    headers: req.headers,
+    payload: rawBody,
+    toleranceSeconds: WEBHOOK_TOLERANCE_SECONDS,
+  });
+  if (!verification.ok) {
+    webhookVerificationFailuresTotal.inc({ webhook: RESEND_PROVIDER_NAME });
+    logger.warn('Webhook signature verification failed', {
+      webhook: RESEND_PROVIDER_NAME,
+      reason: verification.reason,
+    });
+    res.status(401).send(verification.reason || 'Invalid signature');
+    return;
+  }
+
+  // Provider retries and replayed captures are acknowledged without being processed again.
+  const eventId = verification.eventId;
+  if (eventId && !(await webhookEvents.claim(eventId))) {
+    res.status(204).end();
+    return;
+  }
+
+  const payload = req.body as Record<string, unknown>;
+  const built = buildWebhookEvent(payload);
+  if (built) {
+    const normalized = await recordProviderEvent(built);
+    addLogContext({ requestId: normalized.requestId });
+    logger.info(`Provider event ${normalized.status}`, {
+      provider: normalized.provider,
+      providerMessageId: normalized.messageId,
+      detail: normalized.detail,
+    });
+    try {
+      await enqueueApiPayload(API_EVENTS_PATH, normalized);
+    } catch (error) {
+      // Failing the webhook makes the provider redeliver it rather than the event being lost.
+      logger.error('Outbox write for webhook event failed', { error });
+      if (eventId) await webhookEvents.release(eventId);
+      res.status(500).send('Failed to persist event');
+      return;
+    }
+    dispatchCallback(normalized).catch((error) => {
+      logger.warn('Callback dispatch error', { error });
+    });
+    recordSuppressions(normalized, payload).catch((error) => {
+      logger.error('Suppression update failed', { error });
+    });
+  }
+
+  res.status(204).end();
+}));
+
+const SUPPRESSION_REASONS = new Set<SuppressionReason>(['hard_bounce', 'soft_bounce', 'complaint', 'manual']);
+const MAX_SUPPRESSION_NOTE_LENGTH = 500;
+
+app.get('/suppressions', requireApiKey('suppressions:read'), asyncHandler(async (_req, res) => {
+  res.json({ suppressions: await suppressionList.list() });
+}));
+
+app.post('/suppressions', requireApiKey('suppressions:write'), asyncHandler(async (req, res) => {
+  const body = (req.body ?? {}) as { address?: unknown; reason?: unknown; note?: unknown };
+  const address = typeof body.address === 'string' ? body.address.trim() : '';
+  if (!EMAIL_REGEX.test(address) && !E164_REGEX.test(address)) {
+    res.status(400).json({ error: 'address must be an email address or E.164 phone number' });
+    return;
+  }
+  const reason = (body.reason ?? 'manual') as SuppressionReason;
+  if (!SUPPRESSION_REASONS.has(reason)) {
+    res.status(400).json({ error: `reason must be one of ${[...SUPPRESSION_REASONS].join(', ')}` });
+    return;
+  }
+  if (body.note !== undefined && (typeof body.note !== 'string' || body.note.length > MAX_SUPPRESSION_NOTE_LENGTH)) {
+    res.status(400).json({ error: `note must be a string of at most ${MAX_SUPPRESSION_NOTE_LENGTH} characters` });
+    return;
+  }
+
+  const entry = await suppressionList.add(address, reason, { note: body.note as string | undefined });
+  res.status(201).json(entry);
+}));
+
+app.delete('/suppressions/:address', requireApiKey('suppressions:write'), asyncHandler(async (req, res) => {
+  const removed = await suppressionList.remove(req.params.address);
+  res.status(removed ? 204 : 404).end();
+}));
+
+type PreferencesBody = {
+  userId?: unknown;
+  recipient?: unknown;
+  categories?: unknown;
+  channels?: unknown;
+};
+
+function readPreferenceKey(source: { userId?: unknown; recipient?: unknown }): string {
+  const userId = typeof source.userId === 'string' ? source.userId.trim() : '';
+  const recipient = typeof source.recipient === 'string' ? source.recipient.trim() : '';
+  if (userId.length > MAX_ID_LENGTH || (!userId && !EMAIL_REGEX.test(recipient) && !E164_REGEX.test(recipient))) {
+    throw new Error('userId or a recipient email/phone number is required');
+  }
+  return preferenceKey({ userId: userId || undefined, recipient: recipient || undefined }) as string;
+}
+
+app.get('/preferences', requireApiKey('preferences:read'), asyncHandler(async (req, res) => {
+  let key: string;
+  try {
+    key = readPreferenceKey(req.query);
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    return;
+  }
+  const stored = await preferences.get(key);
+  res.json({ key, preferences: stored ?? { categories: {}, channels: {} } });
+}));
+
+app.put('/preferences', requireApiKey('preferences:write'), asyncHandler(async (req, res) => {
+  const body = (req.body ?? {}) as PreferencesBody;
+  let key: string;
+  let patch: ReturnType<typeof validatePreferencePatch>;
+  try {
+    key = readPreferenceKey(body);
+    patch = validatePreferencePatch(body);
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    return;
+  }
+  res.json({ key, preferences: await preferences.update(key, patch) });
+}));
+
+app.post('/digests/items', requireApiKey('digests:write'), asyncHandler(async (req, res) => {
+  let input: ReturnType<typeof validateDigestItemInput>;
+  try {
+    input = validateDigestItemInput(req.body);
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    return;
+  }
+  const { item, created, schedule } = await digestScheduler.addItem(input);
+  res.status(created ? 202 : 200).json({
+    id: item.id,
+    userId: item.userId,
+    created,
+    cadence: schedule.cadence,
+    timezone: schedule.timezone,
+    nextRunAt: new Date(schedule.nextRunAt).toISOString(),
+  });
+}));
+
+function unsubscribePage(title: string, message: string, form = false): string {
+  const button = form
+    ? '<form method="post"><button type="submit" name="List-Unsubscribe" value="One-Click">Unsubscribe</button></form>'
+    : '';
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width">
+<title>${escapeHtml(title)}</title></head><body><h1>${escapeHtml(title)}</h1><p>${escapeHtml(message)}</p>${button}</body></html>`;
+}
+
+// GET only confirms: link scanners prefetch URLs, so the opt-out itself requires a POST.
+app.get('/unsubscribe/:token', unsubscribeLimiter, (req: Request, res: Response) => {
+  const claims = unsubscribeSigningSecret ? verifyUnsubscribeToken(unsubscribeSigningSecret, req.params.token) : null;
+  if (!claims) {
+    res.status(404).type('html').send(unsubscribePage('Link not valid', 'This unsubscribe link is invalid.'));
+    return;
+  }
+  res
+    .type('html')
+    .send(unsubscribePage('Unsubscribe', `Stop receiving ${claims.category} notifications from Intellex?`, true));
+});
+
+app.post('/unsubscribe/:token', unsubscribeLimiter, formBody, asyncHandler(async (req, res) => {
+  const claims = unsubscribeSigningSecret ? verifyUnsubscribeToken(unsubscribeSigningSecret, req.params.token) : null;
+  if (!claims) {
+    res.status(404).type('html').send(unsubscribePage('Link not valid', 'This unsubscribe link is invalid.'));
+    return;
+  }
+  await preferences.update(claims.key, { categories: { [claims.category]: false } });
+  res
+    .type('html')
+    .send(unsubscribePage('Unsubscribed', `You will no longer receive ${claims.category} notifications from Intellex.`));
+}));
+
+type SubscriptionBody = {
+  subscription?: unknown;
+  endpoint?: unknown;
+  metadata?: { userId?: unknown };
+};
+
+function readSubscriptionUserId(body: SubscriptionBody): string {
+  const userId = typeof body.metadata?.userId === 'string' ? body.metadata.userId.trim() : '';
+  if (!userId || userId.length > MAX_ID_LENGTH) {
+    throw new Error('metadata.userId is required');
+  }
+  return userId;
+}
+
+app.post('/subscriptions', requireApiKey('subscriptions:write'), asyncHandler(async (req, res) => {
+  const body = (req.body ?? {}) as SubscriptionBody;
+  let userId: string;
+  let subscription: Awaited<ReturnType<typeof validatePushSubscription>>;
+  try {
+    userId = readSubscriptionUserId(body);
+    subscription = await validatePushSubscription(body.subscription);
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid subscription' });
+    return;
+  }
+
+  const stored = await pushSubscriptions.register(userId, subscription);
+  res.status(201).json({ userId, endpoint: stored.endpoint, createdAt: stored.createdAt });
+}));
+
+app.delete('/subscriptions', requireApiKey('subscriptions:write'), asyncHandler(async (req, res) => {
+  const body = (req.body ?? {}) as SubscriptionBody;
+  let userId: string;
+  try {
+    userId = readSubscriptionUserId(body);
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    return;
+  }
+  if (typeof body.endpoint !== 'string' || !body.endpoint) {
+    res.status(400).json({ error: 'endpoint is required' });
+    return;
+  }
+
+  const removed = await pushSubscriptions.remove(userId, [body.endpoint]);
+  res.status(removed > 0 ? 204 : 404).end();
+}));
+
+// Twilio-compatible status callbacks are form-encoded and signed over the callback URL plus the parameters.
+app.post('/webhooks/sms', formBody, asyncHandler(async (req, res) => {
+  if (!smsAuthToken || !smsStatusCallbackUrl) {
+    res.status(503).send('TWILIO_AUTH_TOKEN and SMS_STATUS_CALLBACK_URL must be configured');
+    return;
+  }
+
+  const params = (req.body ?? {}) as Record<string, string>;
+  const verification = verifyTwilioSignature({
+    authToken: smsAuthToken,
+    signatureHeader: req.headers[TWILIO_SIGNATURE_HEADER],
+    url: smsStatusCallbackUrl,
+    params,
+  });
+  if (!verification.ok) {
+    webhookVerificationFailuresTotal.inc({ webhook: SMS_PROVIDER_NAME });
+    logger.warn('Webhook signature verification failed', { webhook: SMS_PROVIDER_NAME, reason: verification.reason });
+    res.status(401).send(verification.reason || 'Invalid signature');
+    return;
+  }
+
+  const status = normalizeTwilioStatus(params.MessageStatus ?? params.SmsStatus);
+  const messageId = params.MessageSid ?? params.SmsSid;
+  if (status && messageId) {
+    const event = await recordProviderEvent({
+      provider: SMS_PROVIDER_NAME,
+      messageId,
+      status,
+      timestamp: Date.now(),
+      payload: params,
+    });
+    addLogContext({ requestId: event.requestId });
+    logger.info(`Provider event ${event.status}`, { provider: event.provider, providerMessageId: messageId });
+    try {
+      await enqueueApiPayload(API_EVENTS_PATH, event);
+    } catch (error) {
+      logger.error('Outbox write for SMS status callback failed', { error });
+      res.status(500).send('Failed to persist event');
+      return;
+    }
+    dispatchCallback(event).catch((error) => {
+      logger.warn('Callback dispatch error', { error });
+    });
+  }
+
+  res.status(204).end();
+}));
+
+/** The error body Supabase Auth hooks return; Auth shows `message` to the user. */
+function supabaseHookError(res: Response, httpCode: number, message: string) {
+  res.status(httpCode).json({ error: { http_code: httpCode, message } });
+}
+
+/**
+ * Supabase Auth's "Send Email" hook: Auth stops sending its own emails and posts each one here
+ * (Standard Webhooks signed). Emails go through `/send`'s pipeline, keyed by the webhook id so a
+ * retried hook is not sent twice.
+ */
+app.post('/hooks/supabase/send-email', asyncHandler(async (req, res) => {
+  if (supabaseHookSecrets.length === 0 || !supabaseUrl) {
+    supabaseHookError(res, 503, 'SUPABASE_SEND_EMAIL_HOOK_SECRET and SUPABASE_URL must be configured');
+    return;
+  }
+
+  const rawBody = (req as RawBodyRequest).rawBody;
+  if (!rawBody) {
+    supabaseHookError(res, 400, 'Missing raw request body');
+    return;
+  }
+
+  const verification = verifyStandardWebhook({
+    secrets: supabaseHookSecrets,
+    headers: req.headers,
+    payload: rawBody,
+    toleranceSeconds: WEBHOOK_TOLERANCE_SECONDS,
+    now: Date.now(),
+  });
+  if (!verification.ok || !verification.id) {
+    webhookVerificationFailuresTotal.inc({ webhook: SUPABASE_SOURCE });
+    logger.warn('Webhook signature verification failed', { webhook: SUPABASE_SOURCE, reason: verification.reason });
+    supabaseHookError(res, 401, verification.reason || 'Invalid signature');
+    return;
+  }
+
+  let validated: ValidatedSendRequest[];
+  try {
+    const hook = mapSendEmailHook(req.body, supabaseUrl);
+    const locale = hook.locale === undefined ? undefined : (normalizeLocale(hook.locale) ?? undefined);
+    validated = hook.emails.map((email) =>
+      validateSendRequest({
+        id: hook.emails.length > 1 ? `supabase:${verification.id}:${email.key}` : `supabase:${verification.id}`,
+        channel: CHANNEL_EMAIL,
+        template: email.template,
+        to: email.to,
+        data: email.data,
+        locale,
+        metadata: { userId: hook.userId, source: SUPABASE_SOURCE, traceId: currentLogContext().traceId },
+      }),
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid request';
+    logger.warn('Supabase send-email hook rejected', { reason: message });
+    supabaseHookError(res, 400, message);
+    return;
+  }
+
+  // Auth waits for the answer, so the emails are sent now; a failure makes Auth report the error.
+  for (const email of validated) {
+    const outcome = await withLogContext(sendLogContext(email), () => submitSend(email, { async: false }));
+    if (outcome.statusCode >= 400) {
+      supabaseHookError(res, outcome.statusCode, outcome.body.error ?? `status ${outcome.statusCode}`);
+      return;
+    }
+  }
+  res.status(200).json({});
+}));
+
+app.use(handleRouteError);
+
 const server = app.listen(port, bindHost, () => {
-  console.log(`intellex-communications listening on ${bindHost}:${port}`);
+  logger.info('intellex-communications listening', { host: bindHost, port });
+  sendQueue.start();
+  digestScheduler.start();
+  apiOutbox?.start();
+  callbackDispatcher?.start();
+  templateReloader?.start();
 });
 
 server.on('error', (error) => {
-  const message = error instanceof Error ? error.message : String(error);
-  console.error(`intellex-communications failed to start: ${message}`);
+  logger.error('intellex-communications failed to start', { error });
   process.exit(1);
 });
@@ -0,0 +1,234 @@
+import { Agent, fetch as undiciFetch, type Response } from 'undici';
+
+import { logger } from '../observability/log';
+import type { DueIndex, KeyValueStore } from '../stores';
+import { createResendSignatureHeader } from '../webhooks/resend';
+import {
+  assertPublicCallbackHost,
+  createPublicOnlyLookup,
+  type HostResolver,
+  PrivateAddressError,
+} from '../workflows/callback-url';
+import { createPoller } from './poller';
+import { computeBackoffMs } from './send-queue';
+
+export const CALLBACK_SIGNATURE_HEADER = 'intellex-signature';
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_MAX_ATTEMPTS = 6;
+const DEFAULT_BASE_BACKOFF_MS = 10_000;
+const DEFAULT_MAX_BACKOFF_MS = 30 * 60_000;
+const DEFAULT_LOCK_TTL_MS = 60_000;
+const CALLBACK_TIMEOUT_MS = 5000;
+const DELIVERED_RETENTION_MS = 24 * 60 * 60_000;
+const DEAD_RETENTION_MS = 30 * 24 * 60 * 60_000;
+
+export type CallbackJobStatus = 'pending' | 'delivered' | 'dead';
+
+export type CallbackJob = {
+  id: string;
+  url: string;
+  body: string;
+  status: CallbackJobStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  updatedAt: number;
+  lastError?: string;
+};
+
+export type CallbackDispatcherOptions = {
+  jobs: KeyValueStore<CallbackJob>;
+  /** Pending job ids by `nextAttemptAt`, so a tick never reads delivered or dead jobs. */
+  due: DueIndex;
+  locks: KeyValueStore<number>;
+  signingSecret: string;
+  allowlist: Set<string>;
+  fetchImpl?: typeof undiciFetch;
+  /** Resolves callback hosts; replaceable in tests. */
+  resolveHost?: HostResolver;
+  pollIntervalMs?: number;
+  batchSize?: number;
+  maxAttempts?: number;
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+  now?: () => number;
+};
+
+export type CallbackDispatcher = {
+  /** Persists a callback; an id that already exists is left untouched. */
+  enqueue(id: string, url: string, payload: Record<string, unknown>): Promise<CallbackJob>;
+  get(id: string): Promise<CallbackJob | null>;
+  tick(): Promise<number>;
+  start(): void;
+  stop(): void;
+};
+
+class CallbackError extends Error {
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = 'CallbackError';
+    this.retryable = retryable;
+  }
+}
+
+function findPrivateAddressError(error: unknown): PrivateAddressError | undefined {
+  // fetch wraps connection errors, including ones from the agent's lookup, in `cause`.
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current instanceof PrivateAddressError) return current;
+  }
+  return undefined;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+export function createCallbackDispatcher(options: CallbackDispatcherOptions): CallbackDispatcher {
+  const {
+    jobs,
+    due,
+    locks,
+    signingSecret,
+    allowlist,
+    fetchImpl = undiciFetch,
+    resolveHost,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    batchSize = DEFAULT_BATCH_SIZE,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseBackoffMs = DEFAULT_BASE_BACKOFF_MS,
+    maxBackoffMs = DEFAULT_MAX_BACKOFF_MS,
+    now = Date.now,
+  } = options;
+
+  // Connections only go to addresses the lookup has checked, so the check and the request see the same DNS answer.
+  const agent = new Agent({ connect: { lookup: createPublicOnlyLookup(allowlist, resolveHost) } });
+
+  const post = async (job: CallbackJob) => {
+    try {
+      await assertPublicCallbackHost(job.url, allowlist, resolveHost);
+    } catch (error) {
+      // Resolver failures (ENOTFOUND, EAI_AGAIN, timeouts) are often temporary; a private address is not.
+      const message = error instanceof Error ? error.message : String(error);
+      throw new CallbackError(message, !findPrivateAddressError(error));
+    }
+
+    const timestampSeconds = Math.floor(now() / 1000);
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), CALLBACK_TIMEOUT_MS);
+    let response: Response;
+    try {
+      response = await fetchImpl(job.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          // `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`, the legacy Resend webhook scheme.
+          [CALLBACK_SIGNATURE_HEADER]: createResendSignatureHeader(signingSecret, timestampSeconds, job.body),
+        },
+        body: job.body,
+        redirect: 'manual',
+        signal: controller.signal,
+        dispatcher: agent,
+      });
+    } catch (error) {
+      const blocked = findPrivateAddressError(error);
+      if (blocked) throw new CallbackError(blocked.message, false);
+      // `fetch failed` alone does not say whether the lookup, the connection or the timeout failed.
+      const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+      const message = cause instanceof Error ? cause.message : String(cause);
+      throw new CallbackError(message, true);
+    } finally {
+      clearTimeout(timeout);
+    }
+    if (!response.ok) {
+      throw new CallbackError(`callback responded ${response.status}`, isRetryableStatus(response.status));
+    }
+  };
+
+  const processJob = async (job: CallbackJob) => {
+    const attempts = job.attempts + 1;
+    try {
+      await post(job);
+      await jobs.set(
+        job.id,
+        { ...job, status: 'delivered', attempts, updatedAt: now(), lastError: undefined },
+        { ttlMs: DELIVERED_RETENTION_MS },
+      );
+      await due.remove(job.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryable = error instanceof CallbackError && error.retryable;
+      if (!retryable || attempts >= maxAttempts) {
+        await jobs.set(
+          job.id,
+          { ...job, status: 'dead', attempts, updatedAt: now(), lastError: message },
+          { ttlMs: DEAD_RETENTION_MS },
+        );
+        await due.remove(job.id);
+        logger.error('Callback abandoned', { callbackId: job.id, attempts, error: message });
+        return;
+      }
+      const nextAttemptAt = now() + computeBackoffMs(attempts, baseBackoffMs, maxBackoffMs);
+      await jobs.set(job.id, { ...job, attempts, updatedAt: now(), nextAttemptAt, lastError: message });
+      await due.schedule(job.id, nextAttemptAt);
+      logger.warn('Callback attempt failed; retrying', { callbackId: job.id, attempts, error: message });
+    }
+  };
+
+  // As in the send queue, the index is never later than a job's `nextAttemptAt` and is corrected here.
+  const tick = async (): Promise<number> => {
+    const current = now();
+    let attempted = 0;
+    for (const id of await due.due(current, batchSize)) {
+      const claimed = await locks.setIfAbsent(id, current, { ttlMs: DEFAULT_LOCK_TTL_MS });
+      if (!claimed) continue;
+      try {
+        const fresh = await jobs.get(id);
+        if (!fresh || fresh.status !== 'pending') {
+          await due.remove(id);
+          continue;
+        }
+        if (fresh.nextAttemptAt > current) {
+          await due.schedule(id, fresh.nextAttemptAt);
+          continue;
+        }
+        attempted += 1;
+        await processJob(fresh);
+      } finally {
+        await locks.delete(id);
+      }
+    }
+    return attempted;
+  };
+
+  const poller = createPoller('Callback dispatcher', tick, pollIntervalMs);
+
+  return {
+    async enqueue(id: string, url: string, payload: Record<string, unknown>) {
+      const timestamp = now();
+      const job: CallbackJob = {
+        id,
+        url,
+        body: JSON.stringify(payload),
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: timestamp,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      await due.schedule(id, job.nextAttemptAt);
+      const created = await jobs.setIfAbsent(id, job);
+      if (created) return job;
+      return (await jobs.get(id)) ?? job;
+    },
+    get(id: string) {
+      return jobs.get(id);
+    },
+    tick,
+    start: poller.start,
+    stop: poller.stop,
+  };
+}
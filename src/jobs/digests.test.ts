@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createMemoryDueIndex, createMemoryStore } from '../stores';
+import {
+  createDigestScheduler,
+  type DigestBatch,
+  type DigestItem,
+  type DigestItemInput,
+  type DigestSchedule,
+  nextDigestRunAt,
+  validateDigestItemInput,
+} from './digests';
+
+function setup(dispatch: (batch: DigestBatch, items: DigestItem[]) => Promise<void>) {
+  // Tuesday 2024-03-05 12:00 UTC.
+  let clock = Date.UTC(2024, 2, 5, 12);
+  const batches = createMemoryStore<DigestBatch>();
+  const scheduler = createDigestScheduler({
+    items: createMemoryStore<DigestItem>(),
+    schedules: createMemoryStore<DigestSchedule>(),
+    due: createMemoryDueIndex(),
+    batches,
+    locks: createMemoryStore<number>(),
+    dispatch,
+    now: () => clock,
+  });
+  return {
+    scheduler,
+    batches,
+    setClock: (timestamp: number) => {
+      clock = timestamp;
+    },
+  };
+}
+
+function itemInput(id: string, overrides: Partial<DigestItemInput> = {}): DigestItemInput {
+  return {
+    id,
+    userId: 'user-1',
+    to: 'user@example.com',
+    cadence: 'daily',
+    timezone: 'UTC',
+    projectId: 'project-1',
+    projectName: 'Fusion',
+    title: `Update ${id}`,
+    url: `https://app.example.com/updates/${id}`,
+    ...overrides,
+  };
+}
+
+test('nextDigestRunAt picks the next local send hour across time zones and DST', () => {
+  const ny = 'America/New_York';
+  assert.equal(nextDigestRunAt(Date.UTC(2024, 2, 5, 12), 'daily', ny), Date.UTC(2024, 2, 5, 14));
+  assert.equal(nextDigestRunAt(Date.UTC(2024, 2, 5, 14), 'daily', ny), Date.UTC(2024, 2, 6, 14));
+  // Clocks went forward overnight: 09:00 EDT is 13:00 UTC.
+  assert.equal(nextDigestRunAt(Date.UTC(2024, 2, 10, 12), 'daily', ny), Date.UTC(2024, 2, 10, 13));
+  // 08:00 on Tuesday in Tokyo is still Monday in UTC.
+  assert.equal(nextDigestRunAt(Date.UTC(2024, 2, 4, 23), 'daily', 'Asia/Tokyo'), Date.UTC(2024, 2, 5, 0));
+});
+
+test('nextDigestRunAt schedules weekly digests on the configured weekday', () => {
+  assert.equal(nextDigestRunAt(Date.UTC(2024, 2, 5), 'weekly', 'UTC'), Date.UTC(2024, 2, 11, 9));
+  assert.equal(nextDigestRunAt(Date.UTC(2024, 2, 11, 8), 'weekly', 'UTC'), Date.UTC(2024, 2, 11, 9));
+  assert.equal(nextDigestRunAt(Date.UTC(2024, 2, 5), 'weekly', 'UTC', 7, 5), Date.UTC(2024, 2, 8, 7));
+});
+
+test('validateDigestItemInput applies defaults and rejects bad input', () => {
+  const input = validateDigestItemInput({
+    userId: 'user-1',
+    to: 'user@example.com',
+    project: { id: 'project-1', name: 'Fusion' },
+    item: { id: 'update-1', title: 'Results', summary: 'x'.repeat(400), url: 'https://app.example.com/u/1' },
+  });
+  assert.equal(input.cadence, 'weekly');
+  assert.equal(input.timezone, 'UTC');
+  assert.equal(input.summary?.length, 280);
+
+  const valid = { userId: 'user-1', to: 'user@example.com', project: { id: 'p', name: 'P' } };
+  const item = { id: 'i', title: 'T', url: 'https://app.example.com' };
+  assert.throws(() => validateDigestItemInput({ ...valid, item, timezone: 'Mars/Olympus' }), /timezone/);
+  assert.throws(() => validateDigestItemInput({ ...valid, item, cadence: 'hourly' }), /cadence/);
+  assert.throws(() => validateDigestItemInput({ ...valid, item: { ...item, url: 'javascript:alert(1)' } }), /url/);
+  assert.throws(() => validateDigestItemInput({ ...valid, item, userId: 'a b' }), /userId/);
+});
+
+test('digest scheduler sends each batch once and keeps later items for the next period', async () => {
+  const sent: Array<{ id: string; items: string[] }> = [];
+  const { scheduler, setClock } = setup(async (batch, items) => {
+    sent.push({ id: batch.id, items: items.map((item) => item.id) });
+  });
+
+  const first = await scheduler.addItem(itemInput('a'));
+  assert.equal(first.created, true);
+  assert.equal(first.schedule.nextRunAt, Date.UTC(2024, 2, 6, 9));
+  assert.equal((await scheduler.addItem(itemInput('a', { title: 'changed' }))).created, false);
+  await scheduler.addItem(itemInput('b', { projectId: 'project-2' }));
+  await scheduler.addItem(itemInput('c', { userId: 'user-2' }));
+
+  assert.equal(await scheduler.tick(), 0);
+  setClock(Date.UTC(2024, 2, 6, 9));
+  assert.equal(await scheduler.tick(), 2);
+  assert.equal(await scheduler.tick(), 0);
+  assert.deepEqual(
+    sent.map((entry) => entry.items),
+    [['a', 'b'], ['c']],
+  );
+  assert.equal(sent[0].id, `digest:user-1:${Date.UTC(2024, 2, 6, 9)}`);
+
+  await scheduler.addItem(itemInput('d'));
+  assert.equal((await scheduler.getSchedule('user-1'))?.nextRunAt, Date.UTC(2024, 2, 7, 9));
+  setClock(Date.UTC(2024, 2, 7, 9));
+  assert.equal(await scheduler.tick(), 1);
+  assert.deepEqual(sent[2].items, ['d']);
+});
+
+test('digest scheduler resumes a failed batch with the same items', async () => {
+  let failures = 1;
+  const sent: Array<{ id: string; items: string[] }> = [];
+  const { scheduler, batches, setClock } = setup(async (batch, items) => {
+    if (failures > 0) {
+      failures -= 1;
+      throw new Error('store unavailable');
+    }
+    sent.push({ id: batch.id, items: items.map((item) => item.id) });
+  });
+
+  await scheduler.addItem(itemInput('a'));
+  setClock(Date.UTC(2024, 2, 6, 9));
+  assert.equal(await scheduler.tick(), 0);
+  const batchId = `digest:user-1:${Date.UTC(2024, 2, 6, 9)}`;
+  assert.equal((await batches.get(batchId))?.status, 'pending');
+
+  // Arrives after the batch was cut, so it waits for the next digest.
+  await scheduler.addItem(itemInput('b'));
+  setClock(Date.UTC(2024, 2, 6, 9, 1));
+  assert.equal(await scheduler.tick(), 1);
+  assert.deepEqual(sent, [{ id: batchId, items: ['a'] }]);
+  assert.equal((await batches.get(batchId))?.status, 'dispatched');
+  assert.equal((await scheduler.getSchedule('user-1'))?.nextRunAt, Date.UTC(2024, 2, 7, 9));
+
+  setClock(Date.UTC(2024, 2, 7, 9));
+  assert.equal(await scheduler.tick(), 1);
+  assert.deepEqual(sent[1].items, ['b']);
+});
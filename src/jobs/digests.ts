@@ -0,0 +1,393 @@
+import { logger } from '../observability/log';
+import type { DueIndex, KeyValueStore } from '../stores';
+import { createPoller } from './poller';
+
+const DEFAULT_POLL_INTERVAL_MS = 60_000;
+const DEFAULT_BATCH_SIZE = 25;
+const DEFAULT_LOCK_TTL_MS = 5 * 60_000;
+const DEFAULT_SEND_HOUR = 9;
+/** Monday, in `Date#getUTCDay` numbering. */
+const DEFAULT_WEEKLY_DAY = 1;
+const DEFAULT_MAX_ITEMS_PER_DIGEST = 20;
+const BATCH_RETENTION_MS = 30 * 24 * 60 * 60_000;
+const DAY_MS = 24 * 60 * 60_000;
+
+const ID_REGEX = /^[A-Za-z0-9._:-]{1,64}$/;
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_TITLE_LENGTH = 200;
+const MAX_SUMMARY_LENGTH = 280;
+const MAX_URL_LENGTH = 2048;
+
+export type DigestCadence = 'daily' | 'weekly';
+
+const DIGEST_CADENCES = new Set<DigestCadence>(['daily', 'weekly']);
+
+export type DigestItem = {
+  id: string;
+  userId: string;
+  projectId: string;
+  projectName: string;
+  title: string;
+  summary?: string;
+  url: string;
+  createdAt: number;
+};
+
+export type DigestItemInput = Omit<DigestItem, 'createdAt'> & {
+  to: string;
+  cadence: DigestCadence;
+  timezone: string;
+};
+
+/** Where and when a user's digest goes; the latest item submitted for the user wins. */
+export type DigestSchedule = {
+  userId: string;
+  to: string;
+  cadence: DigestCadence;
+  timezone: string;
+  nextRunAt: number;
+  updatedAt: number;
+};
+
+/**
+ * One digest for one user and period. The id is derived from the period, so a tick that
+ * crashed part-way finds the same batch (and the same items) when it runs again.
+ */
+export type DigestBatch = {
+  id: string;
+  userId: string;
+  to: string;
+  cadence: DigestCadence;
+  itemIds: string[];
+  status: 'pending' | 'dispatched';
+  createdAt: number;
+  dispatchedAt?: number;
+};
+
+export type DigestSchedulerOptions = {
+  items: KeyValueStore<DigestItem>;
+  schedules: KeyValueStore<DigestSchedule>;
+  /** User ids by their schedule's `nextRunAt`, so a tick reads only the schedules that are due. */
+  due: DueIndex;
+  batches: KeyValueStore<DigestBatch>;
+  locks: KeyValueStore<number>;
+  /** Hands the digest to the send pipeline. Must be idempotent on `batch.id`; throwing retries on the next tick. */
+  dispatch: (batch: DigestBatch, items: DigestItem[]) => Promise<void>;
+  sendHour?: number;
+  weeklyDay?: number;
+  maxItemsPerDigest?: number;
+  pollIntervalMs?: number;
+  batchSize?: number;
+  now?: () => number;
+};
+
+export type DigestScheduler = {
+  /** Stores an item for the user's next digest; an id the user already submitted is ignored. */
+  addItem(input: DigestItemInput): Promise<{ item: DigestItem; created: boolean; schedule: DigestSchedule }>;
+  getSchedule(userId: string): Promise<DigestSchedule | null>;
+  /** Sends every due digest once and returns how many were dispatched. */
+  tick(): Promise<number>;
+  start(): void;
+  stop(): void;
+};
+
+function readString(source: Record<string, unknown>, field: string, maxLength: number): string {
+  const value = source[field];
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`${field} is required`);
+  if (value.length > maxLength) throw new Error(`${field} must be at most ${maxLength} characters`);
+  return value.trim();
+}
+
+function readId(source: Record<string, unknown>, field: string): string {
+  const value = source[field];
+  if (typeof value !== 'string' || !ID_REGEX.test(value)) {
+    throw new Error(`${field} must be 1-64 characters of letters, digits, '.', '_', ':' or '-'`);
+  }
+  return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Throws with a message for the caller; `cadence` defaults to weekly and `timezone` to UTC. */
+export function validateDigestItemInput(raw: unknown): DigestItemInput {
+  if (!isRecord(raw)) throw new Error('Request body must be an object');
+  const project = raw.project;
+  const item = raw.item;
+  if (!isRecord(project)) throw new Error('project must be an object');
+  if (!isRecord(item)) throw new Error('item must be an object');
+
+  const to = readString(raw, 'to', 320);
+  if (!EMAIL_REGEX.test(to)) throw new Error('to must be a valid email address');
+
+  const cadence = raw.cadence ?? 'weekly';
+  if (!DIGEST_CADENCES.has(cadence as DigestCadence)) throw new Error('cadence must be daily or weekly');
+
+  const timezone = raw.timezone ?? 'UTC';
+  if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+    throw new Error('timezone must be an IANA time zone');
+  }
+
+  const url = readString(item, 'url', MAX_URL_LENGTH);
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    throw new Error('item.url must be a valid URL');
+  }
+  if (parsedUrl.protocol !== 'https:' && parsedUrl.protocol !== 'http:') {
+    throw new Error('item.url must be an http(s) URL');
+  }
+
+  const summary = item.summary;
+  if (summary !== undefined && typeof summary !== 'string') throw new Error('item.summary must be a string');
+
+  return {
+    id: readId(item, 'id'),
+    userId: readId(raw, 'userId'),
+    to,
+    cadence: cadence as DigestCadence,
+    timezone,
+    projectId: readId(project, 'id'),
+    projectName: readString(project, 'name', MAX_TITLE_LENGTH),
+    title: readString(item, 'title', MAX_TITLE_LENGTH),
+    // Long summaries are cut rather than rejected so one chatty item cannot push a digest past the data limit.
+    summary: summary?.trim() ? summary.trim().slice(0, MAX_SUMMARY_LENGTH) : undefined,
+    url,
+  };
+}
+
+type LocalTime = { year: number; month: number; day: number; hour: number; minute: number; second: number };
+
+function localTime(timestamp: number, timezone: string): LocalTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(timestamp));
+  const read = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  return {
+    year: read('year'),
+    month: read('month'),
+    day: read('day'),
+    hour: read('hour'),
+    minute: read('minute'),
+    second: read('second'),
+  };
+}
+
+function offsetMs(timestamp: number, timezone: string): number {
+  const local = localTime(timestamp, timezone);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/** UTC timestamp of a wall-clock time in `timezone`; times skipped by a DST jump land just after it. */
+function zonedTimeToUtc(year: number, month: number, day: number, hour: number, timezone: string): number {
+  const wallClock = Date.UTC(year, month - 1, day, hour);
+  const guess = wallClock - offsetMs(wallClock, timezone);
+  return wallClock - offsetMs(guess, timezone);
+}
+
+/**
+ * First digest slot strictly after `after`: `sendHour` local time every day, or on
+ * `weeklyDay` for weekly digests.
+ */
+export function nextDigestRunAt(
+  after: number,
+  cadence: DigestCadence,
+  timezone: string,
+  sendHour = DEFAULT_SEND_HOUR,
+  weeklyDay = DEFAULT_WEEKLY_DAY,
+): number {
+  const local = localTime(after, timezone);
+  // Walk calendar days in UTC so month and year rollover come for free.
+  const start = Date.UTC(local.year, local.month - 1, local.day);
+  for (let offset = 0; offset <= 8; offset += 1) {
+    const date = new Date(start + offset * DAY_MS);
+    if (cadence === 'weekly' && date.getUTCDay() !== weeklyDay) continue;
+    const candidate = zonedTimeToUtc(
+      date.getUTCFullYear(),
+      date.getUTCMonth() + 1,
+      date.getUTCDate(),
+      sendHour,
+      timezone,
+    );
+    if (candidate > after) return candidate;
+  }
+  throw new Error(`No digest slot found after ${new Date(after).toISOString()} in ${timezone}`);
+}
+
+function itemKey(userId: string, itemId: string): string {
+  return `${userId}:${itemId}`;
+}
+
+export function createDigestScheduler(options: DigestSchedulerOptions): DigestScheduler {
+  const {
+    items,
+    schedules,
+    due,
+    batches,
+    locks,
+    dispatch,
+    sendHour = DEFAULT_SEND_HOUR,
+    weeklyDay = DEFAULT_WEEKLY_DAY,
+    maxItemsPerDigest = DEFAULT_MAX_ITEMS_PER_DIGEST,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    batchSize = DEFAULT_BATCH_SIZE,
+    now = Date.now,
+  } = options;
+
+  const nextRunAfter = (timestamp: number, cadence: DigestCadence, timezone: string) =>
+    nextDigestRunAt(timestamp, cadence, timezone, sendHour, weeklyDay);
+
+  // The index may be early, which the tick corrects, but never late: it moves earlier before the
+  // schedule is written and later only after.
+  const saveSchedule = async (schedule: DigestSchedule, previousRunAt?: number) => {
+    const earlier = previousRunAt === undefined || schedule.nextRunAt <= previousRunAt;
+    if (earlier) await due.schedule(schedule.userId, schedule.nextRunAt);
+    await schedules.set(schedule.userId, schedule);
+    if (!earlier) await due.schedule(schedule.userId, schedule.nextRunAt);
+  };
+
+  const advance = async (schedule: DigestSchedule, current: number) => {
+    // Re-read so a recipient or cadence change made while the digest was going out is kept.
+    const latest = (await schedules.get(schedule.userId)) ?? schedule;
+    await saveSchedule(
+      {
+        ...latest,
+        nextRunAt: nextRunAfter(Math.max(current, schedule.nextRunAt), latest.cadence, latest.timezone),
+        updatedAt: current,
+      },
+      latest.nextRunAt,
+    );
+  };
+
+  const runSchedule = async (schedule: DigestSchedule, pending: DigestItem[], current: number) => {
+    const batchId = `digest:${schedule.userId}:${schedule.nextRunAt}`;
+    let batch = await batches.get(batchId);
+    if (!batch) {
+      if (pending.length === 0) {
+        await advance(schedule, current);
+        return false;
+      }
+      // Anything past the cap stays queued for the next period.
+      const selected = [...pending].sort((a, b) => a.createdAt - b.createdAt).slice(0, maxItemsPerDigest);
+      const candidate: DigestBatch = {
+        id: batchId,
+        userId: schedule.userId,
+        to: schedule.to,
+        cadence: schedule.cadence,
+        itemIds: selected.map((item) => item.id),
+        status: 'pending',
+        createdAt: current,
+      };
+      await batches.setIfAbsent(batchId, candidate, { ttlMs: BATCH_RETENTION_MS });
+      batch = (await batches.get(batchId)) ?? candidate;
+    }
+
+    let dispatched = false;
+    if (batch.status === 'pending') {
+      const { userId } = batch;
+      const batchItems = (await Promise.all(batch.itemIds.map((id) => items.get(itemKey(userId, id)))))
+        .filter((item): item is DigestItem => item !== null);
+      await dispatch(batch, batchItems);
+      batch = { ...batch, status: 'dispatched', dispatchedAt: now() };
+      await batches.set(batchId, batch, { ttlMs: BATCH_RETENTION_MS });
+      dispatched = true;
+    }
+
+    for (const id of batch.itemIds) {
+      await items.delete(itemKey(batch.userId, id));
+    }
+    await advance(schedule, current);
+    return dispatched;
+  };
+
+  const tick = async (): Promise<number> => {
+    const current = now();
+    const dueUserIds = await due.due(current, batchSize);
+    if (dueUserIds.length === 0) return 0;
+
+    // Items are deleted once dispatched, so this reads only what is still waiting for a digest.
+    const pending = (await items.entries()).map(([, item]) => item);
+    let dispatched = 0;
+    for (const userId of dueUserIds) {
+      const claimed = await locks.setIfAbsent(userId, current, { ttlMs: DEFAULT_LOCK_TTL_MS });
+      if (!claimed) continue;
+      try {
+        const fresh = await schedules.get(userId);
+        if (!fresh) {
+          await due.remove(userId);
+          continue;
+        }
+        if (fresh.nextRunAt > current) {
+          await due.schedule(userId, fresh.nextRunAt);
+          continue;
+        }
+        const userItems = pending.filter((item) => item.userId === fresh.userId);
+        if (await runSchedule(fresh, userItems, current)) dispatched += 1;
+      } catch (error) {
+        logger.error('Digest failed; retrying next tick', { userId, error });
+      } finally {
+        await locks.delete(userId);
+      }
+    }
+    return dispatched;
+  };
+
+  const poller = createPoller('Digest scheduler', tick, pollIntervalMs);
+
+  return {
+    async addItem(input: DigestItemInput) {
+      const { to, cadence, timezone, ...fields } = input;
+      const timestamp = now();
+      const item: DigestItem = { ...fields, createdAt: timestamp };
+      const created = await items.setIfAbsent(itemKey(item.userId, item.id), item);
+
+      const existing = await schedules.get(item.userId);
+      let schedule: DigestSchedule;
+      if (!existing) {
+        schedule = { userId: item.userId, to, cadence, timezone, nextRunAt: 0, updatedAt: timestamp };
+        schedule.nextRunAt = nextRunAfter(timestamp, cadence, timezone);
+        await saveSchedule(schedule);
+      } else if (existing.to !== to || existing.cadence !== cadence || existing.timezone !== timezone) {
+        const rescheduled = existing.cadence !== cadence || existing.timezone !== timezone;
+        schedule = {
+          ...existing,
+          to,
+          cadence,
+          timezone,
+          nextRunAt: rescheduled ? nextRunAfter(timestamp, cadence, timezone) : existing.nextRunAt,
+          updatedAt: timestamp,
+        };
+        await saveSchedule(schedule, existing.nextRunAt);
+      } else {
+        schedule = existing;
+      }
+
+      return { item: created ? item : ((await items.get(itemKey(item.userId, item.id))) ?? item), created, schedule };
+    },
+    getSchedule(userId: string) {
+      return schedules.get(userId);
+    },
+    tick,
+    start: poller.start,
+    stop: poller.stop,
+  };
+}
@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createMemoryStore } from '../stores';
+import { createApiOutbox, type OutboxEntry } from './outbox';
+
+type Call = { url: string; body: Record<string, unknown>; secret: string | null; traceparent: string | null };
+
+function setup(statuses: Array<number | Error>) {
+  let clock = 1_700_000_000_000;
+  const entries = createMemoryStore<OutboxEntry>();
+  const calls: Call[] = [];
+  const fetchImpl = (async (url: string, init: RequestInit) => {
+    calls.push({
+      url,
+      body: JSON.parse(String(init.body)) as Record<string, unknown>,
+      secret: new Headers(init.headers).get('x-communications-secret'),
+      traceparent: new Headers(init.headers).get('traceparent'),
+    });
+    const next = statuses.shift() ?? 200;
+    if (next instanceof Error) throw next;
+    return new Response(null, { status: next });
+  }) as typeof fetch;
+  const outbox = createApiOutbox({
+    entries,
+    finished: createMemoryStore<OutboxEntry>(),
+    locks: createMemoryStore<number>(),
+    baseUrl: 'https://api.example.com/',
+    secret: 'api-secret',
+    fetchImpl,
+    maxAttempts: 3,
+    baseBackoffMs: 1000,
+    now: () => clock,
+  });
+  return {
+    outbox,
+    entries,
+    calls,
+    advance: (ms: number) => {
+      clock += ms;
+    },
+  };
+}
+
+test('outbox delivers persisted payloads with the API secret', async () => {
+  const { outbox, entries, calls } = setup([]);
+  await outbox.enqueue('/communications/messages', { requestId: 'req-1', status: 'sent' }, 'request:req-1');
+  assert.equal(calls.length, 0, 'enqueue only persists');
+
+  assert.equal(await outbox.tick(), 1);
+  assert.deepEqual(calls, [
+    {
+      url: 'https://api.example.com/communications/messages',
+      body: { requestId: 'req-1', status: 'sent' },
+      secret: 'api-secret',
+      traceparent: null,
+    },
+  ]);
+  assert.equal((await outbox.list({ status: 'delivered' })).length, 1);
+  assert.deepEqual(await entries.entries(), [], 'a tick only reads pending entries');
+  assert.equal(await outbox.tick(), 0);
+});
+
+test('outbox sends a traceparent under the entry trace on every attempt', async () => {
+  const { outbox, calls, advance } = setup([503]);
+  const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+  await outbox.enqueue('/communications/messages', { requestId: 'req-1', status: 'sent' }, 'request:req-1', traceId);
+  await outbox.tick();
+  advance(1000);
+  await outbox.tick();
+
+  assert.equal(calls.length, 2);
+  const [first, second] = calls.map((call) => call.traceparent?.split('-'));
+  assert.deepEqual([first?.[0], first?.[1], first?.[3]], ['00', traceId, '01']);
+  assert.equal(second?.[1], traceId);
+  assert.notEqual(first?.[2], second?.[2], 'each attempt is its own span');
+});
+
+test('outbox holds later updates for a message behind a failing one', async () => {
+  const { outbox, calls, advance } = setup([503, new Error('socket hang up')]);
+  await outbox.enqueue('/communications/messages', { status: 'sent' }, 'request:req-1');
+  await outbox.enqueue('/communications/events', { status: 'delivered' }, 'request:req-1');
+  await outbox.enqueue('/communications/events', { status: 'bounced' }, 'request:req-2');
+
+  await outbox.tick();
+  assert.deepEqual(
+    calls.map((call) => call.body.status),
+    ['sent', 'bounced'],
+  );
+  const [head] = await outbox.list({ status: 'pending' });
+  assert.equal(head.lastError, 'API responded 503');
+
+  assert.equal(await outbox.tick(), 0, 'nothing is due before the backoff elapses');
+  advance(1000);
+  await outbox.tick();
+  assert.deepEqual(
+    calls.map((call) => call.body.status),
+    ['sent', 'bounced', 'sent', 'delivered', 'bounced'],
+  );
+});
+
+test('outbox dead-letters rejected payloads and replays a time range', async () => {
+  const { outbox, calls, advance } = setup([422]);
+  await outbox.enqueue('/communications/events', { status: 'delivered' });
+  advance(60_000);
+  await outbox.enqueue('/communications/events', { status: 'complaint' });
+
+  await outbox.tick();
+  const dead = await outbox.list({ status: 'dead' });
+  assert.deepEqual(
+    dead.map((entry) => [entry.payload.status, entry.attempts, entry.lastError]),
+    [['delivered', 1, 'API responded 422']],
+  );
+
+  const replayed = await outbox.replay({ from: dead[0].createdAt, to: dead[0].createdAt + 60_000 });
+  assert.equal(replayed, 2);
+  assert.equal(await outbox.tick(), 2);
+  assert.equal((await outbox.list({ status: 'delivered' })).length, 2);
+  assert.equal(calls.length, 4);
+});
@@ -0,0 +1,291 @@
+import crypto from 'node:crypto';
+
+import { logger } from '../observability/log';
+import { apiForwardFailuresTotal } from '../observability/metrics';
+import { createTraceparent, TRACEPARENT_HEADER } from '../observability/trace';
+import type { KeyValueStore } from '../stores';
+import { createPoller } from './poller';
+import { computeBackoffMs } from './send-queue';
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_BATCH_SIZE = 50;
+const DEFAULT_MAX_ATTEMPTS = 12;
+const DEFAULT_BASE_BACKOFF_MS = 5000;
+const DEFAULT_MAX_BACKOFF_MS = 30 * 60_000;
+const DEFAULT_LOCK_TTL_MS = 60_000;
+/** Delivered entries are kept this long so an incident window can be replayed. */
+const DEFAULT_RETENTION_MS = 3 * 24 * 60 * 60_000;
+const DEAD_RETENTION_MS = 30 * 24 * 60 * 60_000;
+const REQUEST_TIMEOUT_MS = 5000;
+
+export type OutboxStatus = 'pending' | 'delivered' | 'dead';
+
+export type OutboxEntry = {
+  /** Sorts in creation order, which is the delivery order within an ordering key. */
+  id: string;
+  path: string;
+  payload: Record<string, unknown>;
+  /** Entries sharing a key (one message) are delivered strictly one after another. */
+  orderingKey: string;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  updatedAt: number;
+  lastError?: string;
+  /** Trace the payload belongs to; each delivery attempt sends a `traceparent` under it. */
+  traceId?: string;
+};
+
+export type OutboxFilter = {
+  status?: OutboxStatus;
+  /** Inclusive `createdAt` bounds. */
+  from?: number;
+  to?: number;
+};
+
+export type ApiOutboxOptions = {
+  /** Pending entries only, so a tick reads the work left to do and not everything retained. */
+  entries: KeyValueStore<OutboxEntry>;
+  /** Delivered and dead entries, kept for `list` and `replay`. */
+  finished: KeyValueStore<OutboxEntry>;
+  locks: KeyValueStore<number>;
+  baseUrl: string;
+  secret: string;
+  fetchImpl?: typeof fetch;
+  pollIntervalMs?: number;
+  batchSize?: number;
+  maxAttempts?: number;
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+  retentionMs?: number;
+  now?: () => number;
+};
+
+export type ApiOutbox = {
+  /** Persists a payload for delivery; resolves once it is stored, not once it is sent. Without a key it is unordered. */
+  enqueue(path: string, payload: Record<string, unknown>, orderingKey?: string, traceId?: string): Promise<OutboxEntry>;
+  /** Oldest first. */
+  list(filter?: OutboxFilter): Promise<OutboxEntry[]>;
+  /** Sends delivered or dead entries in the range again; returns how many were requeued. */
+  replay(filter: OutboxFilter): Promise<number>;
+  /** Delivers due entries once and returns how many were attempted. */
+  tick(): Promise<number>;
+  start(): void;
+  stop(): void;
+};
+
+class OutboxDeliveryError extends Error {
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = 'OutboxDeliveryError';
+    this.retryable = retryable;
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function joinUrl(base: string, pathSuffix: string): string {
+  const trimmedBase = base.replace(/\/+$/, '');
+  const trimmedPath = pathSuffix.startsWith('/') ? pathSuffix : `/${pathSuffix}`;
+  return `${trimmedBase}${trimmedPath}`;
+}
+
+function matches(entry: OutboxEntry, filter: OutboxFilter): boolean {
+  if (filter.status && entry.status !== filter.status) return false;
+  if (filter.from !== undefined && entry.createdAt < filter.from) return false;
+  if (filter.to !== undefined && entry.createdAt > filter.to) return false;
+  return true;
+}
+
+function logFields(entry: OutboxEntry) {
+  const requestId = entry.payload.requestId;
+  return {
+    outboxId: entry.id,
+    path: entry.path,
+    requestId: typeof requestId === 'string' ? requestId : undefined,
+    traceId: entry.traceId,
+  };
+}
+
+export function createApiOutbox(options: ApiOutboxOptions): ApiOutbox {
+  const {
+    entries,
+    finished,
+    locks,
+    baseUrl,
+    secret,
+    fetchImpl = fetch,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    batchSize = DEFAULT_BATCH_SIZE,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseBackoffMs = DEFAULT_BASE_BACKOFF_MS,
+    maxBackoffMs = DEFAULT_MAX_BACKOFF_MS,
+    retentionMs = DEFAULT_RETENTION_MS,
+    now = Date.now,
+  } = options;
+
+  let sequence = 0;
+  const nextId = (timestamp: number) => {
+    sequence = (sequence + 1) % 1_000_000;
+    const suffix = crypto.randomBytes(4).toString('hex');
+    return `${String(timestamp).padStart(15, '0')}-${String(sequence).padStart(6, '0')}-${suffix}`;
+  };
+
+  const post = async (entry: OutboxEntry) => {
+    let response: Response;
+    try {
+      response = await fetchImpl(joinUrl(baseUrl, entry.path), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-communications-secret': secret,
+          ...(entry.traceId ? { [TRACEPARENT_HEADER]: createTraceparent(entry.traceId) } : {}),
+        },
+        body: JSON.stringify(entry.payload),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new OutboxDeliveryError(message, true);
+    }
+    if (!response.ok) {
+      throw new OutboxDeliveryError(`API responded ${response.status}`, isRetryableStatus(response.status));
+    }
+  };
+
+  // Written to `finished` before leaving `entries`: a crash in between delivers the entry again rather than losing it.
+  const finish = async (entry: OutboxEntry, ttlMs: number) => {
+    await finished.set(entry.id, entry, { ttlMs });
+    await entries.delete(entry.id);
+  };
+
+  const processEntry = async (entry: OutboxEntry) => {
+    const attempts = entry.attempts + 1;
+    try {
+      await post(entry);
+      await finish({ ...entry, status: 'delivered', attempts, updatedAt: now(), lastError: undefined }, retentionMs);
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryable = error instanceof OutboxDeliveryError && error.retryable;
+      if (!retryable || attempts >= maxAttempts) {
+        await finish({ ...entry, status: 'dead', attempts, updatedAt: now(), lastError: message }, DEAD_RETENTION_MS);
+        apiForwardFailuresTotal.inc({ path: entry.path, outcome: 'dead' });
+        logger.error('Outbox entry moved to dead letter', { ...logFields(entry), attempts, error: message });
+        return true;
+      }
+      await entries.set(entry.id, {
+        ...entry,
+        attempts,
+        updatedAt: now(),
+        nextAttemptAt: now() + computeBackoffMs(attempts, baseBackoffMs, maxBackoffMs),
+        lastError: message,
+      });
+      apiForwardFailuresTotal.inc({ path: entry.path, outcome: 'retry' });
+      logger.warn('Outbox entry attempt failed; retrying', { ...logFields(entry), attempts, error: message });
+      return false;
+    }
+  };
+
+  // Works through one message's entries oldest-first, stopping at the first that has to wait.
+  const drain = async (queued: OutboxEntry[], current: number) => {
+    let attempted = 0;
+    for (const { id } of queued) {
+      const entry = await entries.get(id);
+      if (!entry || entry.status !== 'pending') continue;
+      if (entry.nextAttemptAt > current) break;
+      attempted += 1;
+      if (!(await processEntry(entry))) break;
+    }
+    return attempted;
+  };
+
+  const tick = async (): Promise<number> => {
+    const current = now();
+    const byKey = new Map<string, OutboxEntry[]>();
+    const pending = (await entries.entries())
+      .map(([, entry]) => entry)
+      .filter((entry) => entry.status === 'pending')
+      .sort((a, b) => a.id.localeCompare(b.id));
+    for (const entry of pending) {
+      const queued = byKey.get(entry.orderingKey);
+      if (queued) queued.push(entry);
+      else byKey.set(entry.orderingKey, [entry]);
+    }
+    const due = [...byKey.values()]
+      .filter(([head]) => head.nextAttemptAt <= current)
+      .sort(([a], [b]) => a.nextAttemptAt - b.nextAttemptAt)
+      .slice(0, batchSize);
+
+    let attempted = 0;
+    for (const queued of due) {
+      const { orderingKey } = queued[0];
+      // Locking the key rather than the entry keeps a second worker from overtaking within a message.
+      const claimed = await locks.setIfAbsent(orderingKey, current, { ttlMs: DEFAULT_LOCK_TTL_MS });
+      if (!claimed) continue;
+      try {
+        attempted += await drain(queued, current);
+      } finally {
+        await locks.delete(orderingKey);
+      }
+    }
+    return attempted;
+  };
+
+  const poller = createPoller('API outbox', tick, pollIntervalMs);
+
+  return {
+    async enqueue(path: string, payload: Record<string, unknown>, orderingKey?: string, traceId?: string) {
+      const timestamp = now();
+      const id = nextId(timestamp);
+      const entry: OutboxEntry = {
+        id,
+        path,
+        payload,
+        orderingKey: orderingKey ?? id,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: timestamp,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        traceId,
+      };
+      await entries.set(entry.id, entry);
+      return entry;
+    },
+    async list(filter: OutboxFilter = {}) {
+      // An entry in both stores is still pending: it was finished but not yet removed from `entries`.
+      const byId = new Map((await finished.entries()).concat(await entries.entries()));
+      return [...byId.values()]
+        .filter((entry) => matches(entry, filter))
+        .sort((a, b) => a.id.localeCompare(b.id));
+    },
+    async replay(filter: OutboxFilter) {
+      const timestamp = now();
+      const selected = (await finished.entries())
+        .map(([, entry]) => entry)
+        .filter((entry) => entry.status !== 'pending' && matches(entry, filter));
+      for (const entry of selected) {
+        // Keeping the id keeps the entry's place in its message's order.
+        await entries.set(entry.id, {
+          ...entry,
+          status: 'pending',
+          attempts: 0,
+          nextAttemptAt: timestamp,
+          updatedAt: timestamp,
+          lastError: undefined,
+        });
+        await finished.delete(entry.id);
+      }
+      return selected.length;
+    },
+    tick,
+    start: poller.start,
+    stop: poller.stop,
+  };
+}
@@ -0,0 +1,38 @@
+import { logger } from '../observability/log';
+
+export type Poller = {
+  start(): void;
+  stop(): void;
+};
+
+/**
+ * Runs `tick` every `intervalMs`, skipping a beat while the previous tick is still
+ * running. The timer is unref'd so an idle poller never keeps the process alive.
+ */
+export function createPoller(name: string, tick: () => Promise<unknown>, intervalMs: number): Poller {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  return {
+    start() {
+      if (timer) return;
+      timer = setInterval(() => {
+        if (running) return;
+        running = true;
+        tick()
+          .catch((error) => {
+            logger.error('Poller tick failed', { poller: name, error });
+          })
+          .finally(() => {
+            running = false;
+          });
+      }, intervalMs);
+      timer.unref();
+    },
+    stop() {
+      if (!timer) return;
+      clearInterval(timer);
+      timer = null;
+    },
+  };
+}
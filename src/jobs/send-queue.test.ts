@@ -0,0 +1,214 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { ProviderError, type ProviderSendResult } from '../providers';
+import { createMemoryDueIndex, createMemoryStore } from '../stores';
+import { computeBackoffMs, createSendQueue, PermanentSendError, type SendJob } from './send-queue';
+
+type Payload = { to: string };
+
+function setup(deliver: (job: SendJob<Payload>) => Promise<ProviderSendResult>) {
+  let clock = 1_700_000_000_000;
+  const deadLetters: string[] = [];
+  const sent: string[] = [];
+  const queue = createSendQueue<Payload>({
+    jobs: createMemoryStore<SendJob<Payload>>(),
+    due: createMemoryDueIndex(),
+    locks: createMemoryStore<number>(),
+    deliver,
+    onSent: (job) => {
+      sent.push(job.id);
+    },
+    onDeadLetter: (job) => {
+      deadLetters.push(job.id);
+    },
+    maxAttempts: 3,
+    baseBackoffMs: 1000,
+    now: () => clock,
+  });
+  return {
+    queue,
+    sent,
+    deadLetters,
+    advance: (ms: number) => {
+      clock += ms;
+    },
+  };
+}
+
+test('computeBackoffMs doubles per attempt and caps at the maximum', () => {
+  assert.equal(computeBackoffMs(1, 1000, 60_000), 1000);
+  assert.equal(computeBackoffMs(3, 1000, 60_000), 4000);
+  assert.equal(computeBackoffMs(10, 1000, 60_000), 60_000);
+});
+
+test('send queue delivers a queued job once', async () => {
+  const { queue, sent } = setup(async () => ({ provider: 'resend', messageId: 'msg-1' }));
+  await queue.enqueue('job-1', { to: 'user@example.com' });
+  await queue.enqueue('job-1', { to: 'other@example.com' });
+
+  assert.equal(await queue.tick(), 1);
+  assert.equal(await queue.tick(), 0);
+  const job = await queue.get('job-1');
+  assert.equal(job?.status, 'sent');
+  assert.equal(job?.messageId, 'msg-1');
+  assert.equal(job?.payload.to, 'user@example.com');
+  assert.deepEqual(sent, ['job-1']);
+});
+
+test('send queue does not resend when bookkeeping after a send fails', async () => {
+  let calls = 0;
+  const queue = createSendQueue<Payload>({
+    jobs: createMemoryStore<SendJob<Payload>>(),
+    due: createMemoryDueIndex(),
+    locks: createMemoryStore<number>(),
+    deliver: async () => {
+      calls += 1;
+      return { provider: 'resend', messageId: 'msg-1' };
+    },
+    onSent: async () => {
+      throw new Error('ledger unavailable');
+    },
+  });
+  await queue.enqueue('job-1', { to: 'user@example.com' });
+  await queue.tick();
+  await queue.tick();
+  assert.equal(calls, 1);
+  assert.equal((await queue.get('job-1'))?.status, 'sent');
+});
+
+test('send queue retries retryable failures with backoff', async () => {
+  let calls = 0;
+  const { queue, advance } = setup(async () => {
+    calls += 1;
+    if (calls === 1) throw new ProviderError('resend', 'rate limited', { retryable: true });
+    return { provider: 'resend', messageId: 'msg-2' };
+  });
+  await queue.enqueue('job-2', { to: 'user@example.com' });
+
+  await queue.tick();
+  let job = await queue.get('job-2');
+  assert.equal(job?.status, 'queued');
+  assert.equal(job?.attempts, 1);
+  assert.equal(job?.lastError, 'rate limited');
+
+  assert.equal(await queue.tick(), 0, 'job is not due before its backoff elapses');
+  advance(1000);
+  assert.equal(await queue.tick(), 1);
+  job = await queue.get('job-2');
+  assert.equal(job?.status, 'sent');
+  assert.equal(job?.attempts, 2);
+});
+
+test('send queue dead-letters after max attempts', async () => {
+  const { queue, deadLetters, advance } = setup(async () => {
+    throw new ProviderError('resend', 'still down', { retryable: true });
+  });
+  await queue.enqueue('job-3', { to: 'user@example.com' });
+  for (let i = 0; i < 3; i += 1) {
+    await queue.tick();
+    advance(60_000);
+  }
+  const job = await queue.get('job-3');
+  assert.equal(job?.status, 'dead');
+  assert.equal(job?.attempts, 3);
+  assert.deepEqual(deadLetters, ['job-3']);
+});
+
+test('send queue dead-letters permanent failures immediately', async () => {
+  const { queue, deadLetters } = setup(async () => {
+    throw new ProviderError('resend', 'invalid from address', { retryable: false });
+  });
+  await queue.enqueue('job-4', { to: 'user@example.com' });
+  await queue.tick();
+  assert.equal((await queue.get('job-4'))?.status, 'dead');
+  assert.deepEqual(deadLetters, ['job-4']);
+});
+
+test('send queue retries infrastructure errors but dead-letters failures that would repeat', async () => {
+  let calls = 0;
+  const { queue, deadLetters, advance } = setup(async (job) => {
+    calls += 1;
+    if (job.id === 'job-render') throw new PermanentSendError('Missing required data: Name');
+    if (calls === 1) throw new Error('store unavailable');
+    return { provider: 'resend', messageId: 'msg-8' };
+  });
+  await queue.enqueue('job-store', { to: 'user@example.com' });
+  await queue.tick();
+  assert.equal((await queue.get('job-store'))?.status, 'queued');
+  advance(1000);
+  await queue.tick();
+  assert.equal((await queue.get('job-store'))?.status, 'sent');
+
+  await queue.enqueue('job-render', { to: 'user@example.com' });
+  await queue.tick();
+  assert.equal((await queue.get('job-render'))?.status, 'dead');
+  assert.deepEqual(deadLetters, ['job-render']);
+});
+
+test('send queue holds scheduled jobs until notBefore', async () => {
+  const { queue, sent, advance } = setup(async () => ({ provider: 'resend', messageId: 'msg-5' }));
+  const job = await queue.enqueue('job-5', { to: 'user@example.com' }, { notBefore: 1_700_000_060_000 });
+  assert.equal(job.nextAttemptAt, 1_700_000_060_000);
+
+  assert.equal(await queue.tick(), 0);
+  advance(60_000);
+  assert.equal(await queue.tick(), 1);
+  assert.deepEqual(sent, ['job-5']);
+});
+
+test('send queue cancels queued jobs but not finished or in-flight ones', async () => {
+  let release: () => void = () => {};
+  const { queue, sent } = setup(
+    () =>
+      new Promise((resolve) => {
+        release = () => resolve({ provider: 'resend', messageId: 'msg-6' });
+      }),
+  );
+  await queue.enqueue('job-6', { to: 'user@example.com' }, { notBefore: 1_700_000_060_000 });
+  const outcome = await queue.cancel('job-6');
+  assert.equal(outcome.kind, 'canceled');
+  assert.equal((await queue.get('job-6'))?.status, 'canceled');
+  assert.equal(await queue.tick(), 0);
+  assert.equal((await queue.cancel('job-6')).kind, 'not_pending');
+  assert.equal((await queue.cancel('missing')).kind, 'not_found');
+
+  await queue.enqueue('job-7', { to: 'user@example.com' });
+  const ticking = queue.tick();
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal((await queue.cancel('job-7')).kind, 'in_progress');
+  release();
+  await ticking;
+  assert.deepEqual(sent, ['job-7']);
+});
+
+test('send queue finds work through the due index without reading finished jobs', async () => {
+  let clock = 1_700_000_000_000;
+  const jobs = createMemoryStore<SendJob<Payload>>();
+  jobs.entries = async () => {
+    throw new Error('tick must not read every job');
+  };
+  let calls = 0;
+  const queue = createSendQueue<Payload>({
+    jobs,
+    due: createMemoryDueIndex(),
+    locks: createMemoryStore<number>(),
+    deliver: async () => {
+      calls += 1;
+      if (calls === 1) throw new ProviderError('resend', 'rate limited', { retryable: true });
+      return { provider: 'resend', messageId: 'msg-9' };
+    },
+    baseBackoffMs: 1000,
+    now: () => clock,
+  });
+  await queue.enqueue('job-9', { to: 'user@example.com' });
+  assert.equal(await queue.tick(), 1);
+
+  // Enqueuing the id again moves its index entry to now; the job still waits out its backoff.
+  await queue.enqueue('job-9', { to: 'user@example.com' });
+  assert.equal(await queue.tick(), 0);
+  clock += 1000;
+  assert.equal(await queue.tick(), 1);
+  assert.equal((await queue.get('job-9'))?.status, 'sent');
+  assert.equal(await queue.tick(), 0);
+});
@@ -0,0 +1,235 @@
+import { type LogContext, logger, withLogContext } from '../observability/log';
+import { ProviderError, type ProviderSendResult } from '../providers';
+import type { DueIndex, KeyValueStore } from '../stores';
+import { createPoller } from './poller';
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_BASE_BACKOFF_MS = 5000;
+const DEFAULT_MAX_BACKOFF_MS = 15 * 60_000;
+const DEFAULT_LOCK_TTL_MS = 5 * 60_000;
+const SENT_RETENTION_MS = 24 * 60 * 60_000;
+// Long enough to inspect and resend by hand.
+const DEAD_RETENTION_MS = 30 * 24 * 60 * 60_000;
+
+export type SendJobStatus = 'queued' | 'sent' | 'dead' | 'canceled';
+
+export type SendJob<P> = {
+  id: string;
+  payload: P;
+  status: SendJobStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  updatedAt: number;
+  lastError?: string;
+  provider?: string;
+  messageId?: string;
+};
+
+export type SendQueueOptions<P> = {
+  jobs: KeyValueStore<SendJob<P>>;
+  /** Queued job ids by `nextAttemptAt`; finished jobs are kept in `jobs` but never read by `tick`. */
+  due: DueIndex;
+  locks: KeyValueStore<number>;
+  deliver: (job: SendJob<P>) => Promise<ProviderSendResult>;
+  onSent?: (job: SendJob<P>, result: ProviderSendResult) => Promise<void> | void;
+  onDeadLetter?: (job: SendJob<P>, error: unknown) => Promise<void> | void;
+  isRetryable?: (error: unknown) => boolean;
+  /** Correlation fields for everything logged while the job is processed; defaults to its id. */
+  logContext?: (job: SendJob<P>) => LogContext;
+  pollIntervalMs?: number;
+  batchSize?: number;
+  maxAttempts?: number;
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+  now?: () => number;
+};
+
+export type EnqueueOptions = {
+  /** Earliest time the job may be delivered; defaults to now. */
+  notBefore?: number;
+};
+
+export type CancelOutcome<P> =
+  | { kind: 'canceled'; job: SendJob<P> }
+  | { kind: 'not_found' }
+  | { kind: 'in_progress' }
+  | { kind: 'not_pending'; job: SendJob<P> };
+
+export type SendQueue<P> = {
+  /** Persists a job; an id that is already queued returns the existing job unchanged. */
+  enqueue(id: string, payload: P, options?: EnqueueOptions): Promise<SendJob<P>>;
+  get(id: string): Promise<SendJob<P> | null>;
+  /** Stops a queued job from being delivered; a job that is mid-delivery or finished cannot be canceled. */
+  cancel(id: string): Promise<CancelOutcome<P>>;
+  /** Processes due jobs once and returns how many were attempted. */
+  tick(): Promise<number>;
+  start(): void;
+  stop(): void;
+};
+
+/**
+ * A delivery failure every later attempt would repeat, e.g. a template that does not render or data
+ * it rejects. It is dead-lettered at once, like a permanent provider error.
+ */
+export class PermanentSendError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'PermanentSendError';
+  }
+}
+
+// Anything else, such as a store outage while checking suppressions, may pass on a later attempt.
+function defaultIsRetryable(error: unknown): boolean {
+  if (error instanceof ProviderError) return error.retryable;
+  return !(error instanceof PermanentSendError);
+}
+
+export function computeBackoffMs(attempts: number, baseMs: number, maxMs: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(maxMs, baseMs * 2 ** exponent);
+}
+
+export function createSendQueue<P>(options: SendQueueOptions<P>): SendQueue<P> {
+  const {
+    jobs,
+    due,
+    locks,
+    deliver,
+    onSent,
+    onDeadLetter,
+    isRetryable = defaultIsRetryable,
+    logContext = (job) => ({ requestId: job.id }),
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    batchSize = DEFAULT_BATCH_SIZE,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseBackoffMs = DEFAULT_BASE_BACKOFF_MS,
+    maxBackoffMs = DEFAULT_MAX_BACKOFF_MS,
+    now = Date.now,
+  } = options;
+
+  const processJob = async (job: SendJob<P>) => {
+    const attempts = job.attempts + 1;
+    let result: ProviderSendResult;
+    try {
+      result = await deliver(job);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = attempts >= maxAttempts;
+      if (!isRetryable(error) || exhausted) {
+        const dead: SendJob<P> = { ...job, status: 'dead', attempts, updatedAt: now(), lastError: message };
+        await jobs.set(job.id, dead, { ttlMs: DEAD_RETENTION_MS });
+        await due.remove(job.id);
+        logger.error('Send job moved to dead letter', { attempts, error: message });
+        await onDeadLetter?.(dead, error);
+        return;
+      }
+      const retry: SendJob<P> = {
+        ...job,
+        attempts,
+        updatedAt: now(),
+        nextAttemptAt: now() + computeBackoffMs(attempts, baseBackoffMs, maxBackoffMs),
+        lastError: message,
+      };
+      await jobs.set(job.id, retry);
+      await due.schedule(job.id, retry.nextAttemptAt);
+      logger.warn('Send job attempt failed; retrying', { attempts, error: message });
+      return;
+    }
+
+    const sent: SendJob<P> = {
+      ...job,
+      status: 'sent',
+      attempts,
+      updatedAt: now(),
+      lastError: undefined,
+      provider: result.provider,
+      messageId: result.messageId,
+    };
+    await jobs.set(job.id, sent, { ttlMs: SENT_RETENTION_MS });
+    await due.remove(job.id);
+    // The message is out; retrying because bookkeeping failed would send it again.
+    try {
+      await onSent?.(sent, result);
+    } catch (error) {
+      logger.error('Bookkeeping after send failed', {
+        provider: result.provider,
+        providerMessageId: result.messageId,
+        error,
+      });
+    }
+  };
+
+  // The index is written before the job and moved after it, so it is never later than the job's
+  // `nextAttemptAt`; an entry that is out of step is corrected here instead of being delivered.
+  const tick = async (): Promise<number> => {
+    const current = now();
+    let attempted = 0;
+    for (const id of await due.due(current, batchSize)) {
+      // The lock keeps a second worker (or an overlapping tick) off the same job.
+      const claimed = await locks.setIfAbsent(id, current, { ttlMs: DEFAULT_LOCK_TTL_MS });
+      if (!claimed) continue;
+      try {
+        const fresh = await jobs.get(id);
+        if (!fresh || fresh.status !== 'queued') {
+          await due.remove(id);
+          continue;
+        }
+        if (fresh.nextAttemptAt > current) {
+          await due.schedule(id, fresh.nextAttemptAt);
+          continue;
+        }
+        attempted += 1;
+        await withLogContext(logContext(fresh), () => processJob(fresh));
+      } finally {
+        await locks.delete(id);
+      }
+    }
+    return attempted;
+  };
+
+  const poller = createPoller('Send queue', tick, pollIntervalMs);
+
+  return {
+    async enqueue(id: string, payload: P, enqueueOptions: EnqueueOptions = {}) {
+      const timestamp = now();
+      const job: SendJob<P> = {
+        id,
+        payload,
+        status: 'queued',
+        attempts: 0,
+        nextAttemptAt: Math.max(timestamp, enqueueOptions.notBefore ?? timestamp),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      await due.schedule(id, job.nextAttemptAt);
+      const created = await jobs.setIfAbsent(id, job);
+      if (created) return job;
+      return (await jobs.get(id)) ?? job;
+    },
+    get(id: string) {
+      return jobs.get(id);
+    },
+    async cancel(id: string) {
+      // Taking the job's lock means a tick cannot be delivering it while it is canceled.
+      const claimed = await locks.setIfAbsent(id, now(), { ttlMs: DEFAULT_LOCK_TTL_MS });
+      if (!claimed) return (await jobs.get(id)) ? { kind: 'in_progress' } : { kind: 'not_found' };
+      try {
+        const job = await jobs.get(id);
+        if (!job) return { kind: 'not_found' };
+        if (job.status !== 'queued') return { kind: 'not_pending', job };
+        const canceled: SendJob<P> = { ...job, status: 'canceled', updatedAt: now() };
+        await jobs.set(id, canceled, { ttlMs: SENT_RETENTION_MS });
+        await due.remove(id);
+        return { kind: 'canceled', job: canceled };
+      } finally {
+        await locks.delete(id);
+      }
+    },
+    tick,
+    start: poller.start,
+    stop: poller.stop,
+  };
+}
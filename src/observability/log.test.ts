@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { addLogContext, createLogger, type LogLevel, parseLogLevel, redactRecipients, withLogContext } from './log';
+
+function capture(level: LogLevel) {
+  const lines: Array<Record<string, unknown>> = [];
+  const logger = createLogger({
+    level: () => level,
+    write: (_level, line) => lines.push(JSON.parse(line) as Record<string, unknown>),
+    now: () => new Date('2026-01-01T00:00:00.000Z'),
+  });
+  return { logger, lines };
+}
+
+test('logger writes JSON lines with the current context and drops lines below the level', async () => {
+  const { logger, lines } = capture('info');
+  logger.debug('not written');
+  await withLogContext({ requestId: 'req-1', traceId: 'trace-1' }, async () => {
+    await Promise.resolve();
+    addLogContext({ template: 'Authentication/magic-link' });
+    logger.warn('Message failed', { provider: 'resend', error: new Error('timeout'), traceId: undefined });
+  });
+  logger.info('outside');
+
+  assert.deepEqual(lines, [
+    {
+      time: '2026-01-01T00:00:00.000Z',
+      level: 'warn',
+      msg: 'Message failed',
+      requestId: 'req-1',
+      traceId: 'trace-1',
+      template: 'Authentication/magic-link',
+      provider: 'resend',
+      error: 'timeout',
+    },
+    { time: '2026-01-01T00:00:00.000Z', level: 'info', msg: 'outside' },
+  ]);
+});
+
+test('logger redacts email addresses and phone numbers anywhere in the line', () => {
+  const { logger, lines } = capture('debug');
+  logger.error('Send to jane.doe@example.com failed', { to: '+15555550142', cc: ['bob@example.org'] });
+  assert.equal(lines[0].msg, 'Send to j***@example.com failed');
+  assert.equal(lines[0].to, '+***42');
+  assert.deepEqual(lines[0].cc, ['b***@example.org']);
+  const text = 'user <a@b.co> at 2026-01-01T00:00:00+01:00';
+  assert.equal(redactRecipients(text), 'user <a***@b.co> at 2026-01-01T00:00:00+01:00');
+});
+
+test('parseLogLevel falls back to info', () => {
+  assert.equal(parseLogLevel(' DEBUG '), 'debug');
+  assert.equal(parseLogLevel('verbose'), 'info');
+  assert.equal(parseLogLevel(undefined), 'info');
+});
@@ -0,0 +1,101 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const DEFAULT_LEVEL: LogLevel = 'info';
+
+/** Correlation fields every line written while handling one request or job carries. */
+export type LogContext = {
+  /** The send `id` once a send is validated; otherwise the HTTP request's `x-request-id`. */
+  requestId?: string;
+  traceId?: string;
+  template?: string;
+};
+
+export type LogFields = Record<string, unknown>;
+
+export type Logger = {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+};
+
+export type LoggerOptions = {
+  /** Read for every line, so a level set after startup (e.g. by `dotenv`) still applies. */
+  level?: () => LogLevel;
+  write?: (level: LogLevel, line: string) => void;
+  now?: () => Date;
+};
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+// Recipients must not end up in log storage; ids, templates and domains are enough to follow a message.
+const EMAIL_PATTERN = /([^\s@<>"'(),;:\\]+)@([^\s@<>"'(),;:\\]+\.[^\s@<>"'(),;:\\]+)/g;
+const PHONE_PATTERN = /\+\d{6,13}(\d{2})\b/g;
+
+export function parseLogLevel(raw: string | undefined): LogLevel {
+  const level = raw?.trim().toLowerCase();
+  return level && level in LEVEL_ORDER ? (level as LogLevel) : DEFAULT_LEVEL;
+}
+
+/** Masks email addresses (`j***@example.com`) and E.164 numbers (`+***42`) in `text`. */
+export function redactRecipients(text: string): string {
+  return text
+    .replace(EMAIL_PATTERN, (_match, local: string, domain: string) => `${local[0]}***@${domain}`)
+    .replace(PHONE_PATTERN, (_match, last: string) => `+***${last}`);
+}
+
+function defined<T extends Record<string, unknown>>(fields: T): Partial<T> {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+/** Runs `fn` with `context` merged over the current one; lines logged inside carry its fields. */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...defined(context) }, fn);
+}
+
+/** Adds fields to the current context, e.g. the template once a request is validated. No-op outside one. */
+export function addLogContext(context: LogContext): void {
+  const store = contextStorage.getStore();
+  if (store) Object.assign(store, defined(context));
+}
+
+export function currentLogContext(): LogContext {
+  return contextStorage.getStore() ?? {};
+}
+
+function writeToConsole(level: LogLevel, line: string) {
+  (level === 'warn' || level === 'error' ? process.stderr : process.stdout).write(`${line}\n`);
+}
+
+function serializeError(value: unknown): unknown {
+  return value instanceof Error ? value.message : value;
+}
+
+/** One JSON object per line: `time`, `level`, `msg`, the current context, then `fields`. */
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const {
+    level = () => parseLogLevel(process.env.LOG_LEVEL),
+    write = writeToConsole,
+    now = () => new Date(),
+  } = options;
+
+  const log = (lineLevel: LogLevel, message: string, fields: LogFields = {}) => {
+    if (LEVEL_ORDER[lineLevel] < LEVEL_ORDER[level()]) return;
+    const context = currentLogContext();
+    const entry = { time: now().toISOString(), level: lineLevel, msg: message, ...context, ...defined(fields) };
+    write(lineLevel, redactRecipients(JSON.stringify(entry, (_key, value) => serializeError(value))));
+  };
+
+  return {
+    debug: (message, fields) => log('debug', message, fields),
+    info: (message, fields) => log('info', message, fields),
+    warn: (message, fields) => log('warn', message, fields),
+    error: (message, fields) => log('error', message, fields),
+  };
+}
+
+/** The service's logger; the level comes from `LOG_LEVEL` (`debug`, `info`, `warn` or `error`; default `info`). */
+export const logger = createLogger();
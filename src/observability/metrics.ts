@@ -0,0 +1,51 @@
+import { Counter, Histogram, Registry } from 'prom-client';
+
+/** Everything `GET /metrics` exposes. Kept off prom-client's global registry so tests start clean. */
+export const metricsRegistry = new Registry();
+
+// Provider APIs answer in tens of milliseconds to a few seconds; SMTP handshakes sit at the slow end.
+const PROVIDER_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/** One increment per status a message reaches here: queued, sent, failed, suppressed, opted_out, canceled. */
+export const sendsTotal = new Counter({
+  name: 'communications_sends_total',
+  help: 'Messages by channel, template, status and provider',
+  labelNames: ['channel', 'template', 'status', 'provider'] as const,
+  registers: [metricsRegistry],
+});
+
+export const providerRequestDuration = new Histogram({
+  name: 'communications_provider_request_duration_seconds',
+  help: 'Provider API calls by provider, operation and outcome',
+  labelNames: ['provider', 'operation', 'outcome'] as const,
+  buckets: PROVIDER_LATENCY_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+export const webhookVerificationFailuresTotal = new Counter({
+  name: 'communications_webhook_verification_failures_total',
+  help: 'Webhooks rejected because their signature did not verify',
+  labelNames: ['webhook'] as const,
+  registers: [metricsRegistry],
+});
+
+/** `outcome` is `retry` while attempts remain and `dead` once the entry is dead-lettered. */
+export const apiForwardFailuresTotal = new Counter({
+  name: 'communications_api_forward_failures_total',
+  help: 'Failed deliveries of forwarded events to API_BASE_URL',
+  labelNames: ['path', 'outcome'] as const,
+  registers: [metricsRegistry],
+});
+
+/** Times one provider call, labelling it with whether it resolved or threw. */
+export async function timeProviderCall<T>(provider: string, operation: string, call: () => Promise<T>): Promise<T> {
+  const end = providerRequestDuration.startTimer({ provider, operation });
+  try {
+    const result = await call();
+    end({ outcome: 'success' });
+    return result;
+  } catch (error) {
+    end({ outcome: 'error' });
+    throw error;
+  }
+}
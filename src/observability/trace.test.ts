@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createTraceparent, parseTraceparent, toW3cTraceId } from './trace';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+
+test('parseTraceparent accepts valid headers and rejects malformed ones', () => {
+  assert.deepEqual(parseTraceparent(`00-${TRACE_ID.toUpperCase()}-00f067aa0ba902b7-01`), {
+    traceId: TRACE_ID,
+    parentId: '00f067aa0ba902b7',
+    sampled: true,
+  });
+  assert.equal(parseTraceparent(`01-${TRACE_ID}-00f067aa0ba902b7-00-future`)?.sampled, false);
+  assert.equal(parseTraceparent(`00-${TRACE_ID}-00f067aa0ba902b7-01-extra`), null);
+  assert.equal(parseTraceparent(`ff-${TRACE_ID}-00f067aa0ba902b7-01`), null);
+  assert.equal(parseTraceparent(`00-${'0'.repeat(32)}-00f067aa0ba902b7-01`), null);
+  assert.equal(parseTraceparent(`00-${TRACE_ID}-${'0'.repeat(16)}-01`), null);
+  assert.equal(parseTraceparent(undefined), null);
+});
+
+test('createTraceparent starts a new span under the trace, hashing ids that are not W3C trace ids', () => {
+  const [version, traceId, spanId, flags] = createTraceparent(TRACE_ID).split('-');
+  assert.deepEqual([version, traceId, flags], ['00', TRACE_ID, '01']);
+  assert.match(spanId, /^[0-9a-f]{16}$/);
+  assert.notEqual(createTraceparent(TRACE_ID), createTraceparent(TRACE_ID));
+
+  const hashed = toW3cTraceId('req-7f3a/magic-link');
+  assert.match(hashed, /^[0-9a-f]{32}$/);
+  assert.equal(toW3cTraceId('req-7f3a/magic-link'), hashed);
+});
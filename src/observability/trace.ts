@@ -0,0 +1,52 @@
+import crypto from 'node:crypto';
+
+/** W3C Trace Context request header. */
+export const TRACEPARENT_HEADER = 'traceparent';
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-|$)/;
+const TRACE_ID_PATTERN = /^[0-9a-f]{32}$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_PARENT_ID = '0'.repeat(16);
+const INVALID_VERSION = 'ff';
+const SAMPLED_FLAGS = '01';
+
+export type Traceparent = {
+  traceId: string;
+  parentId: string;
+  sampled: boolean;
+};
+
+/** Parses a `traceparent` header; null when it is missing or malformed, as the spec says to start a new trace. */
+export function parseTraceparent(header: string | string[] | undefined): Traceparent | null {
+  const value = (Array.isArray(header) ? header[0] : header)?.trim().toLowerCase();
+  const match = value?.match(TRACEPARENT_PATTERN);
+  if (!match) return null;
+  const [, version, traceId, parentId, flags] = match;
+  // Version 00 has exactly four fields; later versions may append more.
+  if (version === INVALID_VERSION || (version === '00' && value !== match[0])) return null;
+  if (traceId === INVALID_TRACE_ID || parentId === INVALID_PARENT_ID) return null;
+  return { traceId, parentId, sampled: (Number.parseInt(flags, 16) & 1) === 1 };
+}
+
+export function isTraceId(value: string): boolean {
+  return TRACE_ID_PATTERN.test(value) && value !== INVALID_TRACE_ID;
+}
+
+export function newTraceId(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+/**
+ * The W3C trace id for `traceId`. Callers may use their own id format in `metadata.traceId`;
+ * those are hashed, so every outbound call for the message still lands in one trace.
+ */
+export function toW3cTraceId(traceId: string): string {
+  const lowered = traceId.toLowerCase();
+  if (isTraceId(lowered)) return lowered;
+  return crypto.createHash('sha256').update(traceId).digest('hex').slice(0, 32);
+}
+
+/** A `traceparent` for one outbound call in the trace: a fresh span id under `traceId`. */
+export function createTraceparent(traceId: string): string {
+  return `00-${toW3cTraceId(traceId)}-${crypto.randomBytes(8).toString('hex')}-${SAMPLED_FLAGS}`;
+}
@@ -0,0 +1,112 @@
+import { logger } from '../observability/log';
+import { createResendProvider, RESEND_PROVIDER_NAME } from './resend';
+import { createSmtpProvider, SMTP_PROVIDER_NAME } from './smtp';
+import { createTwilioProvider, TWILIO_PROVIDER_NAME } from './twilio';
+import type { EmailProvider, PushProvider, SmsProvider } from './types';
+import { createWebPushProvider } from './web-push';
+
+export { RESEND_PROVIDER_NAME } from './resend';
+export { SMTP_PROVIDER_NAME } from './smtp';
+export { TWILIO_PROVIDER_NAME } from './twilio';
+export { ProviderError } from './types';
+export type {
+  EmailMessage,
+  EmailProvider,
+  ProviderSendResult,
+  PushMessage,
+  PushProvider,
+  SmsMessage,
+  SmsProvider,
+  WebPushSubscription,
+} from './types';
+export { WEB_PUSH_PROVIDER_NAME } from './web-push';
+
+type ProviderEnv = Record<string, string | undefined>;
+
+function parseOptionalPort(raw: string | undefined): number | undefined {
+  if (!raw) return undefined;
+  const parsed = Number.parseInt(raw, 10);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > 65535) {
+    return undefined;
+  }
+  return parsed;
+}
+
+function parseOptionalBoolean(raw: string | undefined): boolean | undefined {
+  if (!raw) return undefined;
+  return ['1', 'true', 'yes'].includes(raw.trim().toLowerCase());
+}
+
+function createEmailProvider(name: string, env: ProviderEnv): EmailProvider | null {
+  switch (name) {
+    case RESEND_PROVIDER_NAME: {
+      if (!env.EMAIL_PROVIDER_KEY) {
+        logger.warn('EMAIL_PROVIDER_KEY not set; resend provider disabled');
+        return null;
+      }
+      return createResendProvider(env.EMAIL_PROVIDER_KEY);
+    }
+    case SMTP_PROVIDER_NAME: {
+      if (!env.SMTP_HOST) {
+        logger.warn('SMTP_HOST not set; smtp provider disabled');
+        return null;
+      }
+      return createSmtpProvider({
+        host: env.SMTP_HOST,
+        port: parseOptionalPort(env.SMTP_PORT),
+        secure: parseOptionalBoolean(env.SMTP_SECURE),
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+      });
+    }
+    default:
+      logger.warn('Unknown email provider; ignoring', { provider: name });
+      return null;
+  }
+}
+
+/**
+ * Builds the ordered provider chain from `EMAIL_PROVIDER` (primary, default `resend`)
+ * and `EMAIL_FALLBACK_PROVIDER` (optional secondary). Misconfigured providers are skipped.
+ */
+export function createEmailProvidersFromEnv(env: ProviderEnv): EmailProvider[] {
+  const primary = (env.EMAIL_PROVIDER || RESEND_PROVIDER_NAME).trim().toLowerCase();
+  const fallback = env.EMAIL_FALLBACK_PROVIDER?.trim().toLowerCase();
+  const names = fallback && fallback !== primary ? [primary, fallback] : [primary];
+
+  const providers: EmailProvider[] = [];
+  for (const name of names) {
+    const provider = createEmailProvider(name, env);
+    if (provider) providers.push(provider);
+  }
+  return providers;
+}
+
+/** Builds the SMS provider from `SMS_PROVIDER` (default `twilio`); null when it is not configured. */
+export function createSmsProviderFromEnv(env: ProviderEnv): SmsProvider | null {
+  const name = (env.SMS_PROVIDER || TWILIO_PROVIDER_NAME).trim().toLowerCase();
+  if (name !== TWILIO_PROVIDER_NAME) {
+    logger.warn('Unknown SMS provider; SMS disabled', { provider: name });
+    return null;
+  }
+  if (!env.TWILIO_ACCOUNT_SID || !env.TWILIO_AUTH_TOKEN) {
+    return null;
+  }
+  return createTwilioProvider({
+    accountSid: env.TWILIO_ACCOUNT_SID,
+    authToken: env.TWILIO_AUTH_TOKEN,
+    baseUrl: env.TWILIO_BASE_URL,
+  });
+}
+
+/** Builds the Web Push provider from `VAPID_PUBLIC_KEY`/`VAPID_PRIVATE_KEY`/`VAPID_SUBJECT`; null when unset. */
+export function createPushProviderFromEnv(env: ProviderEnv): PushProvider | null {
+  if (!env.VAPID_PUBLIC_KEY || !env.VAPID_PRIVATE_KEY || !env.VAPID_SUBJECT) {
+    return null;
+  }
+  return createWebPushProvider({
+    publicKey: env.VAPID_PUBLIC_KEY,
+    privateKey: env.VAPID_PRIVATE_KEY,
+    subject: env.VAPID_SUBJECT,
+  });
+}
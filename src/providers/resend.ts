@@ -0,0 +1,115 @@
+import { type CreateEmailOptions, Resend } from 'resend';
+
+import { TRACEPARENT_HEADER } from '../observability/trace';
+import { type EmailMessage, type EmailProvider, ProviderError, type ProviderSendResult } from './types';
+
+export const RESEND_PROVIDER_NAME = 'resend';
+
+// Error names Resend returns for conditions another provider (or a later attempt) can get past.
+const RETRYABLE_ERROR_NAMES = new Set([
+  'rate_limit_exceeded',
+  'daily_quota_exceeded',
+  'monthly_quota_exceeded',
+  'application_error',
+  'internal_server_error',
+  'concurrent_idempotent_requests',
+]);
+
+function isRetryableStatus(statusCode: number | null | undefined): boolean {
+  if (!statusCode) return false;
+  return statusCode === 429 || statusCode >= 500;
+}
+
+function toCreateOptions(message: EmailMessage): CreateEmailOptions {
+  return {
+    from: message.from,
+    to: message.to,
+    cc: message.cc,
+    bcc: message.bcc,
+    replyTo: message.replyTo,
+    subject: message.subject,
+    html: message.html,
+    text: message.text,
+    headers: message.headers,
+  };
+}
+
+function requestOptions(idempotencyKey?: string, traceparent?: string) {
+  if (!idempotencyKey && !traceparent) return undefined;
+  return {
+    ...(idempotencyKey ? { idempotencyKey } : {}),
+    ...(traceparent ? { headers: { [TRACEPARENT_HEADER]: traceparent } } : {}),
+  };
+}
+
+// Failures raised before a connection to Resend existed, so the request was never sent.
+const PRE_CONNECT_ERROR_CODES = new Set(['ENOTFOUND', 'EAI_AGAIN', 'ECONNREFUSED']);
+
+function errorCode(error: unknown): string | undefined {
+  // fetch wraps the socket error, which carries the code, in `cause`.
+  for (let current = error; current instanceof Error; current = current.cause) {
+    const { code } = current as Error & { code?: unknown };
+    if (typeof code === 'string') return code;
+  }
+  return undefined;
+}
+
+// A failure once the connection was made (a timeout or reset after the body was sent) may
+// follow Resend accepting the message, so only pre-connect failures may go to another provider.
+function toNetworkError(error: unknown): ProviderError {
+  const reason = error instanceof Error ? error.message : String(error);
+  const code = errorCode(error);
+  const outcomeUnknown = code === undefined || !PRE_CONNECT_ERROR_CODES.has(code);
+  return new ProviderError(RESEND_PROVIDER_NAME, reason, { retryable: true, outcomeUnknown });
+}
+
+function toApiError(error: { name: string; message: string; statusCode: number | null }): ProviderError {
+  // The SDK answers a failed fetch with a status-less error and drops its cause, so it may have reached Resend.
+  if (error.statusCode === null) {
+    return new ProviderError(RESEND_PROVIDER_NAME, error.message || error.name, {
+      retryable: true,
+      outcomeUnknown: true,
+    });
+  }
+  return new ProviderError(RESEND_PROVIDER_NAME, error.message || error.name, {
+    retryable: RETRYABLE_ERROR_NAMES.has(error.name) || isRetryableStatus(error.statusCode),
+    statusCode: error.statusCode,
+  });
+}
+
+export function createResendProvider(apiKey: string): EmailProvider {
+  const client = new Resend(apiKey);
+
+  return {
+    name: RESEND_PROVIDER_NAME,
+    async send(message: EmailMessage): Promise<ProviderSendResult> {
+      let result: Awaited<ReturnType<typeof client.emails.send>>;
+      try {
+        result = await client.emails.send(
+          toCreateOptions(message),
+          requestOptions(message.idempotencyKey, message.traceparent),
+        );
+      } catch (error) {
+        throw toNetworkError(error);
+      }
+
+      if (result.error) throw toApiError(result.error);
+      return { provider: RESEND_PROVIDER_NAME, messageId: result.data?.id };
+    },
+    async sendBatch(messages: EmailMessage[], options = {}): Promise<ProviderSendResult[]> {
+      let result: Awaited<ReturnType<typeof client.batch.send>>;
+      try {
+        result = await client.batch.send(
+          messages.map(toCreateOptions),
+          requestOptions(options.idempotencyKey, options.traceparent),
+        );
+      } catch (error) {
+        throw toNetworkError(error);
+      }
+
+      if (result.error) throw toApiError(result.error);
+      const ids = result.data?.data ?? [];
+      return messages.map((_message, index) => ({ provider: RESEND_PROVIDER_NAME, messageId: ids[index]?.id }));
+    },
+  };
+}
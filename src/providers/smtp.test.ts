@@ -0,0 +1,126 @@
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import test from 'node:test';
+
+import { createSmtpProvider } from './smtp';
+import { ProviderError } from './types';
+
+type FakeSmtpServer = {
+  port: number;
+  messages: string[];
+  close: () => Promise<void>;
+};
+
+// Minimal SMTP responder: enough of RFC 5321 for nodemailer to deliver one message.
+async function startFakeSmtpServer(options: { rcptReply?: string } = {}): Promise<FakeSmtpServer> {
+  const messages: string[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 fake-smtp ready\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        messages.push(buffer.slice(0, end));
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 OK queued as fake-id\r\n');
+      }
+      let newline = buffer.indexOf('\r\n');
+      while (!inData && newline !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        const command = line.split(' ')[0].toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') {
+          socket.write('250 fake-smtp\r\n');
+        } else if (command === 'RCPT') {
+          socket.write(options.rcptReply ?? '250 OK\r\n');
+        } else if (command === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (command === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+        newline = buffer.indexOf('\r\n');
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address() as net.AddressInfo;
+  return {
+    port: address.port,
+    messages,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+const MESSAGE = {
+  from: 'Intellex <noreply@intellex.test>',
+  to: 'user@example.com',
+  subject: 'Hello',
+  html: '<p>Hello there</p>',
+};
+
+test('smtp provider delivers a message to the server', async () => {
+  const server = await startFakeSmtpServer();
+  try {
+    const provider = createSmtpProvider({ host: '127.0.0.1', port: server.port, secure: false });
+    const result = await provider.send({
+      ...MESSAGE,
+      headers: { 'List-Unsubscribe': '<https://comms.test/unsubscribe/t>' },
+    });
+    assert.equal(result.provider, 'smtp');
+    assert.ok(result.messageId);
+    assert.equal(server.messages.length, 1);
+    assert.match(server.messages[0], /Subject: Hello/);
+    assert.match(server.messages[0], /Hello there/);
+    assert.match(server.messages[0], /List-Unsubscribe: <https:\/\/comms\.test\/unsubscribe\/t>/);
+  } finally {
+    await server.close();
+  }
+});
+
+test('smtp provider marks 4xx replies as retryable', async () => {
+  const server = await startFakeSmtpServer({ rcptReply: '451 Try again later\r\n' });
+  try {
+    const provider = createSmtpProvider({ host: '127.0.0.1', port: server.port, secure: false });
+    await assert.rejects(provider.send(MESSAGE), (error: unknown) => {
+      assert.ok(error instanceof ProviderError);
+      assert.equal(error.retryable, true);
+      assert.equal(error.statusCode, 451);
+      return true;
+    });
+  } finally {
+    await server.close();
+  }
+});
+
+test('smtp provider marks 5xx replies as permanent', async () => {
+  const server = await startFakeSmtpServer({ rcptReply: '550 No such user\r\n' });
+  try {
+    const provider = createSmtpProvider({ host: '127.0.0.1', port: server.port, secure: false });
+    await assert.rejects(provider.send(MESSAGE), (error: unknown) => {
+      assert.ok(error instanceof ProviderError);
+      assert.equal(error.retryable, false);
+      return true;
+    });
+  } finally {
+    await server.close();
+  }
+});
+
+test('smtp provider lets a refused connection go to another provider', async () => {
+  const server = await startFakeSmtpServer();
+  await server.close();
+  const provider = createSmtpProvider({ host: '127.0.0.1', port: server.port, secure: false });
+  await assert.rejects(provider.send(MESSAGE), (error: unknown) => {
+    assert.ok(error instanceof ProviderError);
+    assert.equal(error.retryable, true);
+    assert.equal(error.outcomeUnknown, false);
+    return true;
+  });
+});
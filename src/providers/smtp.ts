@@ -0,0 +1,75 @@
+import nodemailer from 'nodemailer';
+
+import { type EmailMessage, type EmailProvider, ProviderError, type ProviderSendResult } from './types';
+
+export const SMTP_PROVIDER_NAME = 'smtp';
+
+const DEFAULT_SMTP_PORT = 587;
+const SMTP_TIMEOUT_MS = 10_000;
+
+// Connection-level failures from nodemailer; worth another attempt.
+const RETRYABLE_ERROR_CODES = new Set(['ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'EDNS', 'ECONNREFUSED', 'ECONNRESET']);
+// Failures before a session existed; anything later may follow the server accepting the message.
+const PRE_CONNECT_ERROR_CODES = new Set(['EDNS', 'ECONNREFUSED']);
+
+export type SmtpConfig = {
+  host: string;
+  port?: number;
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+};
+
+type SmtpError = Error & { code?: string; responseCode?: number; syscall?: string };
+
+function toProviderError(error: unknown): ProviderError {
+  if (!(error instanceof Error)) {
+    return new ProviderError(SMTP_PROVIDER_NAME, String(error), { retryable: true });
+  }
+  const { code, responseCode, syscall } = error as SmtpError;
+  // 4xx replies are transient per RFC 5321; 5xx replies are permanent.
+  const transientReply = typeof responseCode === 'number' && responseCode >= 400 && responseCode < 500;
+  const connectionError = code !== undefined && RETRYABLE_ERROR_CODES.has(code);
+  // nodemailer reports a refused connection as `ESOCKET`; the socket error keeps its `connect` syscall.
+  const preConnect = (code !== undefined && PRE_CONNECT_ERROR_CODES.has(code)) || syscall === 'connect';
+  return new ProviderError(SMTP_PROVIDER_NAME, error.message, {
+    retryable: transientReply || connectionError,
+    outcomeUnknown: connectionError && !preConnect,
+    statusCode: responseCode,
+  });
+}
+
+export function createSmtpProvider(config: SmtpConfig): EmailProvider {
+  const port = config.port ?? DEFAULT_SMTP_PORT;
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port,
+    secure: config.secure ?? port === 465,
+    auth: config.user ? { user: config.user, pass: config.pass ?? '' } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+
+  return {
+    name: SMTP_PROVIDER_NAME,
+    async send(message: EmailMessage): Promise<ProviderSendResult> {
+      try {
+        const info = await transport.sendMail({
+          from: message.from,
+          to: message.to,
+          cc: message.cc,
+          bcc: message.bcc,
+          replyTo: message.replyTo,
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+          headers: message.headers,
+        });
+        return { provider: SMTP_PROVIDER_NAME, messageId: info.messageId };
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import test from 'node:test';
+
+import { createTwilioProvider } from './twilio';
+import { ProviderError } from './types';
+
+type StubRequest = {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  form: URLSearchParams;
+};
+
+type StubServer = {
+  baseUrl: string;
+  requests: StubRequest[];
+  close: () => Promise<void>;
+};
+
+// Answers the Messages API with a fixed status and body, recording what it received.
+async function startTwilioStub(statusCode: number, body: Record<string, unknown>): Promise<StubServer> {
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      requests.push({ url: req.url ?? '', headers: req.headers, form: new URLSearchParams(raw) });
+      res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+const MESSAGE = {
+  from: '+15555550123',
+  to: '+15555550100',
+  body: '123456 is your code',
+  statusCallbackUrl: 'https://comms.test/webhooks/sms',
+  idempotencyKey: 'req-1',
+};
+
+test('twilio provider posts a form-encoded message and returns the sid', async () => {
+  const stub = await startTwilioStub(201, { sid: 'SM123', status: 'queued' });
+  try {
+    const provider = createTwilioProvider({ accountSid: 'AC1', authToken: 'token', baseUrl: stub.baseUrl });
+    const result = await provider.send(MESSAGE);
+    assert.deepEqual(result, { provider: 'twilio', messageId: 'SM123' });
+
+    const [request] = stub.requests;
+    assert.equal(request.url, '/2010-04-01/Accounts/AC1/Messages.json');
+    assert.equal(request.headers.authorization, `Basic ${Buffer.from('AC1:token').toString('base64')}`);
+    assert.equal(request.headers['i-twilio-idempotency-token'], 'req-1');
+    assert.equal(request.form.get('To'), MESSAGE.to);
+    assert.equal(request.form.get('From'), MESSAGE.from);
+    assert.equal(request.form.get('Body'), MESSAGE.body);
+    assert.equal(request.form.get('StatusCallback'), MESSAGE.statusCallbackUrl);
+  } finally {
+    await stub.close();
+  }
+});
+
+test('twilio provider treats 4xx as permanent and 429/5xx as retryable', async () => {
+  const cases = [
+    { statusCode: 400, retryable: false },
+    { statusCode: 429, retryable: true },
+    { statusCode: 503, retryable: true },
+  ];
+  for (const { statusCode, retryable } of cases) {
+    const stub = await startTwilioStub(statusCode, { code: 21211, message: 'Invalid To number' });
+    try {
+      const provider = createTwilioProvider({ accountSid: 'AC1', authToken: 'token', baseUrl: stub.baseUrl });
+      await assert.rejects(provider.send(MESSAGE), (error: unknown) => {
+        assert.ok(error instanceof ProviderError);
+        assert.equal(error.retryable, retryable);
+        assert.equal(error.statusCode, statusCode);
+        assert.match(error.message, /Invalid To number \(code 21211\)/);
+        return true;
+      });
+    } finally {
+      await stub.close();
+    }
+  }
+});
+
+test('twilio provider reports connection failures as retryable', async () => {
+  const stub = await startTwilioStub(201, {});
+  await stub.close();
+  const provider = createTwilioProvider({ accountSid: 'AC1', authToken: 'token', baseUrl: stub.baseUrl });
+  await assert.rejects(provider.send(MESSAGE), (error: unknown) => {
+    assert.ok(error instanceof ProviderError);
+    assert.equal(error.retryable, true);
+    return true;
+  });
+});
@@ -0,0 +1,79 @@
+import { ProviderError, type ProviderSendResult, type SmsMessage, type SmsProvider } from './types';
+
+export const TWILIO_PROVIDER_NAME = 'twilio';
+
+const DEFAULT_BASE_URL = 'https://api.twilio.com';
+const REQUEST_TIMEOUT_MS = 10_000;
+const IDEMPOTENCY_HEADER = 'I-Twilio-Idempotency-Token';
+
+export type TwilioConfig = {
+  accountSid: string;
+  authToken: string;
+  /** Overrides the API origin; any Twilio-compatible Messages API works. */
+  baseUrl?: string;
+};
+
+type TwilioMessageResponse = {
+  sid?: string;
+  code?: number;
+  message?: string;
+};
+
+function isRetryableStatus(statusCode: number): boolean {
+  return statusCode === 429 || statusCode >= 500;
+}
+
+export function createTwilioProvider(config: TwilioConfig): SmsProvider {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const endpoint = `${baseUrl}/2010-04-01/Accounts/${encodeURIComponent(config.accountSid)}/Messages.json`;
+  const authorization = `Basic ${Buffer.from(`${config.accountSid}:${config.authToken}`).toString('base64')}`;
+
+  return {
+    name: TWILIO_PROVIDER_NAME,
+    async send(message: SmsMessage): Promise<ProviderSendResult> {
+      const form = new URLSearchParams({ To: message.to, From: message.from, Body: message.body });
+      if (message.statusCallbackUrl) {
+        form.set('StatusCallback', message.statusCallbackUrl);
+      }
+      const headers: Record<string, string> = {
+        Authorization: authorization,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      };
+      if (message.idempotencyKey) {
+        headers[IDEMPOTENCY_HEADER] = message.idempotencyKey;
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: 'POST',
+          headers,
+          body: form.toString(),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+      } catch (error) {
+        // Timeouts and connection failures: the message may be retried.
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new ProviderError(TWILIO_PROVIDER_NAME, reason, { retryable: true });
+      }
+
+      let body: TwilioMessageResponse = {};
+      try {
+        body = (await response.json()) as TwilioMessageResponse;
+      } catch {
+        // Non-JSON bodies (proxies, HTML error pages) fall through to the status check.
+      }
+
+      if (!response.ok) {
+        const reason = body.message || `HTTP ${response.status}`;
+        throw new ProviderError(TWILIO_PROVIDER_NAME, body.code ? `${reason} (code ${body.code})` : reason, {
+          retryable: isRetryableStatus(response.status),
+          statusCode: response.status,
+        });
+      }
+
+      return { provider: TWILIO_PROVIDER_NAME, messageId: body.sid };
+    },
+  };
+}
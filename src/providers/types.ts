@@ -0,0 +1,91 @@
+export type EmailMessage = {
+  from: string;
+  to: string;
+  cc?: string[];
+  bcc?: string[];
+  replyTo?: string[];
+  subject: string;
+  html: string;
+  text?: string;
+  /** Extra MIME headers, e.g. `List-Unsubscribe`. */
+  headers?: Record<string, string>;
+  /** Lets providers that support it (Resend) drop duplicate submissions of the same message. */
+  idempotencyKey?: string;
+  /** W3C trace context for the provider API call (Resend); not a MIME header. */
+  traceparent?: string;
+};
+
+export type ProviderSendResult = {
+  provider: string;
+  messageId?: string;
+};
+
+export interface EmailProvider {
+  readonly name: string;
+  send(message: EmailMessage): Promise<ProviderSendResult>;
+  /** Sends several messages in one call, all or nothing; results are in input order. */
+  sendBatch?(
+    messages: EmailMessage[],
+    options?: { idempotencyKey?: string; traceparent?: string },
+  ): Promise<ProviderSendResult[]>;
+}
+
+export type SmsMessage = {
+  from: string;
+  /** E.164 number, e.g. `+15555550100`. */
+  to: string;
+  body: string;
+  /** URL the provider posts delivery status updates to. */
+  statusCallbackUrl?: string;
+  idempotencyKey?: string;
+};
+
+export interface SmsProvider {
+  readonly name: string;
+  send(message: SmsMessage): Promise<ProviderSendResult>;
+}
+
+export type WebPushSubscription = {
+  endpoint: string;
+  expirationTime?: number | null;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+};
+
+export type PushMessage = {
+  subscription: WebPushSubscription;
+  /** Serialized notification; encrypted for the subscription by the provider. */
+  payload: string;
+  ttlSeconds?: number;
+};
+
+export interface PushProvider {
+  readonly name: string;
+  send(message: PushMessage): Promise<ProviderSendResult>;
+}
+
+export class ProviderError extends Error {
+  readonly provider: string;
+  readonly retryable: boolean;
+  /**
+   * The request may have reached the provider and been accepted, e.g. a timeout after it was sent.
+   * Retry it with the same provider and idempotency key; another provider could deliver it twice.
+   */
+  readonly outcomeUnknown: boolean;
+  readonly statusCode?: number;
+
+  constructor(
+    provider: string,
+    message: string,
+    options: { retryable: boolean; outcomeUnknown?: boolean; statusCode?: number },
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.retryable = options.retryable;
+    this.outcomeUnknown = options.outcomeUnknown ?? false;
+    this.statusCode = options.statusCode;
+  }
+}
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import https from 'node:https';
+import test from 'node:test';
+import { WebPushError } from 'web-push';
+
+import { PrivateAddressError } from '../workflows/callback-url';
+import { ProviderError } from './types';
+import { createWebPushProvider } from './web-push';
+
+const CONFIG = { publicKey: 'public', privateKey: 'private', subject: 'mailto:ops@intellex.test' };
+const MESSAGE = {
+  subscription: { endpoint: 'https://push.test/a', keys: { p256dh: 'key', auth: 'auth' } },
+  payload: '{"title":"Hi"}',
+  ttlSeconds: 60,
+};
+
+test('web push provider signs with VAPID details and returns the Location id', async () => {
+  const provider = createWebPushProvider(CONFIG, async (subscription, payload, options) => {
+    assert.equal(subscription.endpoint, MESSAGE.subscription.endpoint);
+    assert.equal(payload, MESSAGE.payload);
+    assert.deepEqual(options?.vapidDetails, CONFIG);
+    assert.equal(options?.TTL, 60);
+    assert.ok(options?.agent instanceof https.Agent);
+    return { statusCode: 201, body: '', headers: { location: 'https://push.test/m/1' } };
+  });
+  assert.deepEqual(await provider.send(MESSAGE), { provider: 'web-push', messageId: 'https://push.test/m/1' });
+});
+
+test('web push provider maps push service status codes', async () => {
+  for (const [statusCode, retryable] of [
+    [410, false],
+    [429, true],
+    [502, true],
+  ] as const) {
+    const provider = createWebPushProvider(CONFIG, async () => {
+      throw new WebPushError('Received unexpected response code', statusCode, {}, 'push failed', MESSAGE.subscription.endpoint);
+    });
+    await assert.rejects(provider.send(MESSAGE), (error: unknown) => {
+      assert.ok(error instanceof ProviderError);
+      assert.equal(error.statusCode, statusCode);
+      assert.equal(error.retryable, retryable);
+      return true;
+    });
+  }
+});
+
+test('web push provider does not retry an endpoint that resolves to a private address', async () => {
+  const provider = createWebPushProvider(CONFIG, async () => {
+    throw new PrivateAddressError('push.test');
+  });
+  await assert.rejects(provider.send(MESSAGE), (error: unknown) => {
+    assert.ok(error instanceof ProviderError);
+    assert.equal(error.retryable, false);
+    return true;
+  });
+});
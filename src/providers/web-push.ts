@@ -0,0 +1,60 @@
+import https from 'node:https';
+import webpush, { WebPushError } from 'web-push';
+
+import { createPublicOnlyLookup, PrivateAddressError } from '../workflows/callback-url';
+import { ProviderError, type ProviderSendResult, type PushMessage, type PushProvider } from './types';
+
+export const WEB_PUSH_PROVIDER_NAME = 'web-push';
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export type WebPushConfig = {
+  publicKey: string;
+  privateKey: string;
+  /** `mailto:` or `https:` contact the push service can reach about abuse. */
+  subject: string;
+};
+
+type SendNotification = typeof webpush.sendNotification;
+
+function isRetryableStatus(statusCode: number): boolean {
+  return statusCode === 429 || statusCode >= 500;
+}
+
+export function createWebPushProvider(
+  config: WebPushConfig,
+  sendNotification: SendNotification = webpush.sendNotification,
+): PushProvider {
+  const vapidDetails = { subject: config.subject, publicKey: config.publicKey, privateKey: config.privateKey };
+  // Endpoints come from browsers via `POST /subscriptions`; refuse any that resolve to a private network
+  // at connect time, like callback URLs.
+  const agent = new https.Agent({ keepAlive: true, lookup: createPublicOnlyLookup(new Set()) });
+
+  return {
+    name: WEB_PUSH_PROVIDER_NAME,
+    async send(message: PushMessage): Promise<ProviderSendResult> {
+      try {
+        const result = await sendNotification(message.subscription, message.payload, {
+          vapidDetails,
+          TTL: message.ttlSeconds ?? DEFAULT_TTL_SECONDS,
+          timeout: REQUEST_TIMEOUT_MS,
+          agent,
+        });
+        // Push services return the created message resource in Location.
+        const location = result.headers?.location;
+        return { provider: WEB_PUSH_PROVIDER_NAME, messageId: Array.isArray(location) ? location[0] : location };
+      } catch (error) {
+        if (error instanceof WebPushError) {
+          // 404/410 mean the subscription is gone; callers prune on those status codes.
+          throw new ProviderError(WEB_PUSH_PROVIDER_NAME, error.body || error.message, {
+            retryable: isRetryableStatus(error.statusCode),
+            statusCode: error.statusCode,
+          });
+        }
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new ProviderError(WEB_PUSH_PROVIDER_NAME, reason, { retryable: !(error instanceof PrivateAddressError) });
+      }
+    },
+  };
+}
@@ -0,0 +1,20 @@
+import type { DueIndex, KeyValueStore } from './types';
+
+/** A due index over a plain store of due times, for backends without a sorted set. */
+export function createStoreDueIndex(store: KeyValueStore<number>): DueIndex {
+  return {
+    schedule(key, dueAt) {
+      return store.set(key, dueAt);
+    },
+    async remove(key) {
+      await store.delete(key);
+    },
+    async due(now, limit) {
+      return (await store.entries())
+        .filter(([, dueAt]) => dueAt <= now)
+        .sort(([, a], [, b]) => a - b)
+        .slice(0, limit)
+        .map(([key]) => key);
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import test from 'node:test';
+
+import { createFileStore } from './file';
+
+test('file store persists entries across instances', async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'comms-store-'));
+  try {
+    const filePath = path.join(dir, 'jobs.json');
+    const first = createFileStore<{ count: number }>(filePath);
+    await first.set('a', { count: 1 });
+    assert.equal(await first.setIfAbsent('a', { count: 2 }), false);
+    assert.equal(await first.setIfAbsent('b', { count: 3 }), true);
+
+    const second = createFileStore<{ count: number }>(filePath);
+    assert.deepEqual(await second.get('a'), { count: 1 });
+    assert.deepEqual((await second.entries()).map(([key]) => key).sort(), ['a', 'b']);
+    assert.equal(await second.delete('a'), true);
+    assert.equal(await second.get('a'), null);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('file store drops expired entries', async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'comms-store-'));
+  try {
+    const store = createFileStore<string>(path.join(dir, 'locks.json'));
+    await store.set('gone', 'x', { ttlMs: -1 });
+    await store.set('kept', 'y', { ttlMs: 60_000 });
+    assert.equal(await store.get('gone'), null);
+    assert.equal(await store.setIfAbsent('gone', 'z'), true);
+    assert.equal(await store.get('kept'), 'y');
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('file store moves a corrupt file aside instead of overwriting it', async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'comms-store-'));
+  try {
+    const filePath = path.join(dir, 'jobs.json');
+    await writeFile(filePath, '{"a":{"value":1}', 'utf8');
+    const store = createFileStore<number>(filePath);
+    assert.equal(await store.get('a'), null);
+    await store.set('b', 2);
+
+    const corrupt = (await readdir(dir)).filter((name) => name.startsWith('jobs.json.corrupt-'));
+    assert.equal(corrupt.length, 1);
+    assert.equal(await readFile(path.join(dir, corrupt[0]), 'utf8'), '{"a":{"value":1}');
+    assert.deepEqual(await createFileStore<number>(filePath).entries(), [['b', 2]]);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('file store appends each write and compacts once most records are superseded', async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'comms-store-'));
+  try {
+    const filePath = path.join(dir, 'jobs.json');
+    const store = createFileStore<number>(filePath);
+    for (let count = 0; count < 1000; count += 1) await store.set('a', count);
+    await store.set('b', 1);
+    const lines = (await readFile(filePath, 'utf8')).split('\n').filter(Boolean);
+    assert.equal(lines.length, 2, 'the 1000 writes to `a` were compacted into one');
+    assert.deepEqual((await createFileStore<number>(filePath).entries()).sort(), [['a', 999], ['b', 1]]);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('file store reads the whole-object format and drops a torn last write', async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'comms-store-'));
+  try {
+    const objectPath = path.join(dir, 'object.json');
+    await writeFile(objectPath, '{"a":{"value":1}}', 'utf8');
+    const fromObject = createFileStore<number>(objectPath);
+    await fromObject.set('b', 2);
+    assert.deepEqual((await createFileStore<number>(objectPath).entries()).sort(), [['a', 1], ['b', 2]]);
+
+    const tornPath = path.join(dir, 'torn.json');
+    await writeFile(tornPath, '["a",{"value":1}]\n["b",{"val', 'utf8');
+    const torn = createFileStore<number>(tornPath);
+    assert.deepEqual(await torn.entries(), [['a', 1]]);
+    await torn.set('c', 3);
+    assert.deepEqual((await createFileStore<number>(tornPath).entries()).sort(), [['a', 1], ['c', 3]]);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
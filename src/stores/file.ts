@@ -0,0 +1,188 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { logger } from '../observability/log';
+import { isExpired, type KeyValueStore, type StoredEntry, type StoreSetOptions, toStoredEntry } from './types';
+
+// The log is rewritten once it holds this many records and more than twice as many as live entries.
+const COMPACT_MIN_RECORDS = 1000;
+
+type FileContents<T> = Record<string, StoredEntry<T>>;
+
+/** One line of the log: a write, or `null` for a delete. */
+type LogRecord<T> = [string, StoredEntry<T> | null];
+
+class CorruptStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CorruptStoreError';
+  }
+}
+
+/**
+ * Replays a log. A JSON object is the older whole-file format; like a torn log, it reports no usable
+ * record count so the next write compacts it.
+ */
+function parseContents<T>(raw: string): { entries: Map<string, StoredEntry<T>>; records: number } {
+  const entries = new Map<string, StoredEntry<T>>();
+  if (raw.trimStart().startsWith('{')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new CorruptStoreError('store file is not valid JSON');
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new CorruptStoreError('store file does not hold a JSON object');
+    }
+    for (const [key, entry] of Object.entries(parsed as FileContents<T>)) entries.set(key, entry);
+    return { entries, records: Number.POSITIVE_INFINITY };
+  }
+
+  const lines = raw.split('\n');
+  let records = 0;
+  for (const [index, line] of lines.entries()) {
+    if (!line) continue;
+    let record: LogRecord<T>;
+    try {
+      record = JSON.parse(line) as LogRecord<T>;
+    } catch {
+      // A crash mid-append leaves a torn last line; that write never completed. Appending after it would
+      // bury it mid-file, so the next write compacts instead.
+      if (index === lines.length - 1) return { entries, records: Number.POSITIVE_INFINITY };
+      throw new CorruptStoreError(`store file line ${index + 1} is not valid JSON`);
+    }
+    if (!Array.isArray(record) || typeof record[0] !== 'string') {
+      throw new CorruptStoreError(`store file line ${index + 1} is not a record`);
+    }
+    const [key, entry] = record;
+    if (entry === null) entries.delete(key);
+    else entries.set(key, entry);
+    records += 1;
+  }
+  return { entries, records };
+}
+
+/**
+ * JSON-file backed store for single-instance deployments without Redis. Each mutation appends one
+ * line to a log; once the log is mostly superseded records it is rewritten atomically (write + rename)
+ * with only the live entries. Mutations are serialized so concurrent writers cannot interleave.
+ */
+export function createFileStore<T>(filePath: string): KeyValueStore<T> {
+  let cache: Map<string, StoredEntry<T>> | null = null;
+  let records = 0;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // A corrupt file is moved aside rather than treated as empty: the next write would replace it and lose every entry.
+  const quarantine = async (error: unknown) => {
+    const movedTo = `${filePath}.corrupt-${Date.now()}`;
+    await rename(filePath, movedTo);
+    logger.error('Store file is corrupt; moved it aside and starting empty', { file: filePath, movedTo, error });
+  };
+
+  const load = async (): Promise<Map<string, StoredEntry<T>>> => {
+    if (cache) return cache;
+    let raw: string;
+    try {
+      raw = await readFile(filePath, 'utf8');
+    } catch (error) {
+      // Anything but a missing file (permissions, a directory in the way) fails the operation instead.
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      cache = new Map();
+      return cache;
+    }
+    try {
+      ({ entries: cache, records } = parseContents<T>(raw));
+    } catch (error) {
+      if (!(error instanceof CorruptStoreError)) throw error;
+      await quarantine(error);
+      cache = new Map();
+      records = 0;
+    }
+    return cache;
+  };
+
+  const compact = async (entries: Map<string, StoredEntry<T>>) => {
+    const now = Date.now();
+    const lines: string[] = [];
+    for (const [key, entry] of entries) {
+      if (isExpired(entry, now)) entries.delete(key);
+      else lines.push(`${JSON.stringify([key, entry])}\n`);
+    }
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tmpPath, lines.join(''), 'utf8');
+    await rename(tmpPath, filePath);
+    records = lines.length;
+  };
+
+  const persist = async (entries: Map<string, StoredEntry<T>>, record: LogRecord<T>) => {
+    if (records >= COMPACT_MIN_RECORDS && records > 2 * entries.size) {
+      await compact(entries);
+      return;
+    }
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await appendFile(filePath, `${JSON.stringify(record)}\n`, 'utf8');
+    records += 1;
+  };
+
+  const serialize = <R>(operation: () => Promise<R>): Promise<R> => {
+    const next = queue.then(operation, operation);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  const read = (entries: Map<string, StoredEntry<T>>, key: string): StoredEntry<T> | null => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (isExpired(entry, Date.now())) {
+      entries.delete(key);
+      return null;
+    }
+    return entry;
+  };
+
+  return {
+    get(key: string) {
+      return serialize(async () => read(await load(), key)?.value ?? null);
+    },
+    set(key: string, value: T, options?: StoreSetOptions) {
+      return serialize(async () => {
+        const entries = await load();
+        const entry = toStoredEntry(value, options, Date.now());
+        entries.set(key, entry);
+        await persist(entries, [key, entry]);
+      });
+    },
+    setIfAbsent(key: string, value: T, options?: StoreSetOptions) {
+      return serialize(async () => {
+        const entries = await load();
+        if (read(entries, key)) return false;
+        const entry = toStoredEntry(value, options, Date.now());
+        entries.set(key, entry);
+        await persist(entries, [key, entry]);
+        return true;
+      });
+    },
+    delete(key: string) {
+      return serialize(async () => {
+        const entries = await load();
+        const existed = read(entries, key) !== null;
+        if (!entries.delete(key)) return existed;
+        await persist(entries, [key, null]);
+        return existed;
+      });
+    },
+    entries() {
+      return serialize(async () => {
+        const entries = await load();
+        const now = Date.now();
+        const live: Array<[string, T]> = [];
+        for (const [key, entry] of entries) {
+          if (!isExpired(entry, now)) live.push([key, entry.value]);
+        }
+        return live;
+      });
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import path from 'node:path';
+import { createClient } from 'redis';
+
+import { logger } from '../observability/log';
+import { createStoreDueIndex } from './due-index';
+import { createFileStore } from './file';
+import { createMemoryStore } from './memory';
+import { createRedisDueIndex, createRedisStore, type RedisClient } from './redis';
+import type { DueIndex, KeyValueStore } from './types';
+
+export { createFileStore } from './file';
+export { createMemoryStore } from './memory';
+export type { DueIndex, KeyValueStore, StoreSetOptions } from './types';
+
+const DEFAULT_DATA_DIR = '.data';
+const REDIS_KEY_PREFIX = 'intellex-communications';
+
+export type StoreFactory = <T>(namespace: string) => KeyValueStore<T>;
+
+export type DueIndexFactory = (namespace: string) => DueIndex;
+
+type StoreEnv = Record<string, string | undefined>;
+
+// One connection per URL, shared by every store and due index.
+const redisClients = new Map<string, RedisClient>();
+
+function connectRedis(url: string): RedisClient {
+  const existing = redisClients.get(url);
+  if (existing) return existing;
+  const client: RedisClient = createClient({ url });
+  client.on('error', (error) => {
+    logger.error('Redis error', { error });
+  });
+  client.connect().catch((error) => {
+    logger.error('Redis connection failed', { error });
+  });
+  redisClients.set(url, client);
+  return client;
+}
+
+function dataDirOf(env: StoreEnv): string {
+  return path.resolve(env.DATA_DIR || DEFAULT_DATA_DIR);
+}
+
+/**
+ * Picks the persistence backend once for the whole service: Redis when `REDIS_URL`
+ * is set, otherwise JSON files under `DATA_DIR` (default `.data`).
+ */
+export function createStoreFactory(env: StoreEnv): StoreFactory {
+  if (env.REDIS_URL) {
+    const client = connectRedis(env.REDIS_URL);
+    return <T>(namespace: string) => createRedisStore<T>(client, `${REDIS_KEY_PREFIX}:${namespace}`);
+  }
+
+  const dataDir = dataDirOf(env);
+  return <T>(namespace: string) => createFileStore<T>(path.join(dataDir, `${namespace}.json`));
+}
+
+/** Due indexes on the same backend `createStoreFactory` picks for `env`. */
+export function createDueIndexFactory(env: StoreEnv): DueIndexFactory {
+  if (env.REDIS_URL) {
+    const client = connectRedis(env.REDIS_URL);
+    return (namespace) => createRedisDueIndex(client, `${REDIS_KEY_PREFIX}:${namespace}`);
+  }
+
+  const dataDir = dataDirOf(env);
+  return (namespace) => createStoreDueIndex(createFileStore<number>(path.join(dataDir, `${namespace}.json`)));
+}
+
+export function createMemoryStoreFactory(): StoreFactory {
+  return <T>() => createMemoryStore<T>();
+}
+
+export function createMemoryDueIndex(): DueIndex {
+  return createStoreDueIndex(createMemoryStore<number>());
+}
@@ -0,0 +1,46 @@
+import { isExpired, type KeyValueStore, type StoredEntry, type StoreSetOptions, toStoredEntry } from './types';
+
+export function createMemoryStore<T>(): KeyValueStore<T> {
+  const entries = new Map<string, StoredEntry<T>>();
+
+  const read = (key: string): StoredEntry<T> | null => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (isExpired(entry, Date.now())) {
+      entries.delete(key);
+      return null;
+    }
+    return entry;
+  };
+
+  return {
+    async get(key: string) {
+      return read(key)?.value ?? null;
+    },
+    async set(key: string, value: T, options?: StoreSetOptions) {
+      entries.set(key, toStoredEntry(value, options, Date.now()));
+    },
+    async setIfAbsent(key: string, value: T, options?: StoreSetOptions) {
+      if (read(key)) return false;
+      entries.set(key, toStoredEntry(value, options, Date.now()));
+      return true;
+    },
+    async delete(key: string) {
+      const existed = read(key) !== null;
+      entries.delete(key);
+      return existed;
+    },
+    async entries() {
+      const now = Date.now();
+      const live: Array<[string, T]> = [];
+      for (const [key, entry] of entries) {
+        if (isExpired(entry, now)) {
+          entries.delete(key);
+          continue;
+        }
+        live.push([key, entry.value]);
+      }
+      return live;
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import type { createClient } from 'redis';
+
+import type { DueIndex, KeyValueStore, StoreSetOptions } from './types';
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+const SCAN_BATCH_SIZE = 200;
+
+export function createRedisStore<T>(client: RedisClient, namespace: string): KeyValueStore<T> {
+  const prefix = `${namespace}:`;
+  const toRedisKey = (key: string) => `${prefix}${key}`;
+
+  return {
+    async get(key: string) {
+      const raw = await client.get(toRedisKey(key));
+      return raw === null ? null : (JSON.parse(raw) as T);
+    },
+    async set(key: string, value: T, options?: StoreSetOptions) {
+      const expiry = options?.ttlMs !== undefined ? { PX: Math.max(1, options.ttlMs) } : {};
+      await client.set(toRedisKey(key), JSON.stringify(value), expiry);
+    },
+    async setIfAbsent(key: string, value: T, options?: StoreSetOptions) {
+      const expiry = options?.ttlMs !== undefined ? { PX: Math.max(1, options.ttlMs) } : {};
+      const result = await client.set(toRedisKey(key), JSON.stringify(value), { ...expiry, NX: true });
+      return result === 'OK';
+    },
+    async delete(key: string) {
+      return (await client.del(toRedisKey(key))) > 0;
+    },
+    async entries() {
+      const keys: string[] = [];
+      for await (const key of client.scanIterator({ MATCH: `${prefix}*`, COUNT: SCAN_BATCH_SIZE })) {
+        keys.push(key);
+      }
+      if (keys.length === 0) return [];
+      const values = await client.mGet(keys);
+      const live: Array<[string, T]> = [];
+      keys.forEach((key, index) => {
+        const raw = values[index];
+        if (raw !== null) live.push([key.slice(prefix.length), JSON.parse(raw) as T]);
+      });
+      return live;
+    },
+  };
+}
+
+/** A due index in one sorted set scored by due time, so finding due keys never scans the keyspace. */
+export function createRedisDueIndex(client: RedisClient, key: string): DueIndex {
+  return {
+    async schedule(member, dueAt) {
+      await client.zAdd(key, { score: dueAt, value: member });
+    },
+    async remove(member) {
+      await client.zRem(key, member);
+    },
+    due(now, limit) {
+      return client.zRangeByScore(key, '-inf', now, { LIMIT: { offset: 0, count: limit } });
+    },
+  };
+}
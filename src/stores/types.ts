@@ -0,0 +1,42 @@
+export type StoreSetOptions = {
+  /** Entry expires this many milliseconds after it is written. */
+  ttlMs?: number;
+};
+
+/**
+ * Minimal async key/value contract shared by the memory, file and Redis backends.
+ * Values must be JSON-serializable so every backend round-trips them identically.
+ */
+export interface KeyValueStore<T> {
+  get(key: string): Promise<T | null>;
+  set(key: string, value: T, options?: StoreSetOptions): Promise<void>;
+  /** Writes only when the key is missing (or expired); returns whether it wrote. */
+  setIfAbsent(key: string, value: T, options?: StoreSetOptions): Promise<boolean>;
+  delete(key: string): Promise<boolean>;
+  entries(): Promise<Array<[string, T]>>;
+}
+
+/**
+ * Keys ordered by when they next need work, so a poller reads only what is due instead of every
+ * record it keeps. Redis holds it in a sorted set; the other backends in a store of due times.
+ */
+export interface DueIndex {
+  /** Adds `key`, or moves it to `dueAt`. */
+  schedule(key: string, dueAt: number): Promise<void>;
+  remove(key: string): Promise<void>;
+  /** Up to `limit` keys due at or before `now`, earliest first. */
+  due(now: number, limit: number): Promise<string[]>;
+}
+
+export type StoredEntry<T> = {
+  value: T;
+  expiresAt?: number;
+};
+
+export function isExpired(entry: StoredEntry<unknown>, now: number): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= now;
+}
+
+export function toStoredEntry<T>(value: T, options: StoreSetOptions | undefined, now: number): StoredEntry<T> {
+  return options?.ttlMs !== undefined ? { value, expiresAt: now + options.ttlMs } : { value };
+}
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { lstat, mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import test from 'node:test';
+
+import { buildTemplates, inlineStyles, writeTemplateFiles } from './build';
+import { readTemplateBundle } from './bundle';
+
+const CSS = ':root { color-scheme: light dark; } .text-primary { color: #18181b !important; }';
+
+test('inlineStyles copies class styles inline and leaves template actions alone', () => {
+  const html = inlineStyles('<tr><td class="text-primary" style="padding: 4px;">{{ .Name | upper }}</td></tr>', CSS);
+  assert.equal(html, '<tr><td class="text-primary" style="padding: 4px; color: #18181b;">{{ .Name | upper }}</td></tr>');
+  assert.match(inlineStyles('<html lang="en"><body></body></html>', CSS), /<html lang="en" style="color-scheme/);
+  const stylesheet = '<style>\n  .a { color: red; }\n</style>\n';
+  assert.equal(inlineStyles(stylesheet, CSS), stylesheet, 'a stylesheet partial is kept as written');
+});
+
+test('buildTemplates compiles MJML and inlines the shared stylesheet', async () => {
+  const { files, errors } = await buildTemplates(
+    new Map([
+      ['_partials/styles.html', '<style>.note { color: #52525b; }</style>'],
+      [
+        'Security/notice.mjml',
+        '<mjml lang="en"><mj-body><mj-section><mj-column><mj-text css-class="note">Hi {{ .Name }}</mj-text>' +
+          '</mj-column></mj-section></mj-body></mjml>',
+      ],
+      ['Security/notice.json', '{}'],
+    ]),
+  );
+  assert.deepEqual(errors, []);
+  assert.deepEqual([...files.keys()].sort(), ['Security/notice.html', 'Security/notice.json', '_partials/styles.html']);
+  const html = files.get('Security/notice.html') as string;
+  assert.match(html, /Hi \{\{ \.Name \}\}/);
+  assert.match(html, /<html lang="en"/);
+  assert.match(html, /class="note" style="[^"]*\bcolor: #52525b;/);
+});
+
+test('buildTemplates reports sources that cannot be compiled', async () => {
+  const { files, errors } = await buildTemplates(
+    new Map([
+      ['Security/notice.mjml', '<mjml><mj-body><mj-nope /></mj-body></mjml>'],
+      ['Security/other.mjml', '<mjml><mj-body></mj-body></mjml>'],
+      ['Security/other.html', '<p>Other</p>'],
+    ]),
+  );
+  assert.equal(errors.length, 2);
+  assert.match(errors[0], /^Security\/notice\.mjml: /);
+  assert.match(errors[1], /Security\/other\.html also exists/);
+  assert.deepEqual([...files.keys()], ['Security/other.html']);
+});
+
+test('writeTemplateFiles swaps the bundle behind a symlink and keeps only the previous release', async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'comms-build-'));
+  try {
+    const out = path.join(dir, 'templates');
+    await mkdir(path.join(out, 'Security'), { recursive: true });
+    await writeFile(path.join(out, 'Security/plain.html'), 'plain');
+    writeTemplateFiles(out, new Map([['Security/old.html', 'old']]));
+    assert.ok((await lstat(out)).isSymbolicLink(), 'a plain directory is replaced by the link');
+    writeTemplateFiles(out, new Map([['Security/older.html', 'older']]));
+    writeTemplateFiles(out, new Map([['Security/notice.html', 'new']]));
+
+    assert.equal(await readFile(path.join(out, 'Security/notice.html'), 'utf8'), 'new');
+    assert.deepEqual([...readTemplateBundle(out).files.keys()], ['Security/notice.html']);
+    const releases = (await readdir(dir)).filter((entry) => entry.startsWith('templates.release-'));
+    assert.equal(releases.length, 2, 'the current release and the one it replaced');
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,164 @@
+import juice from 'juice';
+import mjml2html from 'mjml';
+import {
+  lstatSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readlinkSync,
+  renameSync,
+  rmSync,
+  symlinkSync,
+  writeFileSync,
+} from 'node:fs';
+import path from 'node:path';
+
+const HTML_EXTENSION = '.html';
+const MJML_EXTENSION = '.mjml';
+const SHARED_PREFIX = '_';
+const STYLE_BLOCK = /<style\b[^>]*>([\s\S]*?)<\/style>/gi;
+// `:root` only makes sense for a whole document; in a partial it would match the fragment's first element.
+const ROOT_RULE = /:root\s*\{[^}]*\}/g;
+
+const JUICE_OPTIONS: juice.Options = {
+  // Clients that keep `<style>` still apply its dark-mode media queries, which only win over inline
+  // styles that are not themselves `!important`.
+  removeStyleTags: false,
+  preserveMediaQueries: true,
+  preserveImportant: false,
+  insertPreservedExtraCss: false,
+  applyWidthAttributes: false,
+  applyHeightAttributes: false,
+  applyAttributesTableElements: false,
+};
+
+export type TemplateBuildResult = {
+  files: Map<string, string>;
+  /** One message per source that could not be compiled; such sources are left out of `files`. */
+  errors: string[];
+};
+
+function isShared(file: string): boolean {
+  return file.split('/').some((segment) => segment.startsWith(SHARED_PREFIX));
+}
+
+function styleBlocks(html: string): string[] {
+  return [...html.matchAll(STYLE_BLOCK)].map((match) => match[1]);
+}
+
+/** CSS from `<style>` blocks in layouts and partials; pages pull these in through `{{ template }}` at render time. */
+function sharedCss(files: Map<string, string>): string {
+  return [...files]
+    .filter(([file]) => isShared(file) && file.endsWith(HTML_EXTENSION))
+    .flatMap(([, content]) => styleBlocks(content))
+    .join('\n');
+}
+
+/**
+ * Copies the shared stylesheet onto each element's `style` attribute, since many clients drop `<head>`
+ * styles. Template actions are left untouched.
+ */
+export function inlineStyles(html: string, css: string): string {
+  // A file that is nothing but a stylesheet, like `_partials/styles.html`, is kept as written.
+  if (!html.replace(STYLE_BLOCK, '').trim()) return html;
+  const extraCss = /<html\b/i.test(html) ? css : css.replace(ROOT_RULE, '');
+  return juice(html, { ...JUICE_OPTIONS, extraCss });
+}
+
+async function compileMjml(source: string): Promise<string> {
+  const { html, errors } = await mjml2html(source, { validationLevel: 'strict' });
+  if (errors.length > 0) {
+    throw new Error(errors.map((error) => error.formattedMessage).join('; '));
+  }
+  return html;
+}
+
+/**
+ * Turns template sources into the bundle the server renders: `.mjml` files become `.html`, HTML gets its
+ * styles inlined, and everything else (manifests, text, SMS and push bodies) is copied as is.
+ */
+export async function buildTemplates(sources: Map<string, string>): Promise<TemplateBuildResult> {
+  const files = new Map<string, string>();
+  const errors: string[] = [];
+
+  for (const [file, content] of sources) {
+    if (!file.endsWith(MJML_EXTENSION)) {
+      files.set(file, content);
+      continue;
+    }
+    const target = `${file.slice(0, -MJML_EXTENSION.length)}${HTML_EXTENSION}`;
+    if (sources.has(target)) {
+      errors.push(`${file}: ${target} also exists; keep only one source`);
+      continue;
+    }
+    try {
+      files.set(target, await compileMjml(content));
+    } catch (error) {
+      errors.push(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const css = sharedCss(files);
+  for (const [file, content] of files) {
+    if (!file.endsWith(HTML_EXTENSION)) continue;
+    try {
+      files.set(file, inlineStyles(content, css));
+    } catch (error) {
+      files.delete(file);
+      errors.push(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return { files, errors };
+}
+
+function linkedRelease(outDir: string): string | undefined {
+  try {
+    const stats = lstatSync(outDir);
+    return stats.isSymbolicLink() ? path.basename(readlinkSync(outDir)) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isPlainDirectory(dir: string): boolean {
+  try {
+    return lstatSync(dir).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Writes `files` to a new `<outDir>.release-*` directory and repoints the `outDir` symlink at it with one
+ * rename, so a server polling `outDir` always finds either the old bundle or the new one. The release
+ * being replaced is kept until the next write, for a reader still walking it; older ones are removed.
+ * An `outDir` that is still a plain directory is moved aside first, which is the only non-atomic step.
+ */
+export function writeTemplateFiles(outDir: string, files: Map<string, string>): void {
+  const parent = path.dirname(outDir);
+  const releasePrefix = `${path.basename(outDir)}.release-`;
+  mkdirSync(parent, { recursive: true });
+  const staging = mkdtempSync(path.join(parent, releasePrefix));
+  const release = path.basename(staging);
+  for (const [file, content] of files) {
+    const target = path.join(staging, file);
+    mkdirSync(path.dirname(target), { recursive: true });
+    writeFileSync(target, content);
+  }
+
+  let previous = linkedRelease(outDir);
+  if (!previous && isPlainDirectory(outDir)) {
+    previous = `${releasePrefix}plain-${Date.now()}`;
+    renameSync(outDir, path.join(parent, previous));
+  }
+  const link = `${outDir}.link-${process.pid}`;
+  rmSync(link, { force: true });
+  symlinkSync(release, link, 'dir');
+  renameSync(link, outDir);
+
+  for (const entry of readdirSync(parent)) {
+    if (entry.startsWith(releasePrefix) && entry !== release && entry !== previous) {
+      rmSync(path.join(parent, entry), { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import crypto from 'node:crypto';
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+
+const VERSION_LENGTH = 12;
+
+/** An immutable snapshot of the template directory; renders never touch the disk. */
+export type TemplateBundle = {
+  /** Content hash of every file, so identical trees share a version across hosts and restarts. */
+  version: string;
+  loadedAt: number;
+  /** Relative POSIX path → file content. */
+  files: Map<string, string>;
+};
+
+/** Short, stable hash of `[path, content]` pairs, independent of their order. */
+export function hashFiles(entries: Iterable<[string, string]>): string {
+  const hash = crypto.createHash('sha256');
+  for (const [file, content] of [...entries].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))) {
+    hash.update(file).update('\0').update(content).update('\0');
+  }
+  return hash.digest('hex').slice(0, VERSION_LENGTH);
+}
+
+export function createTemplateBundle(files: Map<string, string>, loadedAt = Date.now()): TemplateBundle {
+  return { version: hashFiles(files), loadedAt, files };
+}
+
+/** Reads every file under `dir`; dotfiles are skipped. Throws when the directory cannot be read. */
+export function readTemplateBundle(dir: string, loadedAt = Date.now()): TemplateBundle {
+  const files = new Map<string, string>();
+  const walk = (current: string) => {
+    for (const entry of readdirSync(current, { withFileTypes: true })) {
+      if (entry.name.startsWith('.')) continue;
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        walk(fullPath);
+      } else if (entry.isFile()) {
+        files.set(path.relative(dir, fullPath).replace(/\\/g, '/'), readFileSync(fullPath, 'utf8'));
+      }
+    }
+  };
+  walk(dir);
+  return createTemplateBundle(files, loadedAt);
+}
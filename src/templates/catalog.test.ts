@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import test from 'node:test';
+
+import { createMemoryStore } from '../stores';
+import { type ArchivedTemplateBundle, createTemplateCatalog, parseTemplateRef } from './catalog';
+
+async function withTemplates(run: (dir: string) => Promise<void>) {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'comms-catalog-'));
+  try {
+    await mkdir(path.join(dir, 'Security'));
+    await writeFile(path.join(dir, 'Security/notice.html'), 'Hello {{ .Name }}');
+    await writeFile(path.join(dir, 'Security/other.html'), 'Other');
+    await run(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+test('parseTemplateRef splits a pinned version off the template name', () => {
+  assert.deepEqual(parseTemplateRef('Security/notice'), { name: 'Security/notice' });
+  assert.deepEqual(parseTemplateRef('Security/notice@3F2A9C01B7DE'), {
+    name: 'Security/notice',
+    version: '3f2a9c01b7de',
+  });
+  assert.throws(() => parseTemplateRef('Security/notice@latest'), /hex bundle version/);
+});
+
+test('reload swaps in new content and keeps earlier bundles for pinned sends', async () => {
+  await withTemplates(async (dir) => {
+    const catalog = createTemplateCatalog({ dir });
+    const first = catalog.current();
+    const firstNotice = first.versions.get('Security/notice') as string;
+    assert.deepEqual(catalog.reload(), { version: first.version, changed: false });
+
+    await writeFile(path.join(dir, 'Security/notice.html'), 'Hi {{ .Name }}');
+    const { version, changed } = catalog.reload();
+    assert.equal(changed, true);
+    assert.notEqual(version, first.version);
+    assert.equal((await catalog.current().renderMessage('Security/notice', { Name: 'Ada' })).html, 'Hi Ada');
+    assert.equal(catalog.current().versions.get('Security/other'), first.versions.get('Security/other'));
+
+    const pinned = catalog.resolve('Security/notice', first.version);
+    assert.equal((await pinned?.renderMessage('Security/notice', { Name: 'Ada' }))?.html, 'Hello Ada');
+    assert.equal(catalog.resolve('Security/notice', firstNotice), pinned);
+    assert.equal(catalog.resolve('Security/missing', first.version), null);
+    assert.equal(catalog.resolve('Security/notice', 'abcdef123456'), null);
+
+    assert.equal(catalog.activate(first.version), first);
+    assert.deepEqual(catalog.reload(), { version: first.version, changed: false }, 'a rollback survives polling');
+    assert.deepEqual(
+      catalog.list().map((bundle) => [bundle.version, bundle.active]),
+      [
+        [first.version, true],
+        [version, false],
+      ],
+    );
+    assert.deepEqual(catalog.reload({ force: true }), { version, changed: true });
+  });
+});
+
+test('reload keeps the current bundle when the directory is emptied and evicts beyond retain', async () => {
+  await withTemplates(async (dir) => {
+    const catalog = createTemplateCatalog({ dir, retain: 2 });
+    const first = catalog.current();
+    await rm(path.join(dir, 'Security'), { recursive: true });
+    assert.throws(() => catalog.reload(), /No templates found/);
+    assert.equal(catalog.current(), first);
+
+    await mkdir(path.join(dir, 'Security'));
+    for (const body of ['one', 'two']) {
+      await writeFile(path.join(dir, 'Security/notice.html'), body);
+      catalog.reload();
+    }
+    assert.equal(catalog.list().length, 2);
+    assert.equal(catalog.activate(first.version), null);
+  });
+});
+
+test('a pinned version still renders after a restart through the archive', async () => {
+  await withTemplates(async (dir) => {
+    const archive = { bundles: createMemoryStore<ArchivedTemplateBundle>(), templates: createMemoryStore<string>() };
+    const catalog = createTemplateCatalog({ dir, archive });
+    const pinned = catalog.current();
+    const pinnedNotice = pinned.versions.get('Security/notice') as string;
+    await writeFile(path.join(dir, 'Security/notice.html'), 'Hi {{ .Name }}');
+    catalog.reload();
+    await catalog.archived();
+
+    const restarted = createTemplateCatalog({ dir, archive });
+    assert.equal(restarted.resolve('Security/notice', pinned.version), null);
+    for (const version of [pinned.version, pinnedNotice]) {
+      const registry = await restarted.load('Security/notice', version);
+      assert.equal((await registry?.renderMessage('Security/notice', { Name: 'Ada' }))?.html, 'Hello Ada', version);
+    }
+    assert.equal(restarted.resolve('Security/notice', pinned.version)?.version, pinned.version);
+    assert.equal(await restarted.load('Security/missing', pinned.version), null);
+    assert.equal(await restarted.load('Security/notice', 'abcdef123456'), null);
+  });
+});
@@ -0,0 +1,213 @@
+import { logger } from '../observability/log';
+import type { KeyValueStore } from '../stores';
+import { createTemplateBundle, readTemplateBundle, type TemplateBundle } from './bundle';
+import { createTemplateRegistry, normalizeTemplateName, type TemplateRegistry } from './registry';
+
+const DEFAULT_RETAIN = 10;
+const DEFAULT_ARCHIVE_RETENTION_MS = 180 * 24 * 60 * 60_000;
+const VERSION_PATTERN = /^[0-9a-f]{6,64}$/;
+
+/** A bundle as the archive keeps it; `files` is a plain object so every store backend can hold it. */
+export type ArchivedTemplateBundle = {
+  loadedAt: number;
+  archivedAt: number;
+  files: Record<string, string>;
+};
+
+/** Bundles kept by version outside the process, so pins survive restarts and reach other instances. */
+export type TemplateArchive = {
+  /** Bundle version → its files. */
+  bundles: KeyValueStore<ArchivedTemplateBundle>;
+  /** `<template>@<template version>` → the bundle version archived with it. */
+  templates: KeyValueStore<string>;
+  /** How long a bundle is kept after it was last loaded or pinned; defaults to 180 days. */
+  retentionMs?: number;
+};
+
+export type TemplateBundleSummary = {
+  version: string;
+  loadedAt: number;
+  templates: number;
+  active: boolean;
+};
+
+export type ReloadResult = {
+  version: string;
+  /** False when the current bundle was already the one on disk. */
+  changed: boolean;
+};
+
+export type TemplateCatalog = {
+  /** The registry new, unpinned sends render with. */
+  current(): TemplateRegistry;
+  /** A retained registry that contains `template` at `version`, or null once it has been evicted. */
+  resolve(template: string, version: string): TemplateRegistry | null;
+  /**
+   * `resolve`, falling back to the archive for a bundle this process does not hold, e.g. after a
+   * restart, on another instance or once it was evicted. The bundle is retained again.
+   */
+  load(template: string, version: string): Promise<TemplateRegistry | null>;
+  /**
+   * Re-reads the template directory. The new registry is fully built before it replaces the current
+   * one, so a send never sees a half-loaded bundle; an unreadable or empty directory keeps the old one.
+   * Unless `force` is set, a directory that has not changed since the last read is left alone, so
+   * periodic reloads do not undo an `activate` rollback.
+   */
+  reload(options?: { force?: boolean }): ReloadResult;
+  /** Makes a retained bundle current again, e.g. to roll back a bad deploy. */
+  activate(version: string): TemplateRegistry | null;
+  list(): TemplateBundleSummary[];
+  /** Resolves once every bundle loaded so far has been written to the archive. */
+  archived(): Promise<void>;
+};
+
+type CatalogOptions = {
+  dir: string;
+  /** Bundles kept in memory for pinned sends and rollback, including the current one. */
+  retain?: number;
+  readBundle?: (dir: string) => TemplateBundle;
+  /** Without one, a pinned version only resolves while this process still holds its bundle. */
+  archive?: TemplateArchive;
+  now?: () => number;
+};
+
+/** Splits `Authentication/magic-link@3f2a9c01b7de` into a template name and an optional pinned version. */
+export function parseTemplateRef(ref: string): { name: string; version?: string } {
+  const at = ref.lastIndexOf('@');
+  if (at === -1) return { name: ref };
+  const version = ref.slice(at + 1).trim().toLowerCase();
+  if (!VERSION_PATTERN.test(version)) {
+    throw new Error('Template version must be a hex bundle version, e.g. "magic-link@3f2a9c01b7de"');
+  }
+  return { name: ref.slice(0, at), version };
+}
+
+export function createTemplateCatalog({
+  dir,
+  retain = DEFAULT_RETAIN,
+  readBundle = readTemplateBundle,
+  archive,
+  now = Date.now,
+}: CatalogOptions): TemplateCatalog {
+  // Oldest first; the current registry is not necessarily the last one after a rollback.
+  const registries: TemplateRegistry[] = [];
+  let active: TemplateRegistry;
+  const retentionMs = archive?.retentionMs ?? DEFAULT_ARCHIVE_RETENTION_MS;
+  // Bundle version → when this process last archived it.
+  const archivedAt = new Map<string, number>();
+  let archiving: Promise<void> = Promise.resolve();
+
+  const templateCount = (registry: TemplateRegistry) =>
+    new Set([...registry.allowed, ...registry.smsAllowed, ...registry.pushAllowed]).size;
+
+  const find = (version: string) => registries.find((registry) => registry.version === version) ?? null;
+
+  const remember = (registry: TemplateRegistry) => {
+    registries.push(registry);
+    while (registries.length > Math.max(retain, 1)) {
+      const index = registries.findIndex((candidate) => candidate !== active && candidate !== registry);
+      registries.splice(index === -1 ? 0 : index, 1);
+    }
+  };
+
+  const writeArchive = async (registry: TemplateRegistry, timestamp: number) => {
+    if (!archive) return;
+    const ttl = { ttlMs: retentionMs };
+    const stored = { loadedAt: registry.loadedAt, archivedAt: timestamp, files: Object.fromEntries(registry.files) };
+    await archive.bundles.set(registry.version, stored, ttl);
+    for (const [name, version] of registry.versions) {
+      await archive.templates.set(`${name}@${version}`, registry.version, ttl);
+    }
+  };
+
+  // Writes run one after another in the background so `reload` stays synchronous; a failure is only logged.
+  const archiveBundle = (registry: TemplateRegistry, timestamp = now()) => {
+    if (!archive || templateCount(registry) === 0) return;
+    archivedAt.set(registry.version, timestamp);
+    archiving = archiving
+      .then(() => writeArchive(registry, timestamp))
+      .catch((error) => logger.error('Template bundle archive failed', { version: registry.version, error }));
+  };
+
+  // Archived again once a third of the retention has passed, so a bundle still being pinned is not dropped.
+  const keepArchived = (registry: TemplateRegistry) => {
+    const last = archivedAt.get(registry.version);
+    if (last === undefined || now() - last > retentionMs / 3) archiveBundle(registry);
+  };
+
+  const resolve = (template: string, version: string) => {
+    const name = normalizeTemplateName(template);
+    // Pins are usually a whole-bundle version, but a per-template version survives unrelated edits.
+    const registry =
+      find(version) ?? [...registries].reverse().find((candidate) => candidate.versions.get(name) === version);
+    return registry && registry.versions.has(name) ? registry : null;
+  };
+
+  const loadArchived = async (name: string, version: string): Promise<TemplateRegistry | null> => {
+    if (!archive) return null;
+    let bundleVersion = version;
+    let stored = await archive.bundles.get(version);
+    if (!stored) {
+      bundleVersion = (await archive.templates.get(`${name}@${version}`)) ?? '';
+      stored = bundleVersion ? await archive.bundles.get(bundleVersion) : null;
+    }
+    if (!stored) return null;
+    // Another load may have brought the same bundle back while this one waited on the store.
+    const known = find(bundleVersion);
+    if (known) return known;
+    const bundle = createTemplateBundle(new Map(Object.entries(stored.files)), stored.loadedAt);
+    const registry = createTemplateRegistry(dir, bundle);
+    archivedAt.set(registry.version, stored.archivedAt);
+    remember(registry);
+    return registry;
+  };
+
+  active = createTemplateRegistry(dir);
+  registries.push(active);
+  archiveBundle(active);
+  let lastRead = active.version;
+
+  return {
+    current: () => active,
+    resolve,
+    async load(template, version) {
+      const name = normalizeTemplateName(template);
+      const registry = resolve(name, version) ?? (await loadArchived(name, version));
+      if (!registry || !registry.versions.has(name)) return null;
+      keepArchived(registry);
+      return registry;
+    },
+    reload({ force = false } = {}) {
+      const bundle = readBundle(dir);
+      if (bundle.version === lastRead && !force) return { version: active.version, changed: false };
+      lastRead = bundle.version;
+      const known = find(bundle.version);
+      if (known) {
+        const changed = known !== active;
+        active = known;
+        return { version: known.version, changed };
+      }
+      const registry = createTemplateRegistry(dir, bundle);
+      if (templateCount(registry) === 0) {
+        throw new Error(`No templates found under ${dir}; keeping bundle ${active.version}`);
+      }
+      remember(registry);
+      active = registry;
+      archiveBundle(registry);
+      return { version: registry.version, changed: true };
+    },
+    activate(version) {
+      const registry = find(version.toLowerCase());
+      if (registry) active = registry;
+      return registry;
+    },
+    list: () =>
+      registries.map((registry) => ({
+        version: registry.version,
+        loadedAt: registry.loadedAt,
+        templates: templateCount(registry),
+        active: registry === active,
+      })),
+    archived: () => archiving,
+  };
+}
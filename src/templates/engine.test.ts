@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { parseTemplate, referencedDataKeys, renderParsed, renderString, TemplateError } from './engine';
+
+test('renderString resolves nested paths and escapes HTML text', () => {
+  const output = renderString('<p>Hi {{ .User.Name }}</p>', { User: { Name: '<b>Ada</b> & co' } });
+  assert.equal(output, '<p>Hi &lt;b&gt;Ada&lt;/b&gt; &amp; co</p>');
+});
+
+test('renderString renders missing values as empty and reports them', () => {
+  const missing: string[] = [];
+  const output = renderString('[{{ .Missing }}][{{ .User.Email }}]', { User: {} }, {
+    onMissing: (path) => missing.push(path),
+  });
+  assert.equal(output, '[][]');
+  assert.deepEqual(missing, ['.Missing', '.User.Email']);
+});
+
+test('renderString supports if / else if / else', () => {
+  const source = '{{ if eq .Plan "pro" }}Pro{{ else if .Trial }}Trial{{ else }}Free{{ end }}';
+  assert.equal(renderString(source, { Plan: 'pro' }), 'Pro');
+  assert.equal(renderString(source, { Plan: 'free', Trial: true }), 'Trial');
+  assert.equal(renderString(source, { Plan: 'free' }), 'Free');
+});
+
+test('renderString supports range with variables and else', () => {
+  const source = '{{ range $i, $item := .Items }}{{ $i }}:{{ $item.Title }}({{ $.Project }}) {{ else }}none{{ end }}';
+  assert.equal(
+    renderString(source, { Project: 'X', Items: [{ Title: 'a' }, { Title: 'b' }] }),
+    '0:a(X) 1:b(X) ',
+  );
+  assert.equal(renderString(source, { Items: [] }), 'none');
+  assert.equal(renderString('{{ range .Tags }}[{{ . }}]{{ end }}', { Tags: ['x', 'y'] }), '[x][y]');
+});
+
+test('renderString supports with, pipelines and trim markers', () => {
+  const source = '{{- with .User -}}\n  {{ .Name | upper }}\n{{- end }} {{ .Missing | default "n/a" }}';
+  assert.equal(renderString(source, { User: { Name: 'ada' } }), 'ADA n/a');
+});
+
+test('renderString escapes by context', () => {
+  const data = {
+    Url: 'https://example.com/?a=1&b=2',
+    Evil: 'javascript:alert(1)',
+    Title: '"quoted"',
+    Query: 'a b&c',
+  };
+  assert.equal(renderString('<a href="{{ .Url }}">x</a>', data), '<a href="https://example.com/?a=1&amp;b=2">x</a>');
+  assert.equal(renderString('<a href="{{ .Evil }}">x</a>', data), '<a href="#ZgotmplZ">x</a>');
+  for (const Evil of ['java\nscript:alert(1)', 'java\tscript:alert(1)', '\u0001javascript:alert(1)']) {
+    const rendered = renderString('<a href="{{ .Evil }}">x</a>', { Evil });
+    assert.equal(rendered, '<a href="#ZgotmplZ">x</a>', JSON.stringify(Evil));
+  }
+  assert.equal(renderString('<a href="{{ .Url }}">x</a>', { Url: '/path?next=a:b' }), '<a href="/path?next=a:b">x</a>');
+  assert.equal(renderString('<a href="/search?q={{ .Query }}">x</a>', data), '<a href="/search?q=a%20b%26c">x</a>');
+  assert.equal(renderString('<img alt="{{ .Title }}">', data), '<img alt="&#34;quoted&#34;">');
+  assert.equal(renderString('<script>var t = {{ .Title }};</script>', data), '<script>var t = "\\"quoted\\"";</script>');
+  assert.equal(renderString('<!-- {{ .Title }} -->', data), '<!--  -->');
+});
+
+test('renderString allows explicit raw and safeURL output', () => {
+  assert.equal(renderString('{{ .Html | raw }}', { Html: '<b>ok</b>' }), '<b>ok</b>');
+  assert.equal(renderString('<a href="{{ .Url | safeURL }}">x</a>', { Url: 'intellex://open' }), '<a href="intellex://open">x</a>');
+});
+
+test('renderString in text mode does not escape', () => {
+  assert.equal(renderString('Hi {{ .Name }}', { Name: 'A & B <c>' }, { mode: 'text' }), 'Hi A & B <c>');
+});
+
+test('renderParsed resolves layouts, partials and block defaults', () => {
+  const layout = parseTemplate(
+    '_layouts/base',
+    '<title>{{ block "title" . }}Intellex{{ end }}</title><main>{{ template "content" . }}</main>{{ template "_partials/footer" . }}',
+  );
+  const footer = parseTemplate('_partials/footer', '<footer>{{ .Year }}</footer>');
+  const page = parseTemplate(
+    'Authentication/magic-link',
+    '{{ define "title" }}Sign in{{ end }}{{ define "content" }}<a href="{{ .ConfirmationURL }}">Go</a>{{ end }}{{ template "_layouts/base" . }}',
+  );
+  const output = renderParsed(page, [layout, footer], { ConfirmationURL: 'https://x.test/?t=1&r=2', Year: 2025 });
+  assert.equal(
+    output,
+    '<title>Sign in</title><main><a href="https://x.test/?t=1&amp;r=2">Go</a></main><footer>2025</footer>',
+  );
+});
+
+test('parseTemplate reports syntax errors', () => {
+  assert.throws(() => parseTemplate('bad', '{{ if .X }}open'), TemplateError);
+  assert.throws(() => parseTemplate('bad', '{{ end }}'), TemplateError);
+  assert.throws(() => parseTemplate('bad', '{{ .X | nosuchfn }}'), /not defined/);
+  assert.throws(() => renderString('{{ template "missing" . }}', {}), /no such template/);
+});
+
+test('referencedDataKeys lists root-level lookups only', () => {
+  const parsed = parseTemplate(
+    'keys',
+    '{{ define "x" }}{{ .Inner }}{{ end }}{{ .A.B }}{{ if .Flag }}{{ upper .Name }}{{ end }}' +
+      '{{ range .Items }}{{ .Label }}{{ $.Footer }}{{ end }}{{ with .User }}{{ .Email }}{{ end }}',
+  );
+  assert.deepEqual([...referencedDataKeys(parsed)].sort(), ['A', 'Flag', 'Footer', 'Inner', 'Items', 'Name', 'User']);
+});
+
+test('locale helpers format dates and numbers for the render locale', () => {
+  const data = { At: '2024-03-05T12:30:00Z', Count: 1234567.891, Price: 19.5 };
+  const source = '{{ formatDate "long" .At }}|{{ formatNumber .Count }}|{{ .Count | formatNumber 1 }}|{{ formatCurrency "EUR" .Price }}';
+  assert.equal(renderString(source, data, { mode: 'text' }), 'March 5, 2024|1,234,567.891|1,234,567.9|€19.50');
+  assert.equal(
+    renderString(source, data, { mode: 'text', locale: 'pt-BR' }),
+    '5 de março de 2024|1.234.567,891|1.234.567,9|€ 19,50',
+  );
+  assert.equal(renderString('{{ formatDate .At }}', { At: 'soon' }, { mode: 'text' }), 'soon');
+});
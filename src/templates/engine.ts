@@ -0,0 +1,825 @@
+import {
+  contextFor,
+  type EscapeContext,
+  escapeForContext,
+  initialScanState,
+  type ScanState,
+  scanText,
+  stringify,
+  TrustedValue,
+} from './escape';
+import { DEFAULT_LOCALE } from './locale';
+
+/**
+ * A Go text/template-flavoured renderer covering what our Supabase-derived templates
+ * need: `{{ .Path }}` lookups, `if`/`else if`/`else`, `range` (with optional
+ * `$i, $v :=`), `with`, `define`/`template`/`block` partials, pipelines with a small
+ * function set, `{{- -}}` trimming and comment actions. In HTML mode every
+ * output is escaped for the context it appears in; `raw` and `safeURL` opt out.
+ */
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+type Arg =
+  | { type: 'field'; root: 'dot' | 'var'; variable?: string; path: string[] }
+  | { type: 'literal'; value: unknown }
+  | { type: 'pipeline'; pipeline: Pipeline };
+
+type Command = { fn?: string; args: Arg[] };
+
+type Pipeline = { commands: Command[]; declare?: string[] };
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'output'; pipeline: Pipeline; context: EscapeContext; position: string }
+  | { type: 'if'; branches: Array<{ condition: Pipeline; body: Node[] }>; elseBody?: Node[] }
+  | { type: 'range'; pipeline: Pipeline; body: Node[]; elseBody?: Node[] }
+  | { type: 'with'; pipeline: Pipeline; body: Node[]; elseBody?: Node[] }
+  | { type: 'template'; name: string; pipeline?: Pipeline; position: string };
+
+export type ParsedTemplate = {
+  name: string;
+  root: Node[];
+  defines: Map<string, Node[]>;
+};
+
+export type RenderMode = 'html' | 'text';
+
+export type RenderOptions = {
+  mode?: RenderMode;
+  /** BCP 47 tag used by `formatDate`, `formatNumber` and friends; defaults to `en`. */
+  locale?: string;
+  /** Called for each field lookup that resolves to nothing, e.g. `.ConfirmationURL`. */
+  onMissing?: (path: string) => void;
+};
+
+type TemplateFunction = (...args: unknown[]) => unknown;
+
+const MAX_TEMPLATE_DEPTH = 20;
+
+// ---------------------------------------------------------------------------
+// Lexing
+
+type Segment = { kind: 'text'; value: string } | { kind: 'action'; value: string; line: number };
+
+function splitSegments(name: string, source: string): Segment[] {
+  const segments: Segment[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const open = source.indexOf('{{', index);
+    if (open === -1) {
+      segments.push({ kind: 'text', value: source.slice(index) });
+      break;
+    }
+    let text = source.slice(index, open);
+    let start = open + 2;
+    if (source[start] === '-' && /\s/.test(source[start + 1] ?? '')) {
+      text = text.replace(/\s+$/, '');
+      start += 1;
+    }
+    if (text) segments.push({ kind: 'text', value: text });
+
+    const line = source.slice(0, open).split('\n').length;
+    let close: number;
+    if (source.slice(start).trimStart().startsWith('/*')) {
+      const commentEnd = source.indexOf('*/', start);
+      if (commentEnd === -1) throw new TemplateError(`${name}:${line}: unclosed comment`);
+      close = source.indexOf('}}', commentEnd);
+    } else {
+      close = findActionEnd(source, start);
+    }
+    if (close === -1) throw new TemplateError(`${name}:${line}: unclosed action`);
+
+    let body = source.slice(start, close);
+    let next = close + 2;
+    if (body.endsWith('-') && /\s/.test(body[body.length - 2] ?? '')) {
+      body = body.slice(0, -1);
+      const rest = source.slice(next);
+      next += rest.length - rest.replace(/^\s+/, '').length;
+    }
+    const trimmed = body.trim();
+    if (!trimmed.startsWith('/*')) {
+      segments.push({ kind: 'action', value: trimmed, line });
+    }
+    index = next;
+  }
+  return segments;
+}
+
+function findActionEnd(source: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start; i < source.length; i += 1) {
+    const char = source[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i += 1;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '}' && source[i + 1] === '}') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+type Token =
+  | { type: 'field'; value: string }
+  | { type: 'variable'; value: string }
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'ident'; value: string }
+  | { type: 'punct'; value: '|' | '(' | ')' | ':=' | ',' };
+
+function tokenize(action: string, where: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < action.length) {
+    const char = action[i];
+    if (/\s/.test(char)) {
+      i += 1;
+      continue;
+    }
+    if (char === '|' || char === '(' || char === ')' || char === ',') {
+      tokens.push({ type: 'punct', value: char });
+      i += 1;
+      continue;
+    }
+    if (char === ':' && action[i + 1] === '=') {
+      tokens.push({ type: 'punct', value: ':=' });
+      i += 2;
+      continue;
+    }
+    if (char === '"') {
+      let value = '';
+      i += 1;
+      while (i < action.length && action[i] !== '"') {
+        if (action[i] === '\\') {
+          const escaped = action[i + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          i += 2;
+        } else {
+          value += action[i];
+          i += 1;
+        }
+      }
+      if (action[i] !== '"') throw new TemplateError(`${where}: unterminated string`);
+      tokens.push({ type: 'string', value });
+      i += 1;
+      continue;
+    }
+    if (char === '`') {
+      const end = action.indexOf('`', i + 1);
+      if (end === -1) throw new TemplateError(`${where}: unterminated raw string`);
+      tokens.push({ type: 'string', value: action.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+    const word = action.slice(i).match(/^[^\s|(),]+/)?.[0] ?? char;
+    i += word.length;
+    if (word.startsWith('.')) {
+      tokens.push({ type: 'field', value: word });
+    } else if (word.startsWith('$')) {
+      tokens.push({ type: 'variable', value: word });
+    } else if (/^-?\d+(\.\d+)?$/.test(word)) {
+      tokens.push({ type: 'number', value: Number(word) });
+    } else if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(word)) {
+      tokens.push({ type: 'ident', value: word });
+    } else {
+      throw new TemplateError(`${where}: unexpected "${word}"`);
+    }
+  }
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+
+function parseFieldPath(raw: string, where: string): string[] {
+  if (raw === '.') return [];
+  const parts = raw.slice(1).split('.');
+  if (parts.some((part) => !/^[A-Za-z0-9_]+$/.test(part))) {
+    throw new TemplateError(`${where}: invalid field "${raw}"`);
+  }
+  return parts;
+}
+
+function parseVariable(raw: string, where: string): Arg {
+  const [variable, ...rest] = raw.split('.');
+  if (!/^\$[A-Za-z0-9_]*$/.test(variable)) {
+    throw new TemplateError(`${where}: invalid variable "${raw}"`);
+  }
+  if (rest.some((part) => !/^[A-Za-z0-9_]+$/.test(part))) {
+    throw new TemplateError(`${where}: invalid field "${raw}"`);
+  }
+  return { type: 'field', root: 'var', variable, path: rest };
+}
+
+class PipelineParser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly where: string,
+    private readonly functions: Record<string, TemplateFunction>,
+  ) {}
+
+  parse(allowDeclare: boolean): Pipeline {
+    let declare: string[] | undefined;
+    if (allowDeclare) declare = this.parseDeclaration();
+    const pipeline = this.parsePipeline();
+    if (this.index < this.tokens.length) {
+      throw new TemplateError(`${this.where}: unexpected token after pipeline`);
+    }
+    return declare ? { ...pipeline, declare } : pipeline;
+  }
+
+  private parseDeclaration(): string[] | undefined {
+    const names: string[] = [];
+    let cursor = 0;
+    while (this.tokens[cursor]?.type === 'variable') {
+      names.push(this.tokens[cursor].value as string);
+      cursor += 1;
+      const next = this.tokens[cursor];
+      if (next?.type === 'punct' && next.value === ',') {
+        cursor += 1;
+        continue;
+      }
+      if (next?.type === 'punct' && next.value === ':=') {
+        this.index = cursor + 1;
+        if (names.length > 2) throw new TemplateError(`${this.where}: too many declared variables`);
+        return names;
+      }
+      break;
+    }
+    return undefined;
+  }
+
+  private parsePipeline(): Pipeline {
+    const commands: Command[] = [this.parseCommand()];
+    while (this.peekPunct('|')) {
+      this.index += 1;
+      const command = this.parseCommand();
+      if (!command.fn) throw new TemplateError(`${this.where}: pipeline stage must be a function`);
+      commands.push(command);
+    }
+    return { commands };
+  }
+
+  private parseCommand(): Command {
+    const first = this.tokens[this.index];
+    if (!first) throw new TemplateError(`${this.where}: missing value`);
+    if (first.type === 'ident' && !['true', 'false', 'nil'].includes(first.value)) {
+      if (!this.functions[first.value]) {
+        throw new TemplateError(`${this.where}: function "${first.value}" not defined`);
+      }
+      this.index += 1;
+      const args: Arg[] = [];
+      while (this.index < this.tokens.length && !this.peekPunct('|') && !this.peekPunct(')')) {
+        args.push(this.parseArg());
+      }
+      return { fn: first.value, args };
+    }
+    const arg = this.parseArg();
+    if (this.index < this.tokens.length && !this.peekPunct('|') && !this.peekPunct(')')) {
+      throw new TemplateError(`${this.where}: can't give argument to non-function`);
+    }
+    return { args: [arg] };
+  }
+
+  private parseArg(): Arg {
+    const token = this.tokens[this.index];
+    this.index += 1;
+    switch (token?.type) {
+      case 'field':
+        return { type: 'field', root: 'dot', path: parseFieldPath(token.value, this.where) };
+      case 'variable':
+        return parseVariable(token.value, this.where);
+      case 'string':
+      case 'number':
+        return { type: 'literal', value: token.value };
+      case 'ident':
+        if (token.value === 'true') return { type: 'literal', value: true };
+        if (token.value === 'false') return { type: 'literal', value: false };
+        if (token.value === 'nil') return { type: 'literal', value: null };
+        if (this.functions[token.value]) {
+          return { type: 'pipeline', pipeline: { commands: [{ fn: token.value, args: [] }] } };
+        }
+        throw new TemplateError(`${this.where}: function "${token.value}" not defined`);
+      case 'punct':
+        if (token.value === '(') {
+          const pipeline = this.parsePipeline();
+          if (!this.peekPunct(')')) throw new TemplateError(`${this.where}: unclosed "("`);
+          this.index += 1;
+          return { type: 'pipeline', pipeline };
+        }
+        throw new TemplateError(`${this.where}: unexpected "${token.value}"`);
+      default:
+        throw new TemplateError(`${this.where}: missing value`);
+    }
+  }
+
+  private peekPunct(value: string): boolean {
+    const token = this.tokens[this.index];
+    return token?.type === 'punct' && token.value === value;
+  }
+}
+
+type Frame = { keyword: 'root' | 'if' | 'range' | 'with' | 'define' | 'block'; line: number };
+
+export function parseTemplate(
+  name: string,
+  source: string,
+  functions: Record<string, TemplateFunction> = DEFAULT_FUNCTIONS,
+): ParsedTemplate {
+  const segments = splitSegments(name, source);
+  const defines = new Map<string, Node[]>();
+  let cursor = 0;
+
+  const parsePipelineText = (text: string, line: number, allowDeclare = false): Pipeline => {
+    const where = `${name}:${line}`;
+    return new PipelineParser(tokenize(text, where), where, functions).parse(allowDeclare);
+  };
+
+  const parseName = (text: string, line: number): { templateName: string; rest: string } => {
+    const match = text.match(/^"([^"]+)"\s*(.*)$/s) ?? text.match(/^`([^`]+)`\s*(.*)$/s);
+    if (!match) throw new TemplateError(`${name}:${line}: expected quoted template name`);
+    return { templateName: match[1], rest: match[2].trim() };
+  };
+
+  // Parses nodes until a closing `end`/`else`; returns the keyword that stopped it.
+  const parseList = (frame: Frame): { nodes: Node[]; stop: string; stopText: string; line: number } => {
+    const nodes: Node[] = [];
+    while (cursor < segments.length) {
+      const segment = segments[cursor];
+      cursor += 1;
+      if (segment.kind === 'text') {
+        nodes.push({ type: 'text', value: segment.value });
+        continue;
+      }
+      const { value, line } = segment;
+      const keyword = value.match(/^([a-z]+)\b/)?.[1] ?? '';
+      const rest = value.slice(keyword.length).trim();
+
+      if (keyword === 'end' || keyword === 'else') {
+        if (frame.keyword === 'root') {
+          throw new TemplateError(`${name}:${line}: unexpected {{ ${keyword} }}`);
+        }
+        return { nodes, stop: keyword, stopText: rest, line };
+      }
+      if (keyword === 'if') {
+        nodes.push(parseIf(rest, line));
+      } else if (keyword === 'range' || keyword === 'with') {
+        const pipeline = parsePipelineText(rest, line, keyword === 'range');
+        const body = parseList({ keyword, line });
+        let elseBody: Node[] | undefined;
+        if (body.stop === 'else') {
+          const elseList = parseList({ keyword, line });
+          if (elseList.stop !== 'end') throw new TemplateError(`${name}:${elseList.line}: expected {{ end }}`);
+          elseBody = elseList.nodes;
+        }
+        nodes.push({ type: keyword, pipeline, body: body.nodes, elseBody });
+      } else if (keyword === 'define' || keyword === 'block') {
+        const { templateName, rest: pipelineText } = parseName(rest, line);
+        const body = parseList({ keyword, line });
+        if (body.stop !== 'end') throw new TemplateError(`${name}:${body.line}: expected {{ end }}`);
+        if (keyword === 'define' && pipelineText) {
+          throw new TemplateError(`${name}:${line}: define takes only a name`);
+        }
+        defines.set(templateName, body.nodes);
+        if (keyword === 'block') {
+          nodes.push({
+            type: 'template',
+            name: templateName,
+            pipeline: pipelineText ? parsePipelineText(pipelineText, line) : undefined,
+            position: `${name}:${line}`,
+          });
+        }
+      } else if (keyword === 'template') {
+        const { templateName, rest: pipelineText } = parseName(rest, line);
+        nodes.push({
+          type: 'template',
+          name: templateName,
+          pipeline: pipelineText ? parsePipelineText(pipelineText, line) : undefined,
+          position: `${name}:${line}`,
+        });
+      } else {
+        nodes.push({
+          type: 'output',
+          pipeline: parsePipelineText(value, line, true),
+          context: { kind: 'text' },
+          position: `${name}:${line}`,
+        });
+      }
+    }
+    if (frame.keyword !== 'root') {
+      throw new TemplateError(`${name}:${frame.line}: missing {{ end }} for {{ ${frame.keyword} }}`);
+    }
+    return { nodes, stop: 'eof', stopText: '', line: 0 };
+  };
+
+  const parseIf = (conditionText: string, line: number): Node => {
+    const branches: Array<{ condition: Pipeline; body: Node[] }> = [];
+    let condition = parsePipelineText(conditionText, line);
+    for (;;) {
+      const body = parseList({ keyword: 'if', line });
+      branches.push({ condition, body: body.nodes });
+      if (body.stop === 'end') return { type: 'if', branches };
+      if (body.stopText.startsWith('if ')) {
+        condition = parsePipelineText(body.stopText.slice(3), body.line);
+        continue;
+      }
+      const elseList = parseList({ keyword: 'if', line });
+      if (elseList.stop !== 'end') throw new TemplateError(`${name}:${elseList.line}: expected {{ end }}`);
+      return { type: 'if', branches, elseBody: elseList.nodes };
+    }
+  };
+
+  const root = parseList({ keyword: 'root', line: 0 }).nodes;
+  annotateContexts(root, initialScanState());
+  for (const body of defines.values()) {
+    annotateContexts(body, initialScanState());
+  }
+  return { name, root, defines };
+}
+
+// Walks nodes in document order and records the HTML context of every output action.
+// Branches are assumed to leave the context where they found it, as Go's escaper requires.
+function annotateContexts(nodes: Node[], start: ScanState): ScanState {
+  let state = start;
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        state = scanText(state, node.value);
+        break;
+      case 'output':
+        node.context = contextFor(state);
+        // Output inside a URL attribute means later actions are no longer at its start.
+        if (state.mode === 'attrValue') state = { ...state, valueLength: state.valueLength + 1 };
+        break;
+      case 'if': {
+        let after = state;
+        node.branches.forEach((branch, index) => {
+          const end = annotateContexts(branch.body, state);
+          if (index === 0) after = end;
+        });
+        if (node.elseBody) annotateContexts(node.elseBody, state);
+        state = after;
+        break;
+      }
+      case 'range':
+      case 'with': {
+        const after = annotateContexts(node.body, state);
+        if (node.elseBody) annotateContexts(node.elseBody, state);
+        state = after;
+        break;
+      }
+      default:
+        break;
+    }
+  }
+  return state;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+
+function isTruthy(value: unknown): boolean {
+  if (value === undefined || value === null || value === false || value === 0 || value === '') return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (value instanceof TrustedValue) return value.value.length > 0;
+  if (typeof value === 'object') return Object.keys(value as object).length > 0;
+  return true;
+}
+
+function lookupPath(base: unknown, path: string[]): unknown {
+  let current = base;
+  for (const part of path) {
+    if (current === undefined || current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return stringify(a).localeCompare(stringify(b));
+}
+
+const DATE_STYLES = new Set(['short', 'medium', 'long', 'full']);
+
+function toDate(value: unknown): Date | null {
+  if (typeof value !== 'number' && typeof value !== 'string') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Formatting helpers bound to one locale. Each takes the value last so it can be piped
+ * (`{{ .ChangedAt | formatDate "long" }}`); values that do not parse are printed as-is.
+ * Dates are shown in UTC, since templates do not know the recipient's time zone.
+ */
+function localeFunctions(locale: string): Record<string, TemplateFunction> {
+  const formatDate = (options: Intl.DateTimeFormatOptions) => (...args: unknown[]) => {
+    const value = args[args.length - 1];
+    const style = args.length > 1 ? stringify(args[0]) : 'medium';
+    const date = toDate(value);
+    if (!date || !DATE_STYLES.has(style)) return stringify(value);
+    const dateStyle = style as Intl.DateTimeFormatOptions['dateStyle'];
+    return new Intl.DateTimeFormat(locale, { ...options, dateStyle, timeZone: 'UTC' }).format(date);
+  };
+  return {
+    formatDate: formatDate({}),
+    formatDateTime: formatDate({ timeStyle: 'long' }),
+    formatNumber: (...args) => {
+      const value = args[args.length - 1];
+      const number = toNumber(value);
+      if (number === null) return stringify(value);
+      const digits = args.length > 1 ? toNumber(args[0]) : null;
+      const fractionDigits = digits === null ? {} : { minimumFractionDigits: digits, maximumFractionDigits: digits };
+      return new Intl.NumberFormat(locale, fractionDigits).format(number);
+    },
+    formatCurrency: (currency, value) => {
+      const number = toNumber(value);
+      if (number === null) return stringify(value);
+      try {
+        return new Intl.NumberFormat(locale, { style: 'currency', currency: stringify(currency) }).format(number);
+      } catch {
+        return `${stringify(currency)} ${new Intl.NumberFormat(locale).format(number)}`;
+      }
+    },
+  };
+}
+
+export const DEFAULT_FUNCTIONS: Record<string, TemplateFunction> = {
+  raw: (value) => new TrustedValue('html', stringify(value)),
+  safeURL: (value) => new TrustedValue('url', stringify(value)),
+  eq: (a, ...rest) => rest.some((b) => stringify(a) === stringify(b) && typeof a === typeof b),
+  ne: (a, b) => !(stringify(a) === stringify(b) && typeof a === typeof b),
+  lt: (a, b) => compare(a, b) < 0,
+  le: (a, b) => compare(a, b) <= 0,
+  gt: (a, b) => compare(a, b) > 0,
+  ge: (a, b) => compare(a, b) >= 0,
+  not: (value) => !isTruthy(value),
+  and: (...values) => values.find((value) => !isTruthy(value)) ?? values[values.length - 1],
+  or: (...values) => values.find((value) => isTruthy(value)) ?? values[values.length - 1],
+  len: (value) => {
+    if (Array.isArray(value) || typeof value === 'string') return value.length;
+    if (value && typeof value === 'object') return Object.keys(value).length;
+    return 0;
+  },
+  index: (value, ...keys) => lookupPath(value, keys.map((key) => stringify(key))),
+  default: (fallback, value) => (isTruthy(value) ? value : fallback),
+  upper: (value) => stringify(value).toUpperCase(),
+  lower: (value) => stringify(value).toLowerCase(),
+  trim: (value) => stringify(value).trim(),
+  join: (separator, value) => (Array.isArray(value) ? value.map(stringify).join(stringify(separator)) : stringify(value)),
+  urlquery: (...values) => encodeURIComponent(values.map(stringify).join('')),
+  ...localeFunctions(DEFAULT_LOCALE),
+};
+
+type Scope = {
+  dot: unknown;
+  root: unknown;
+  variables: Map<string, unknown>;
+};
+
+type RenderContext = {
+  templates: Map<string, Node[]>;
+  functions: Record<string, TemplateFunction>;
+  mode: RenderMode;
+  onMissing?: (path: string) => void;
+  depth: number;
+};
+
+function evalArg(arg: Arg, scope: Scope, ctx: RenderContext): unknown {
+  if (arg.type === 'literal') return arg.value;
+  if (arg.type === 'pipeline') return evalPipeline(arg.pipeline, scope, ctx);
+  let base: unknown;
+  let label: string;
+  if (arg.root === 'dot') {
+    base = scope.dot;
+    label = `.${arg.path.join('.')}`;
+  } else {
+    const variable = arg.variable ?? '$';
+    base = variable === '$' ? scope.root : scope.variables.get(variable);
+    label = [variable, ...arg.path].join('.');
+  }
+  const value = lookupPath(base, arg.path);
+  if ((value === undefined || value === null) && arg.path.length > 0) {
+    ctx.onMissing?.(label);
+  }
+  return value;
+}
+
+function evalPipeline(pipeline: Pipeline, scope: Scope, ctx: RenderContext): unknown {
+  let value: unknown;
+  pipeline.commands.forEach((command, index) => {
+    const args = command.args.map((arg) => evalArg(arg, scope, ctx));
+    if (!command.fn) {
+      value = args[0];
+      return;
+    }
+    if (index > 0) args.push(value);
+    value = ctx.functions[command.fn](...args);
+  });
+  return value;
+}
+
+function iterate(value: unknown): Array<[unknown, unknown]> {
+  if (Array.isArray(value)) return value.map((item, index) => [index, item]);
+  if (value && typeof value === 'object' && !(value instanceof TrustedValue)) {
+    return Object.keys(value)
+      .sort()
+      .map((key) => [key, (value as Record<string, unknown>)[key]]);
+  }
+  return [];
+}
+
+function renderNodes(nodes: Node[], scope: Scope, ctx: RenderContext): string {
+  let out = '';
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        out += node.value;
+        break;
+      case 'output': {
+        const value = evalPipeline(node.pipeline, scope, ctx);
+        if (node.pipeline.declare) {
+          scope.variables.set(node.pipeline.declare[0], value);
+          break;
+        }
+        out += ctx.mode === 'html' ? escapeForContext(value, node.context) : stringify(value);
+        break;
+      }
+      case 'if': {
+        const branch = node.branches.find((candidate) => isTruthy(evalPipeline(candidate.condition, scope, ctx)));
+        if (branch) {
+          out += renderNodes(branch.body, scope, ctx);
+        } else if (node.elseBody) {
+          out += renderNodes(node.elseBody, scope, ctx);
+        }
+        break;
+      }
+      case 'with': {
+        const value = evalPipeline(node.pipeline, scope, ctx);
+        if (isTruthy(value)) {
+          out += renderNodes(node.body, { ...scope, dot: value }, ctx);
+        } else if (node.elseBody) {
+          out += renderNodes(node.elseBody, scope, ctx);
+        }
+        break;
+      }
+      case 'range': {
+        const items = iterate(evalPipeline(node.pipeline, scope, ctx));
+        if (items.length === 0) {
+          if (node.elseBody) out += renderNodes(node.elseBody, scope, ctx);
+          break;
+        }
+        const declared = node.pipeline.declare ?? [];
+        for (const [key, item] of items) {
+          const variables = new Map(scope.variables);
+          if (declared.length === 1) variables.set(declared[0], item);
+          if (declared.length === 2) {
+            variables.set(declared[0], key);
+            variables.set(declared[1], item);
+          }
+          out += renderNodes(node.body, { ...scope, dot: item, variables }, ctx);
+        }
+        break;
+      }
+      case 'template': {
+        const body = ctx.templates.get(node.name);
+        if (!body) throw new TemplateError(`${node.position}: no such template "${node.name}"`);
+        if (ctx.depth >= MAX_TEMPLATE_DEPTH) {
+          throw new TemplateError(`${node.position}: template nesting too deep`);
+        }
+        const dot = node.pipeline ? evalPipeline(node.pipeline, scope, ctx) : undefined;
+        out += renderNodes(
+          body,
+          { dot, root: dot, variables: new Map() },
+          { ...ctx, depth: ctx.depth + 1 },
+        );
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Renders `entry` with every template in `set` available to `{{ template }}`: each
+ * parsed file is addressable by its own name, plus everything it `define`s.
+ * Later entries in `set` win on duplicate names, so the entry's own defines
+ * should come last to override layout defaults from `block`.
+ */
+export function renderParsed(
+  entry: ParsedTemplate,
+  set: ParsedTemplate[],
+  data: unknown,
+  options: RenderOptions = {},
+  functions: Record<string, TemplateFunction> = DEFAULT_FUNCTIONS,
+): string {
+  const templates = new Map<string, Node[]>();
+  for (const template of [...set, entry]) {
+    templates.set(template.name, template.root);
+  }
+  const bound = options.locale ? { ...functions, ...localeFunctions(options.locale) } : functions;
+  for (const template of [...set, entry]) {
+    for (const [name, body] of template.defines) templates.set(name, body);
+  }
+  return renderNodes(
+    entry.root,
+    { dot: data, root: data, variables: new Map() },
+    { templates, functions: bound, mode: options.mode ?? 'html', onMissing: options.onMissing, depth: 0 },
+  );
+}
+
+/** Convenience for a single self-contained template string. */
+export function renderString(source: string, data: unknown, options: RenderOptions = {}): string {
+  return renderParsed(parseTemplate('inline', source), [], data, options);
+}
+
+/** Names referenced by `{{ template "..." }}` (and `block`) anywhere in the template. */
+export function referencedTemplates(template: ParsedTemplate): Set<string> {
+  const names = new Set<string>();
+  const visit = (nodes: Node[]) => {
+    for (const node of nodes) {
+      if (node.type === 'template') names.add(node.name);
+      if (node.type === 'if') {
+        node.branches.forEach((branch) => visit(branch.body));
+        if (node.elseBody) visit(node.elseBody);
+      }
+      if (node.type === 'range' || node.type === 'with') {
+        visit(node.body);
+        if (node.elseBody) visit(node.elseBody);
+      }
+    }
+  };
+  visit(template.root);
+  template.defines.forEach((body) => visit(body));
+  return names;
+}
+
+/**
+ * Top-level data keys the template reads: `.Key` lookups evaluated against the root
+ * data (outside `range`/`with`, where dot is rebound) and `$.Key` lookups anywhere.
+ */
+export function referencedDataKeys(template: ParsedTemplate): Set<string> {
+  const keys = new Set<string>();
+  const visitPipeline = (pipeline: Pipeline, dotIsRoot: boolean) => {
+    for (const command of pipeline.commands) {
+      for (const arg of command.args) {
+        if (arg.type === 'pipeline') visitPipeline(arg.pipeline, dotIsRoot);
+        if (arg.type !== 'field' || arg.path.length === 0) continue;
+        if ((arg.root === 'dot' && dotIsRoot) || (arg.root === 'var' && arg.variable === '$')) {
+          keys.add(arg.path[0]);
+        }
+      }
+    }
+  };
+  const visit = (nodes: Node[], dotIsRoot: boolean) => {
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'output':
+          visitPipeline(node.pipeline, dotIsRoot);
+          break;
+        case 'if':
+          node.branches.forEach((branch) => {
+            visitPipeline(branch.condition, dotIsRoot);
+            visit(branch.body, dotIsRoot);
+          });
+          if (node.elseBody) visit(node.elseBody, dotIsRoot);
+          break;
+        case 'range':
+        case 'with':
+          visitPipeline(node.pipeline, dotIsRoot);
+          visit(node.body, false);
+          if (node.elseBody) visit(node.elseBody, dotIsRoot);
+          break;
+        case 'template':
+          if (node.pipeline) visitPipeline(node.pipeline, dotIsRoot);
+          break;
+        default:
+          break;
+      }
+    }
+  };
+  visit(template.root, true);
+  template.defines.forEach((body) => visit(body, true));
+  return keys;
+}
@@ -0,0 +1,263 @@
+/**
+ * Context tracking and escaping for template output. Literal template text is fed
+ * through a small HTML tokenizer so each `{{ }}` action knows whether it sits in
+ * element text, a quoted attribute, a URL attribute, or a <script>/<style> body.
+ */
+
+export type EscapeContext =
+  | { kind: 'text' }
+  | { kind: 'attr'; quoted: boolean }
+  | { kind: 'url'; position: 'start' | 'rest' }
+  | { kind: 'script' }
+  | { kind: 'style' }
+  | { kind: 'comment' };
+
+type ScanMode =
+  | 'text'
+  | 'tagOpen'
+  | 'tag'
+  | 'attrName'
+  | 'afterAttrName'
+  | 'beforeAttrValue'
+  | 'attrValue'
+  | 'comment'
+  | 'rawText';
+
+export type ScanState = {
+  mode: ScanMode;
+  tagName: string;
+  closing: boolean;
+  attrName: string;
+  quote: string;
+  valueLength: number;
+  buffer: string;
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src', 'action', 'formaction', 'background', 'cite', 'poster', 'xlink:href']);
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+const SAFE_URL_SCHEMES = new Set(['http', 'https', 'mailto', 'tel']);
+const UNSAFE_URL_REPLACEMENT = '#ZgotmplZ';
+const UNSAFE_CSS_REPLACEMENT = 'ZgotmplZ';
+
+export function initialScanState(): ScanState {
+  return { mode: 'text', tagName: '', closing: false, attrName: '', quote: '', valueLength: 0, buffer: '' };
+}
+
+function isNameChar(char: string): boolean {
+  return /[A-Za-z0-9:_-]/.test(char);
+}
+
+function isSpace(char: string): boolean {
+  return /\s/.test(char);
+}
+
+function endTag(state: ScanState) {
+  state.mode = !state.closing && RAW_TEXT_ELEMENTS.has(state.tagName) ? 'rawText' : 'text';
+  state.buffer = '';
+}
+
+/** Advances the scanner over literal template text and returns the new state. */
+export function scanText(input: ScanState, text: string): ScanState {
+  const state = { ...input };
+  for (const char of text) {
+    switch (state.mode) {
+      case 'text':
+        if (state.buffer) {
+          state.buffer += char;
+          if (state.buffer === '<!--') {
+            state.mode = 'comment';
+            state.buffer = '';
+          } else if (!'<!--'.startsWith(state.buffer)) {
+            const next = state.buffer[1];
+            state.buffer = '';
+            if (next === '/' || /[A-Za-z]/.test(next)) {
+              state.mode = 'tagOpen';
+              state.closing = next === '/';
+              state.tagName = next === '/' ? '' : next.toLowerCase();
+            }
+          }
+        } else if (char === '<') {
+          state.buffer = '<';
+        }
+        break;
+      case 'tagOpen':
+        if (isNameChar(char)) {
+          state.tagName += char.toLowerCase();
+        } else if (char === '>') {
+          endTag(state);
+        } else {
+          state.mode = 'tag';
+        }
+        break;
+      case 'tag':
+        if (char === '>') {
+          endTag(state);
+        } else if (isNameChar(char)) {
+          state.mode = 'attrName';
+          state.attrName = char.toLowerCase();
+        }
+        break;
+      case 'attrName':
+        if (isNameChar(char)) {
+          state.attrName += char.toLowerCase();
+        } else if (char === '=') {
+          state.mode = 'beforeAttrValue';
+        } else if (char === '>') {
+          endTag(state);
+        } else {
+          state.mode = 'afterAttrName';
+        }
+        break;
+      case 'afterAttrName':
+        if (char === '=') {
+          state.mode = 'beforeAttrValue';
+        } else if (char === '>') {
+          endTag(state);
+        } else if (isNameChar(char)) {
+          state.mode = 'attrName';
+          state.attrName = char.toLowerCase();
+        }
+        break;
+      case 'beforeAttrValue':
+        if (char === '"' || char === "'") {
+          state.mode = 'attrValue';
+          state.quote = char;
+          state.valueLength = 0;
+        } else if (char === '>') {
+          endTag(state);
+        } else if (!isSpace(char)) {
+          state.mode = 'attrValue';
+          state.quote = '';
+          state.valueLength = 1;
+        }
+        break;
+      case 'attrValue':
+        if (state.quote ? char === state.quote : isSpace(char)) {
+          state.mode = 'tag';
+        } else if (!state.quote && char === '>') {
+          endTag(state);
+        } else {
+          state.valueLength += 1;
+        }
+        break;
+      case 'comment':
+        state.buffer = (state.buffer + char).slice(-3);
+        if (state.buffer === '-->') {
+          state.mode = 'text';
+          state.buffer = '';
+        }
+        break;
+      case 'rawText': {
+        state.buffer = (state.buffer + char).slice(-(state.tagName.length + 2));
+        if (state.buffer.toLowerCase() === `</${state.tagName}`) {
+          state.mode = 'tagOpen';
+          state.closing = true;
+          state.buffer = '';
+        }
+        break;
+      }
+    }
+  }
+  return state;
+}
+
+/** The escaping context for an action placed at the scanner's current position. */
+export function contextFor(state: ScanState): EscapeContext {
+  switch (state.mode) {
+    case 'comment':
+      return { kind: 'comment' };
+    case 'rawText':
+      return state.tagName === 'script' ? { kind: 'script' } : { kind: 'style' };
+    case 'attrValue':
+      if (URL_ATTRIBUTES.has(state.attrName)) {
+        return { kind: 'url', position: state.valueLength === 0 ? 'start' : 'rest' };
+      }
+      if (state.attrName === 'style') return { kind: 'style' };
+      return { kind: 'attr', quoted: state.quote !== '' };
+    case 'tagOpen':
+    case 'tag':
+    case 'attrName':
+    case 'afterAttrName':
+    case 'beforeAttrValue':
+      return { kind: 'attr', quoted: false };
+    default:
+      return { kind: 'text' };
+  }
+}
+
+/** Marks an action output as trusted so escaping is skipped (`raw`) or relaxed (`safeURL`). */
+export class TrustedValue {
+  constructor(
+    readonly kind: 'html' | 'url',
+    readonly value: string,
+  ) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&#34;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+function escapeUnquotedAttr(value: string): string {
+  return value.replace(/[^A-Za-z0-9_.:/-]/g, (char) => `&#${char.codePointAt(0)};`);
+}
+
+// Browsers drop tabs and newlines anywhere in a URL and control characters and spaces around it.
+const IGNORED_URL_CHARS = /[\u0000-\u0020]/g;
+
+/**
+ * Like Go's `html/template`: a `:` before any `/`, `?` or `#` makes the text before it a scheme,
+ * which must be allowlisted. So `java\nscript:` is refused rather than read as a relative URL.
+ */
+function hasSafeScheme(url: string): boolean {
+  const normalized = url.replace(IGNORED_URL_CHARS, '');
+  const end = normalized.search(/[:/?#]/);
+  if (end === -1 || normalized[end] !== ':') return true;
+  return SAFE_URL_SCHEMES.has(normalized.slice(0, end).toLowerCase());
+}
+
+export function escapeForContext(value: unknown, context: EscapeContext): string {
+  if (value instanceof TrustedValue && value.kind === 'html') {
+    return value.value;
+  }
+  const trustedUrl = value instanceof TrustedValue && value.kind === 'url';
+  const text = value instanceof TrustedValue ? value.value : stringify(value);
+
+  switch (context.kind) {
+    case 'url': {
+      if (context.position === 'rest') {
+        return escapeHtml(trustedUrl ? text : encodeURIComponent(text));
+      }
+      if (!trustedUrl && !hasSafeScheme(text)) return UNSAFE_URL_REPLACEMENT;
+      return escapeHtml(text);
+    }
+    case 'attr':
+      return context.quoted ? escapeHtml(text) : escapeUnquotedAttr(text);
+    case 'script':
+      return JSON.stringify(text).replace(/</g, '\\u003c').replace(/>/g, '\\u003e');
+    case 'style':
+      return /^[\w\s#.,%()-]*$/.test(text) ? text : UNSAFE_CSS_REPLACEMENT;
+    case 'comment':
+      return '';
+    default:
+      return escapeHtml(text);
+  }
+}
+
+export function stringify(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof TrustedValue) return value.value;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import test from 'node:test';
+
+import { buildTemplates } from './build';
+import { createTemplateBundle, readTemplateBundle } from './bundle';
+import { GMAIL_CLIP_BYTES, lintHtml, lintTemplates, sampleData } from './lint';
+import { createTemplateRegistry } from './registry';
+
+const templatesDir = path.resolve(__dirname, '..', '..', 'templates');
+
+test('lintHtml flags missing lang and alt, plain HTTP links and clipped sizes', () => {
+  const html =
+    '<html><body><img src="https://cdn.example.com/logo.png"><img alt="" src="http://cdn.example.com/a.png">' +
+    `<a href="http://example.com/x">x</a><a href="https://example.com">y</a>${' '.repeat(GMAIL_CLIP_BYTES)}</body></html>`;
+  assert.deepEqual(
+    lintHtml(html).map((issue) => issue.rule),
+    ['missing-lang', 'missing-alt', 'insecure-link', 'insecure-link', 'size'],
+  );
+  assert.deepEqual(lintHtml('<html lang="en"><a href="mailto:a@example.com">a</a></html>'), []);
+  assert.deepEqual(lintHtml('<html lang="und"></html>')[0]?.rule, 'missing-lang');
+});
+
+test('sampleData fills every manifest field with a value of its type', () => {
+  assert.deepEqual(
+    sampleData({
+      category: 'Security',
+      subject: 'Notice',
+      data: { Link: { type: 'url', required: true }, Count: { type: 'number' }, Email: { type: 'email' } },
+    }),
+    { Link: 'https://example.com/Link', Count: 1, Email: 'user@example.com' },
+  );
+});
+
+test('every bundled template builds and passes lint', async () => {
+  const { files, errors } = await buildTemplates(readTemplateBundle(templatesDir).files);
+  assert.deepEqual(errors, []);
+  const registry = createTemplateRegistry(templatesDir, createTemplateBundle(files));
+  assert.ok(registry.allowed.size >= 13);
+  assert.deepEqual(await lintTemplates(registry), []);
+});
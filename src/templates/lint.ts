@@ -0,0 +1,100 @@
+import type { DataFieldType, TemplateManifest } from './manifest';
+import type { TemplateRegistry } from './registry';
+
+/** Gmail clips messages whose HTML is larger than this and hides the rest behind "View entire message". */
+export const GMAIL_CLIP_BYTES = 102 * 1024;
+
+export type LintRule = 'unknown-placeholder' | 'missing-lang' | 'missing-alt' | 'insecure-link' | 'size' | 'render';
+
+export type LintIssue = {
+  template: string;
+  /** Set for problems in one locale's rendering. */
+  locale?: string;
+  rule: LintRule;
+  message: string;
+};
+
+const SAMPLE_VALUES: Record<DataFieldType, (key: string) => unknown> = {
+  string: (key) => `Sample ${key}`,
+  url: (key) => `https://example.com/${key}`,
+  email: () => 'user@example.com',
+  number: () => 1,
+  boolean: () => true,
+  array: () => [],
+  object: () => ({}),
+};
+
+const HTML_TAG = /<html\b[^>]*>/i;
+// MJML writes `lang="und"` (undetermined) unless the source sets `<mjml lang="…">`.
+const LANG_ATTRIBUTE = /\slang\s*=\s*["']?(?!und\b)[A-Za-z]/i;
+const IMG_TAG = /<img\b[^>]*>/gi;
+const ALT_ATTRIBUTE = /\salt\s*=/i;
+const INSECURE_URL = /\s(?:href|src|action|background)\s*=\s*["']?\s*(http:\/\/[^"'\s>]*)/gi;
+
+/** Data that satisfies the manifest, for rendering a template without a real send. */
+export function sampleData(manifest: TemplateManifest | undefined): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(manifest?.data ?? {}).map(([key, field]) => [key, SAMPLE_VALUES[field.type](key)]),
+  );
+}
+
+/** Checks one rendered email for problems that clients, screen readers or spam filters penalize. */
+export function lintHtml(html: string): Array<Pick<LintIssue, 'rule' | 'message'>> {
+  const issues: Array<Pick<LintIssue, 'rule' | 'message'>> = [];
+  const htmlTag = html.match(HTML_TAG)?.[0];
+  if (!htmlTag || !LANG_ATTRIBUTE.test(htmlTag)) {
+    issues.push({ rule: 'missing-lang', message: '<html> has no lang attribute' });
+  }
+  for (const [img] of html.matchAll(IMG_TAG)) {
+    if (!ALT_ATTRIBUTE.test(img)) {
+      issues.push({ rule: 'missing-alt', message: `<img> has no alt attribute: ${img.slice(0, 80)}` });
+    }
+  }
+  for (const [, url] of html.matchAll(INSECURE_URL)) {
+    issues.push({ rule: 'insecure-link', message: `Link is not HTTPS: ${url}` });
+  }
+  const bytes = Buffer.byteLength(html);
+  if (bytes > GMAIL_CLIP_BYTES) {
+    issues.push({ rule: 'size', message: `HTML is ${bytes} bytes; Gmail clips messages over ${GMAIL_CLIP_BYTES}` });
+  }
+  return issues;
+}
+
+/**
+ * Lints every template in the registry: placeholders the manifest does not declare, on every channel,
+ * and each email rendered with sample data in each of its locales.
+ */
+export async function lintTemplates(registry: TemplateRegistry): Promise<LintIssue[]> {
+  const issues: LintIssue[] = [];
+  for (const template of [...registry.versions.keys()].sort()) {
+    let description;
+    try {
+      description = await registry.describeTemplate(template);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      issues.push({ template, rule: 'render', message });
+      continue;
+    }
+    for (const variable of description.variables) {
+      if (variable.type) continue;
+      issues.push({
+        template,
+        rule: 'unknown-placeholder',
+        message: `{{ .${variable.name} }} is not declared in the manifest`,
+      });
+    }
+
+    if (!registry.allowed.has(template)) continue;
+    const data = sampleData(registry.manifests.get(template));
+    for (const locale of description.locales.email ?? []) {
+      try {
+        const { html } = await registry.renderMessage(template, data, { locale });
+        issues.push(...lintHtml(html).map((issue) => ({ template, locale, ...issue })));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        issues.push({ template, locale, rule: 'render', message });
+      }
+    }
+  }
+  return issues;
+}
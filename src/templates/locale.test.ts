@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { localeFallbacks, normalizeLocale, splitLocaleSuffix } from './locale';
+
+test('normalizeLocale canonicalizes tags and rejects garbage', () => {
+  assert.equal(normalizeLocale('pt-br'), 'pt-BR');
+  assert.equal(normalizeLocale('zh_hant_tw'), 'zh-Hant-TW');
+  assert.equal(normalizeLocale('not a locale'), null);
+  assert.equal(normalizeLocale(''), null);
+  assert.equal(normalizeLocale(42), null);
+});
+
+test('localeFallbacks drops subtags and ends in en', () => {
+  assert.deepEqual(localeFallbacks('pt-BR'), ['pt-BR', 'pt', 'en']);
+  assert.deepEqual(localeFallbacks('zh-Hant-TW'), ['zh-Hant-TW', 'zh-Hant', 'zh', 'en']);
+  assert.deepEqual(localeFallbacks('en-GB'), ['en-GB', 'en']);
+  assert.deepEqual(localeFallbacks(undefined), ['en']);
+});
+
+test('splitLocaleSuffix separates a variant name from its locale', () => {
+  assert.deepEqual(splitLocaleSuffix('Security/password-changed.pt-br'), {
+    name: 'Security/password-changed',
+    locale: 'pt-BR',
+  });
+  assert.equal(splitLocaleSuffix('Security/password-changed'), null);
+});
@@ -0,0 +1,33 @@
+/** The locale of unsuffixed template files, and the last step of every fallback chain. */
+export const DEFAULT_LOCALE = 'en';
+
+const LOCALE_SUFFIX = /^(.+)\.([A-Za-z]{2,3}(?:-[A-Za-z0-9]{2,8})*)$/;
+
+/** Canonical BCP 47 form (`pt-br` → `pt-BR`), or null when `raw` is not a language tag. */
+export function normalizeLocale(raw: unknown): string | null {
+  if (typeof raw !== 'string' || !raw.trim()) return null;
+  try {
+    return Intl.getCanonicalLocales(raw.trim().replace(/_/g, '-'))[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Most to least specific, ending in the default locale: `pt-BR` → `pt-BR`, `pt`, `en`. */
+export function localeFallbacks(locale: string | undefined): string[] {
+  const chain: string[] = [];
+  const parts = (locale ? normalizeLocale(locale) : null)?.split('-') ?? [];
+  for (let length = parts.length; length > 0; length -= 1) {
+    chain.push(parts.slice(0, length).join('-'));
+  }
+  if (!chain.includes(DEFAULT_LOCALE)) chain.push(DEFAULT_LOCALE);
+  return chain;
+}
+
+/** Splits `Security/password-changed.pt-BR` into its template name and locale; null for an unsuffixed name. */
+export function splitLocaleSuffix(name: string): { name: string; locale: string } | null {
+  const match = name.match(LOCALE_SUFFIX);
+  if (!match) return null;
+  const locale = normalizeLocale(match[2]);
+  return locale ? { name: match[1], locale } : null;
+}
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { formatSender, parseManifest, renderSubject, validateTemplateData } from './manifest';
+
+const MANIFEST = parseManifest(
+  {
+    category: 'Authentication',
+    subject: 'Welcome {{ .Name }}',
+    sender: { name: 'Intellex Security' },
+    data: {
+      ConfirmationURL: { type: 'url', required: true },
+      Name: { type: 'string' },
+      Count: { type: 'number' },
+    },
+  },
+  'Authentication/example',
+);
+
+test('parseManifest rejects malformed manifests', () => {
+  assert.throws(() => parseManifest({ subject: 'x' }, 'a'), /category is required/);
+  assert.throws(() => parseManifest({ category: 'A' }, 'a'), /subject is required/);
+  assert.throws(() => parseManifest({ category: 'A', subject: 'x', data: { K: { type: 'date' } } }, 'a'), /type is invalid/);
+  assert.throws(() => parseManifest({ category: 'A', subject: 'x', sender: { address: 'nope' } }, 'a'), /sender.address/);
+  assert.throws(() => parseManifest({ category: 'A', subject: 'x', bypassSuppression: 'yes' }, 'a'), /bypassSuppression/);
+});
+
+test('validateTemplateData reports missing required keys and wrong types', () => {
+  assert.deepEqual(validateTemplateData(MANIFEST, { ConfirmationURL: 'https://x.test/c', Name: 'Ada' }), []);
+  assert.deepEqual(validateTemplateData(MANIFEST, { Name: 'Ada' }), ['data.ConfirmationURL is required']);
+  assert.deepEqual(validateTemplateData(MANIFEST, { ConfirmationURL: 'javascript:alert(1)', Count: '3' }), [
+    'data.ConfirmationURL must be a valid url',
+    'data.Count must be a valid number',
+  ]);
+});
+
+test('renderSubject renders the templated default subject as plain text', () => {
+  assert.equal(renderSubject(MANIFEST, { Name: 'Ada & Co' }), 'Welcome Ada & Co');
+});
+
+test('formatSender applies the manifest identity to EMAIL_FROM', () => {
+  assert.equal(formatSender(undefined, 'noreply@intellex.test'), 'noreply@intellex.test');
+  assert.equal(formatSender({ name: 'Intellex Security' }, 'noreply@intellex.test'), 'Intellex Security <noreply@intellex.test>');
+  assert.equal(formatSender({ name: 'Intellex Security' }, 'Intellex <noreply@intellex.test>'), 'Intellex Security <noreply@intellex.test>');
+  assert.equal(formatSender({ address: 'security@intellex.test' }, 'Intellex <noreply@intellex.test>'), 'Intellex <security@intellex.test>');
+});
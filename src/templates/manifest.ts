@@ -0,0 +1,175 @@
+import { renderString, type RenderOptions } from './engine';
+import { localeFallbacks } from './locale';
+
+export type DataFieldType = 'string' | 'url' | 'email' | 'number' | 'boolean' | 'array' | 'object';
+
+export type DataField = {
+  type: DataFieldType;
+  required?: boolean;
+  description?: string;
+};
+
+export type TemplateSender = {
+  name?: string;
+  address?: string;
+};
+
+/** Sidecar `<template>.json` describing a template's data contract and defaults. */
+export type TemplateManifest = {
+  description?: string;
+  category: string;
+  /** Default-locale subject. */
+  subject: string;
+  /** Subjects from `<template>.<locale>.json` sidecars, keyed by canonical locale. */
+  subjects?: Record<string, string>;
+  sender?: TemplateSender;
+  /** Critical account-access mail that is still sent to suppressed recipients. */
+  bypassSuppression?: boolean;
+  data: Record<string, DataField>;
+};
+
+const DATA_FIELD_TYPES = new Set<DataFieldType>(['string', 'url', 'email', 'number', 'boolean', 'array', 'object']);
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_SCHEMES = new Set(['http:', 'https:']);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function optionalString(value: unknown, field: string, name: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${name}: ${field} must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+export function parseManifest(raw: unknown, name: string): TemplateManifest {
+  if (!isRecord(raw)) throw new Error(`${name}: manifest must be an object`);
+
+  const category = optionalString(raw.category, 'category', name);
+  if (!category) throw new Error(`${name}: category is required`);
+  const subject = optionalString(raw.subject, 'subject', name);
+  if (!subject) throw new Error(`${name}: subject is required`);
+
+  let sender: TemplateSender | undefined;
+  if (raw.sender !== undefined) {
+    if (!isRecord(raw.sender)) throw new Error(`${name}: sender must be an object`);
+    sender = {
+      name: optionalString(raw.sender.name, 'sender.name', name),
+      address: optionalString(raw.sender.address, 'sender.address', name),
+    };
+    if (sender.address && !EMAIL_REGEX.test(sender.address)) {
+      throw new Error(`${name}: sender.address must be an email address`);
+    }
+  }
+
+  if (raw.bypassSuppression !== undefined && typeof raw.bypassSuppression !== 'boolean') {
+    throw new Error(`${name}: bypassSuppression must be a boolean`);
+  }
+
+  const data: Record<string, DataField> = {};
+  const rawData = raw.data ?? {};
+  if (!isRecord(rawData)) throw new Error(`${name}: data must be an object`);
+  for (const [key, value] of Object.entries(rawData)) {
+    if (!/^[A-Za-z0-9_]+$/.test(key)) throw new Error(`${name}: invalid data key "${key}"`);
+    if (!isRecord(value)) throw new Error(`${name}: data.${key} must be an object`);
+    const type = value.type as DataFieldType;
+    if (!DATA_FIELD_TYPES.has(type)) throw new Error(`${name}: data.${key}.type is invalid`);
+    if (value.required !== undefined && typeof value.required !== 'boolean') {
+      throw new Error(`${name}: data.${key}.required must be a boolean`);
+    }
+    data[key] = {
+      type,
+      required: value.required === true,
+      description: optionalString(value.description, `data.${key}.description`, name),
+    };
+  }
+
+  return {
+    description: optionalString(raw.description, 'description', name),
+    category,
+    subject,
+    sender,
+    bypassSuppression: raw.bypassSuppression === true,
+    data,
+  };
+}
+
+/** Reads a `<template>.<locale>.json` sidecar, which may only translate the subject. */
+export function parseLocaleManifest(raw: unknown, name: string): { subject?: string } {
+  if (!isRecord(raw)) throw new Error(`${name}: manifest must be an object`);
+  const unsupported = Object.keys(raw).filter((key) => key !== 'subject');
+  if (unsupported.length > 0) throw new Error(`${name}: locale manifests only support subject`);
+  return { subject: optionalString(raw.subject, 'subject', name) };
+}
+
+function matchesType(value: unknown, type: DataFieldType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'url': {
+      if (typeof value !== 'string') return false;
+      try {
+        return URL_SCHEMES.has(new URL(value).protocol);
+      } catch {
+        return false;
+      }
+    }
+    case 'email':
+      return typeof value === 'string' && EMAIL_REGEX.test(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isRecord(value);
+  }
+}
+
+/** Returns one message per problem; an empty list means the data satisfies the manifest. */
+export function validateTemplateData(manifest: TemplateManifest, data: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  for (const [key, field] of Object.entries(manifest.data)) {
+    const value = data[key];
+    if (value === undefined || value === null || value === '') {
+      if (field.required) errors.push(`data.${key} is required`);
+      continue;
+    }
+    if (!matchesType(value, field.type)) {
+      errors.push(`data.${key} must be a valid ${field.type}`);
+    }
+  }
+  return errors;
+}
+
+/** Renders the subject for the most specific locale that has one, falling back to the default subject. */
+export function renderSubject(
+  manifest: TemplateManifest,
+  data: Record<string, unknown>,
+  options: Pick<RenderOptions, 'onMissing' | 'locale'> = {},
+): string {
+  const localized = localeFallbacks(options.locale).find((locale) => manifest.subjects?.[locale]);
+  const subject = localized ? (manifest.subjects?.[localized] as string) : manifest.subject;
+  return renderString(subject, data, { ...options, mode: 'text' }).replace(/\s+/g, ' ').trim();
+}
+
+function quoteDisplayName(name: string): string {
+  return /[",;<>@()[\]:\\]/.test(name) ? `"${name.replace(/(["\\])/g, '\\$1')}"` : name;
+}
+
+/**
+ * Combines the manifest sender with `EMAIL_FROM`: the manifest may override the display
+ * name and/or the address, and whatever it leaves out is taken from `EMAIL_FROM`.
+ */
+export function formatSender(sender: TemplateSender | undefined, defaultFrom: string): string {
+  if (!sender?.name && !sender?.address) return defaultFrom;
+  const match = defaultFrom.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  const defaultName = match ? match[1].replace(/^"|"$/g, '') : '';
+  const defaultAddress = match ? match[2] : defaultFrom.trim();
+  const name = sender.name ?? defaultName;
+  const address = sender.address ?? defaultAddress;
+  return name ? `${quoteDisplayName(name)} <${address}>` : address;
+}
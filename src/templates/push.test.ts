@@ -0,0 +1,22 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { parsePushTemplate, renderPushTemplate } from './push';
+
+test('renderPushTemplate renders each field as text', () => {
+  const template = parsePushTemplate({ title: '{{ .Name }} & co', body: 'Hello  {{ .Who }}\n', url: '{{ .URL }}' }, 'x');
+  assert.deepEqual(renderPushTemplate(template, { Name: 'A<b>', Who: 'there', URL: '/projects/1' }), {
+    title: 'A<b> & co',
+    body: 'Hello there',
+    url: '/projects/1',
+  });
+});
+
+test('push templates require title and body and safe URLs', () => {
+  assert.throws(() => parsePushTemplate({ title: 'x' }, 'x'), /body must be a non-empty string/);
+  assert.throws(() => parsePushTemplate({ title: 'x', body: 'y', sound: 'z' }, 'x'), /unknown push fields sound/);
+  const template = parsePushTemplate({ title: 'x', body: 'y', url: '{{ .URL }}' }, 'x');
+  assert.throws(() => renderPushTemplate(template, { URL: 'javascript:alert(1)' }), /http\(s\) URL/);
+  assert.throws(() => renderPushTemplate(template, { URL: '//evil.test' }), /http\(s\) URL/);
+  assert.equal(renderPushTemplate(template, {}).url, undefined);
+});
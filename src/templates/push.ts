@@ -0,0 +1,72 @@
+import { type ParsedTemplate, parseTemplate, renderParsed, type RenderOptions } from './engine';
+
+/** What the service worker receives; `url` is opened when the notification is clicked. */
+export type PushNotification = {
+  title: string;
+  body: string;
+  url?: string;
+  icon?: string;
+  tag?: string;
+};
+
+type PushField = keyof PushNotification;
+
+const REQUIRED_FIELDS: PushField[] = ['title', 'body'];
+const OPTIONAL_FIELDS: PushField[] = ['url', 'icon', 'tag'];
+const URL_FIELDS = new Set<PushField>(['url', 'icon']);
+
+/** A `<template>.push.json` file: every field is a template string rendered in text mode. */
+export type ParsedPushTemplate = Map<PushField, ParsedTemplate>;
+
+export function parsePushTemplate(raw: unknown, name: string): ParsedPushTemplate {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${name}: push template must be an object`);
+  }
+  const source = raw as Record<string, unknown>;
+  const known = new Set<string>([...REQUIRED_FIELDS, ...OPTIONAL_FIELDS]);
+  const unknown = Object.keys(source).filter((key) => !known.has(key));
+  if (unknown.length > 0) {
+    throw new Error(`${name}: unknown push fields ${unknown.join(', ')}`);
+  }
+
+  const parsed: ParsedPushTemplate = new Map();
+  for (const field of [...REQUIRED_FIELDS, ...OPTIONAL_FIELDS]) {
+    const value = source[field];
+    if (value === undefined && !REQUIRED_FIELDS.includes(field)) continue;
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new Error(`${name}: ${field} must be a non-empty string`);
+    }
+    parsed.set(field, parseTemplate(`${name}#${field}`, value));
+  }
+  return parsed;
+}
+
+// Relative paths resolve against the web app's origin in the service worker.
+function isPushUrl(value: string): boolean {
+  if (value.startsWith('/') && !value.startsWith('//')) return true;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+export function renderPushTemplate(
+  template: ParsedPushTemplate,
+  data: Record<string, unknown>,
+  options: Pick<RenderOptions, 'onMissing' | 'locale'> = {},
+): PushNotification {
+  const notification: Partial<PushNotification> = {};
+  template.forEach((parsed, field) => {
+    const value = renderParsed(parsed, [], data, { ...options, mode: 'text' }).replace(/\s+/g, ' ').trim();
+    if (!value) {
+      if (REQUIRED_FIELDS.includes(field)) throw new Error(`push ${field} rendered empty`);
+      return;
+    }
+    if (URL_FIELDS.has(field) && !isPushUrl(value)) {
+      throw new Error(`push ${field} must be an http(s) URL or an absolute path`);
+    }
+    notification[field] = value;
+  });
+  return notification as PushNotification;
+}
@@ -0,0 +1,190 @@
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import test from 'node:test';
+
+import { renderSubject, validateTemplateData } from './manifest';
+import { createTemplateRegistry } from './registry';
+import { countSmsSegments } from './sms';
+
+const registry = createTemplateRegistry(path.resolve(__dirname, '..', '..', 'templates'));
+
+const SAMPLE_DATA = {
+  ConfirmationURL: 'https://app.intellex.test/auth/confirm?token=abc&type=signup',
+  Email: 'user@example.com',
+  NewEmail: 'new@example.com',
+  OldEmail: 'old@example.com',
+  Provider: 'Google',
+  FactorType: 'totp',
+  Phone: '+15555550100',
+  OldPhone: '+15555550199',
+  Token: '123456',
+  Cadence: 'weekly',
+  ItemCount: 1,
+  Projects: [
+    {
+      ProjectName: 'Atlas',
+      Items: [{ Title: 'New findings', URL: 'https://app.intellex.test/projects/atlas' }],
+    },
+  ],
+};
+
+test('registry discovers sendable templates but not layouts or partials', () => {
+  assert.ok(registry.allowed.has('Authentication/magic-link'));
+  assert.ok(registry.allowed.has('Security/phone-changed'));
+  assert.ok([...registry.allowed].every((name) => !name.startsWith('_') && !name.includes('/_')));
+  assert.throws(() => registry.resolveTemplatePath('_layouts/base'), /Unknown template/);
+  assert.throws(() => registry.resolveTemplatePath('../package.json'), /Invalid template path/);
+});
+
+test('every template renders through the shared layout', async () => {
+  for (const name of registry.allowed) {
+    const html = await registry.loadTemplate(name, SAMPLE_DATA);
+    assert.match(html, /^<!DOCTYPE html>/, name);
+    assert.match(html, /<style>[\s\S]*prefers-color-scheme: dark[\s\S]*<\/style>/, name);
+    assert.match(html, /AI-Powered Intelligence/, name);
+    assert.doesNotMatch(html, /{{|}}/, name);
+  }
+});
+
+test('templates escape user-supplied values', async () => {
+  const html = await registry.loadTemplate('Security/email-changed', {
+    ...SAMPLE_DATA,
+    Email: '<script>alert(1)</script>',
+  });
+  assert.doesNotMatch(html, /<script>alert/);
+  assert.match(html, /&lt;script&gt;alert\(1\)&lt;\/script&gt;/);
+});
+
+test('confirmation links keep their query string intact', async () => {
+  const html = await registry.loadTemplate('Authentication/magic-link', SAMPLE_DATA);
+  assert.match(html, /href="https:\/\/app\.intellex\.test\/auth\/confirm\?token=abc&amp;type=signup"/);
+});
+
+test('every template has a manifest that the sample data satisfies', () => {
+  for (const name of registry.allowed) {
+    const manifest = registry.manifests.get(name);
+    assert.ok(manifest, `${name} has no manifest`);
+    assert.equal(manifest.category, name.split('/')[0], name);
+    assert.deepEqual(validateTemplateData(manifest, SAMPLE_DATA), [], name);
+    assert.ok(renderSubject(manifest, SAMPLE_DATA).length > 0, name);
+  }
+});
+
+test('describeTemplate merges manifest fields with keys the templates read', async () => {
+  const description = await registry.describeTemplate('Authentication/magic-link');
+  assert.equal(description.category, 'Authentication');
+  assert.equal(description.hasTextPart, true);
+  const confirmation = description.variables.find((variable) => variable.name === 'ConfirmationURL');
+  assert.deepEqual(confirmation && { type: confirmation.type, required: confirmation.required, used: confirmation.used }, {
+    type: 'url',
+    required: true,
+    used: true,
+  });
+  await assert.rejects(registry.describeTemplate('_partials/header'), /Unknown template/);
+});
+
+test('renderMessage reports unresolved placeholders', async () => {
+  const missing = new Set<string>();
+  await registry.renderMessage('Authentication/magic-link', {}, { onMissing: (label) => missing.add(label) });
+  assert.ok(missing.has('.ConfirmationURL'));
+});
+
+test('the research digest loops over projects and their items', async () => {
+  const data = {
+    Cadence: 'daily',
+    ItemCount: 3,
+    Projects: [
+      {
+        ProjectName: 'Atlas',
+        Items: [
+          { Title: 'First result', Summary: 'Early numbers look good.', URL: 'https://app.intellex.test/u/1' },
+          { Title: 'Second <result>', URL: 'https://app.intellex.test/u/2' },
+        ],
+      },
+      { ProjectName: 'Borealis', Items: [{ Title: 'Kickoff', URL: 'https://app.intellex.test/u/3' }] },
+    ],
+  };
+  const manifest = registry.manifests.get('Research/research-digest');
+  assert.ok(manifest);
+  assert.equal(renderSubject(manifest, data), 'Your daily research digest: 3 updates');
+  const { html, text } = await registry.renderMessage('Research/research-digest', data);
+  assert.match(html, /Atlas[\s\S]*First result[\s\S]*Early numbers[\s\S]*Second &lt;result&gt;[\s\S]*Borealis/);
+  assert.match(html, /href="https:\/\/app\.intellex\.test\/u\/3"/);
+  assert.match(text, /Kickoff/);
+});
+
+test('SMS templates render as plain text within one segment', async () => {
+  assert.ok(registry.smsAllowed.has('Security/phone-changed'));
+  for (const name of registry.smsAllowed) {
+    assert.ok(registry.manifests.get(name), `${name} has no manifest`);
+    const body = await registry.renderSms(name, { ...SAMPLE_DATA, OldPhone: '+15555550199 & co' });
+    assert.doesNotMatch(body, /{{|}}|&amp;/, name);
+    assert.equal(countSmsSegments(body).segments, 1, name);
+  }
+  const description = await registry.describeTemplate('Security/phone-changed');
+  assert.deepEqual(description.channels, ['email', 'sms']);
+  await assert.rejects(registry.renderSms('Security/mfa-added', SAMPLE_DATA), /Unknown template/);
+});
+
+test('push templates render from their .push.json file', async () => {
+  assert.ok(registry.pushAllowed.has('Research/research-update'));
+  const notification = await registry.renderPush('Research/research-update', {
+    ProjectName: 'Atlas',
+    Title: 'New findings',
+    URL: 'https://app.intellex.test/projects/atlas',
+  });
+  assert.deepEqual(notification, {
+    title: 'Atlas: New findings',
+    body: 'A new research update is ready to review.',
+    url: 'https://app.intellex.test/projects/atlas',
+  });
+  const description = await registry.describeTemplate('Research/research-update');
+  assert.deepEqual(description.channels, ['push']);
+  assert.ok(description.variables.every((variable) => variable.used));
+});
+
+test('localized variants fall back from region to language to the default files', async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'comms-templates-'));
+  try {
+    await mkdir(path.join(dir, 'Security'));
+    await mkdir(path.join(dir, '_partials'));
+    const files: Record<string, string> = {
+      'Security/notice.html': '{{ template "_partials/footer" . }}Hello {{ .Name }}',
+      'Security/notice.pt.html': '{{ template "_partials/footer" . }}Olá {{ .Name }}',
+      'Security/notice.txt': 'Hello (text)',
+      'Security/notice.json': JSON.stringify({ category: 'Security', subject: 'Notice for {{ .Name }}' }),
+      'Security/notice.pt.json': JSON.stringify({ subject: 'Aviso para {{ .Name }}' }),
+      'Security/notice.sms.txt': 'Hello by SMS',
+      '_partials/footer.html': '[en]',
+      '_partials/footer.pt-BR.html': '[pt-BR]',
+    };
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(path.join(dir, name), content);
+    }
+    const localized = createTemplateRegistry(dir);
+    assert.deepEqual([...localized.allowed], ['Security/notice']);
+
+    const brazil = await localized.renderMessage('Security/notice', { Name: 'Ana' }, { locale: 'pt-BR' });
+    assert.equal(brazil.html, '[pt-BR]Olá Ana');
+    assert.equal(brazil.text, '[pt-BR]Olá Ana', 'the English text part is not paired with a translated body');
+    const portugal = await localized.renderMessage('Security/notice', { Name: 'Ana' }, { locale: 'pt-PT' });
+    assert.equal(portugal.html, '[en]Olá Ana');
+    const german = await localized.renderMessage('Security/notice', { Name: 'Ann' }, { locale: 'de' });
+    assert.equal(german.text, 'Hello (text)');
+    assert.equal(localized.resolveLocale('Security/notice', 'email', 'pt-BR'), 'pt');
+    assert.equal(localized.resolveLocale('Security/notice', 'sms', 'pt-BR'), 'en');
+
+    const manifest = localized.manifests.get('Security/notice');
+    assert.ok(manifest);
+    assert.equal(renderSubject(manifest, { Name: 'Ana' }, { locale: 'pt-BR' }), 'Aviso para Ana');
+    assert.equal(renderSubject(manifest, { Name: 'Ann' }, { locale: 'fr' }), 'Notice for Ann');
+
+    const description = await localized.describeTemplate('Security/notice');
+    assert.deepEqual(description.locales, { email: ['en', 'pt'], sms: ['en'] });
+    assert.deepEqual(description.subjectLocales, ['en', 'pt']);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
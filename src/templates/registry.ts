@@ -0,0 +1,410 @@
+import path from 'node:path';
+
+import { logger } from '../observability/log';
+import { createTemplateBundle, hashFiles, readTemplateBundle, type TemplateBundle } from './bundle';
+import {
+  type ParsedTemplate,
+  parseTemplate,
+  referencedDataKeys,
+  referencedTemplates,
+  renderParsed,
+  type RenderOptions,
+} from './engine';
+import { DEFAULT_LOCALE, localeFallbacks, splitLocaleSuffix } from './locale';
+import { type DataField, parseLocaleManifest, parseManifest, type TemplateManifest } from './manifest';
+import { parsePushTemplate, type PushNotification, renderPushTemplate } from './push';
+import { htmlToText } from './text';
+
+// Layouts and partials live under `_`-prefixed directories and are never sendable on their own.
+const SHARED_PREFIX = '_';
+const TEMPLATE_EXTENSION = '.html';
+const TEXT_EXTENSION = '.txt';
+const SMS_EXTENSION = '.sms.txt';
+const PUSH_EXTENSION = '.push.json';
+const MANIFEST_EXTENSION = '.json';
+
+export type RenderedMessage = {
+  html: string;
+  text: string;
+};
+
+export type TemplateChannel = 'email' | 'sms' | 'push';
+
+export type TemplateVariable = Partial<DataField> & {
+  name: string;
+  /** False when the manifest declares the key but no template file reads it. */
+  used: boolean;
+};
+
+export type TemplateDescription = {
+  name: string;
+  /** Content hash of the template's own files plus the shared layouts and partials. */
+  version: string;
+  category?: string;
+  description?: string;
+  subject?: string;
+  /** Channels the template can be sent on: `email` (`.html`), `sms` (`.sms.txt`) and `push` (`.push.json`). */
+  channels: TemplateChannel[];
+  /** Locales each channel has a variant for; the unsuffixed files count as `en`. */
+  locales: Partial<Record<TemplateChannel, string[]>>;
+  /** Locales with their own subject; others fall back to the default subject. */
+  subjectLocales: string[];
+  hasTextPart: boolean;
+  variables: TemplateVariable[];
+};
+
+export type TemplateRegistry = {
+  dir: string;
+  /** Version of the whole bundle this registry renders from. */
+  version: string;
+  loadedAt: number;
+  /** The bundle's files, so the catalog can archive them for pinned sends. */
+  files: Map<string, string>;
+  /** Template name → its version, for pinning (`name@version`) and tracing what a message used. */
+  versions: Map<string, string>;
+  allowed: Set<string>;
+  /** Templates with a text-only `.sms.txt` body. */
+  smsAllowed: Set<string>;
+  /** Templates with a `.push.json` notification (title/body/url). */
+  pushAllowed: Set<string>;
+  manifests: Map<string, TemplateManifest>;
+  /** Path of the email body for the closest available variant of `locale`. */
+  resolveTemplatePath(template: string, locale?: string): string;
+  /** The locale a render for `locale` would actually use on `channel`. */
+  resolveLocale(template: string, channel: TemplateChannel, locale?: string): string;
+  loadTemplate(template: string, data: Record<string, unknown>, options?: RenderOptions): Promise<string>;
+  /** Renders the HTML body plus a text part from the sibling `.txt` template, or derived from the HTML. */
+  renderMessage(template: string, data: Record<string, unknown>, options?: RenderOptions): Promise<RenderedMessage>;
+  renderSms(template: string, data: Record<string, unknown>, options?: RenderOptions): Promise<string>;
+  renderPush(template: string, data: Record<string, unknown>, options?: RenderOptions): Promise<PushNotification>;
+  describeTemplate(template: string): Promise<TemplateDescription>;
+};
+
+/** Sendable template names in `files` with the given extension; `_`-prefixed paths are shared, not sendable. */
+export function discoverTemplates(files: Map<string, string>, extension = TEMPLATE_EXTENSION): Set<string> {
+  const templates = new Set<string>();
+  for (const file of files.keys()) {
+    if (!file.endsWith(extension)) continue;
+    if (file.split('/').some((segment) => segment.startsWith(SHARED_PREFIX))) continue;
+    templates.add(file.slice(0, -extension.length));
+  }
+  return templates;
+}
+
+function safeReadBundle(baseDir: string): TemplateBundle {
+  try {
+    return readTemplateBundle(baseDir);
+  } catch (error) {
+    logger.error('Failed to discover templates', { dir: baseDir, error });
+    return createTemplateBundle(new Map());
+  }
+}
+
+/** Template name → locales with a `<name>.<locale><extension>` variant. */
+type LocaleVariants = Map<string, Set<string>>;
+
+/**
+ * Separates `<name>.<locale>` variants from sendable names. A variant is only used
+ * alongside its unsuffixed template, which is the `en` fallback.
+ */
+function splitLocaleVariants(discovered: Set<string>): { names: Set<string>; variants: LocaleVariants } {
+  const names = new Set<string>();
+  const variants: LocaleVariants = new Map();
+  for (const name of discovered) {
+    const variant = splitLocaleSuffix(name);
+    if (!variant) {
+      names.add(name);
+      continue;
+    }
+    const locales = variants.get(variant.name) ?? new Set<string>();
+    locales.add(variant.locale);
+    variants.set(variant.name, locales);
+  }
+  for (const name of variants.keys()) {
+    if (names.has(name)) continue;
+    logger.warn('Localized variants have no default template; ignoring them', { template: name });
+    variants.delete(name);
+  }
+  return { names, variants };
+}
+
+function discoverChannel(files: Map<string, string>, extension: string) {
+  return splitLocaleVariants(discoverTemplates(files, extension));
+}
+
+/** The variant file name to use for `locale`, e.g. `Security/password-changed.pt` for `pt-BR`. */
+function variantName(variants: LocaleVariants, name: string, locale: string | undefined): string {
+  const available = variants.get(name);
+  const match = available && localeFallbacks(locale).find((candidate) => available.has(candidate));
+  return match ? `${name}.${match}` : name;
+}
+
+function variantLocale(variant: string): string {
+  return splitLocaleSuffix(variant)?.locale ?? DEFAULT_LOCALE;
+}
+
+export function normalizeTemplateName(template: string): string {
+  if (!template || typeof template !== 'string') {
+    throw new Error('Template is required');
+  }
+  if (template.includes('..')) {
+    throw new Error('Invalid template path');
+  }
+  const cleaned = template.trim().replace(/^\/+/, '').replace(/\.html$/i, '');
+  if (!cleaned) {
+    throw new Error('Template is required');
+  }
+  return cleaned;
+}
+
+/** Bundle key for `name` plus `extension`; the name must stay inside the template root. */
+function fileKey(name: string, extension = TEMPLATE_EXTENSION): string {
+  const key = path.posix.normalize(`${name}${extension}`);
+  if (key.startsWith('../') || path.posix.isAbsolute(key)) {
+    throw new Error('Template path outside allowed directory');
+  }
+  return key;
+}
+
+const SIDE_FILE_EXTENSIONS = [SMS_EXTENSION, PUSH_EXTENSION, TEMPLATE_EXTENSION, TEXT_EXTENSION, MANIFEST_EXTENSION];
+
+/** Files that affect how `name` renders: its own (every channel and locale) and everything shared. */
+function versionFor(files: Map<string, string>, name: string): string {
+  const owned = [...files].filter(([file]) => {
+    if (file.split('/').some((segment) => segment.startsWith(SHARED_PREFIX))) return true;
+    const extension = SIDE_FILE_EXTENSIONS.find((candidate) => file.endsWith(candidate));
+    if (!extension) return false;
+    const stem = file.slice(0, -extension.length);
+    return stem === name || splitLocaleSuffix(stem)?.name === name;
+  });
+  return hashFiles(owned);
+}
+
+/**
+ * Reads the `<template>.json` sidecar for each discovered template. A template whose
+ * manifest is unreadable is dropped from every allowed set: sending it would skip data validation.
+ */
+function loadManifests(
+  files: Map<string, string>,
+  allowedSets: Set<string>[],
+  variantSets: LocaleVariants[],
+): Map<string, TemplateManifest> {
+  const manifests = new Map<string, TemplateManifest>();
+  const names = new Set(allowedSets.flatMap((allowed) => [...allowed]));
+  for (const name of names) {
+    const raw = files.get(fileKey(name, MANIFEST_EXTENSION));
+    if (raw === undefined) continue;
+    let manifest: TemplateManifest;
+    try {
+      manifest = parseManifest(JSON.parse(raw), name);
+    } catch (error) {
+      logger.error('Invalid manifest; template disabled', { template: name, error });
+      allowedSets.forEach((allowed) => allowed.delete(name));
+      continue;
+    }
+
+    // A broken translation only costs its subject; the default subject still applies.
+    const locales = new Set(variantSets.flatMap((variants) => [...(variants.get(name) ?? [])]));
+    const subjects: Record<string, string> = {};
+    for (const locale of locales) {
+      const localeRaw = files.get(fileKey(`${name}.${locale}`, MANIFEST_EXTENSION));
+      if (localeRaw === undefined) continue;
+      try {
+        const { subject } = parseLocaleManifest(JSON.parse(localeRaw), `${name}.${locale}`);
+        if (subject) subjects[locale] = subject;
+      } catch (error) {
+        logger.error('Invalid locale manifest; using the default subject', { template: name, locale, error });
+      }
+    }
+    manifests.set(name, Object.keys(subjects).length > 0 ? { ...manifest, subjects } : manifest);
+  }
+  return manifests;
+}
+
+/** Builds a registry over `bundle`, read from `baseDir` when not given. */
+export function createTemplateRegistry(
+  baseDir: string,
+  bundle: TemplateBundle = safeReadBundle(baseDir),
+): TemplateRegistry {
+  const { files } = bundle;
+  const email = discoverChannel(files, TEMPLATE_EXTENSION);
+  const sms = discoverChannel(files, SMS_EXTENSION);
+  const push = discoverChannel(files, PUSH_EXTENSION);
+  const allowed = email.names;
+  const smsAllowed = sms.names;
+  const pushAllowed = push.names;
+  const manifests = loadManifests(
+    files,
+    [allowed, smsAllowed, pushAllowed],
+    [email.variants, sms.variants, push.variants],
+  );
+  const variantsByChannel: Record<TemplateChannel, LocaleVariants> = {
+    email: email.variants,
+    sms: sms.variants,
+    push: push.variants,
+  };
+  const versions = new Map(
+    [...new Set([...allowed, ...smsAllowed, ...pushAllowed])].map((name) => [name, versionFor(files, name)]),
+  );
+
+  const readFile = (key: string): string => {
+    const content = files.get(key);
+    if (content === undefined) throw new Error(`Template file ${key} not found`);
+    return content;
+  };
+
+  const resolveTemplatePath = (template: string, locale?: string): string => {
+    const normalized = normalizeTemplateName(template);
+    if (!allowed.has(normalized)) {
+      throw new Error('Unknown template');
+    }
+    return path.join(baseDir, fileKey(variantName(email.variants, normalized, locale)));
+  };
+  const templateKey = (template: string, locale?: string): string =>
+    path.relative(baseDir, resolveTemplatePath(template, locale)).replace(/\\/g, '/');
+
+  const parseFile = async (name: string, key: string): Promise<ParsedTemplate> => parseTemplate(name, readFile(key));
+
+  // Layouts and partials may be localized too (`_partials/footer.pt-BR.html`).
+  const sharedKey = (name: string, extension: string, locale: string | undefined): string => {
+    const normalized = normalizeTemplateName(name);
+    for (const candidate of locale ? localeFallbacks(locale) : []) {
+      const localized = fileKey(`${normalized}.${candidate}`, extension);
+      if (files.has(localized)) return localized;
+    }
+    return fileKey(normalized, extension);
+  };
+
+  // Loads every shared layout/partial the entry reaches through `{{ template }}`.
+  const loadShared = async (entry: ParsedTemplate, extension: string, locale?: string): Promise<ParsedTemplate[]> => {
+    const loaded = new Map<string, ParsedTemplate>();
+    const defined = new Set(entry.defines.keys());
+    const pending = [...referencedTemplates(entry)];
+    while (pending.length > 0) {
+      const name = pending.pop() as string;
+      if (loaded.has(name) || defined.has(name) || name === entry.name) continue;
+      if (!name.startsWith(SHARED_PREFIX)) continue;
+      const parsed = await parseFile(name, sharedKey(name, extension, locale));
+      loaded.set(name, parsed);
+      parsed.defines.forEach((_body, defineName) => defined.add(defineName));
+      pending.push(...referencedTemplates(parsed));
+    }
+    return [...loaded.values()];
+  };
+
+  const loadPush = async (normalized: string, locale?: string) => {
+    if (!pushAllowed.has(normalized)) {
+      throw new Error('Unknown template');
+    }
+    const variant = variantName(push.variants, normalized, locale);
+    return parsePushTemplate(JSON.parse(readFile(fileKey(variant, PUSH_EXTENSION))), normalized);
+  };
+
+  const textKeyFor = (variant: string) => fileKey(variant, TEXT_EXTENSION);
+
+  const loadTemplate = async (template: string, data: Record<string, unknown>, options?: RenderOptions) => {
+    const normalized = normalizeTemplateName(template);
+    const entry = await parseFile(normalized, templateKey(normalized, options?.locale));
+    const shared = await loadShared(entry, TEMPLATE_EXTENSION, options?.locale);
+    return renderParsed(entry, shared, data, options);
+  };
+
+  return {
+    dir: baseDir,
+    version: bundle.version,
+    loadedAt: bundle.loadedAt,
+    files,
+    versions,
+    allowed,
+    smsAllowed,
+    pushAllowed,
+    manifests,
+    resolveTemplatePath,
+    resolveLocale(template: string, channel: TemplateChannel, locale?: string) {
+      return variantLocale(variantName(variantsByChannel[channel], normalizeTemplateName(template), locale));
+    },
+    loadTemplate,
+    async renderMessage(template: string, data: Record<string, unknown>, options?: RenderOptions) {
+      const html = await loadTemplate(template, data, options);
+      const normalized = normalizeTemplateName(template);
+      // The text part follows the HTML variant; a translated body is never paired with English text.
+      const textKey = textKeyFor(variantName(email.variants, normalized, options?.locale));
+      if (!files.has(textKey)) {
+        return { html, text: htmlToText(html) };
+      }
+      const entry = await parseFile(normalized, textKey);
+      const shared = await loadShared(entry, TEXT_EXTENSION, options?.locale);
+      const text = renderParsed(entry, shared, data, { ...options, mode: 'text' }).trim();
+      return { html, text };
+    },
+    async renderSms(template: string, data: Record<string, unknown>, options?: RenderOptions) {
+      const normalized = normalizeTemplateName(template);
+      if (!smsAllowed.has(normalized)) {
+        throw new Error('Unknown template');
+      }
+      const variant = variantName(sms.variants, normalized, options?.locale);
+      const entry = await parseFile(normalized, fileKey(variant, SMS_EXTENSION));
+      const shared = await loadShared(entry, SMS_EXTENSION, options?.locale);
+      return renderParsed(entry, shared, data, { ...options, mode: 'text' }).trim();
+    },
+    async renderPush(template: string, data: Record<string, unknown>, options?: RenderOptions) {
+      const parsed = await loadPush(normalizeTemplateName(template), options?.locale);
+      return renderPushTemplate(parsed, data, options);
+    },
+    async describeTemplate(template: string) {
+      const normalized = normalizeTemplateName(template);
+      const channels: TemplateChannel[] = [];
+      const parsed: ParsedTemplate[] = [];
+      const parseWithShared = async (key: string, extension: string) => {
+        const entry = await parseFile(normalized, key);
+        parsed.push(entry, ...(await loadShared(entry, extension)));
+      };
+
+      if (allowed.has(normalized)) {
+        channels.push('email');
+        await parseWithShared(templateKey(normalized), TEMPLATE_EXTENSION);
+      }
+      const textKey = textKeyFor(normalized);
+      const hasTextPart = channels.includes('email') && files.has(textKey);
+      if (hasTextPart) {
+        await parseWithShared(textKey, TEXT_EXTENSION);
+      }
+      if (smsAllowed.has(normalized)) {
+        channels.push('sms');
+        await parseWithShared(fileKey(normalized, SMS_EXTENSION), SMS_EXTENSION);
+      }
+      if (pushAllowed.has(normalized)) {
+        channels.push('push');
+        (await loadPush(normalized)).forEach((field) => parsed.push(field));
+      }
+      if (channels.length === 0) {
+        throw new Error('Unknown template');
+      }
+
+      const locales: Partial<Record<TemplateChannel, string[]>> = {};
+      for (const channel of channels) {
+        const variants = [...(variantsByChannel[channel].get(normalized) ?? [])];
+        locales[channel] = [...new Set([DEFAULT_LOCALE, ...variants])].sort();
+      }
+
+      const used = new Set<string>();
+      parsed.forEach((item) => referencedDataKeys(item).forEach((key) => used.add(key)));
+      const manifest = manifests.get(normalized);
+      const subjectLocales = manifest ? [DEFAULT_LOCALE, ...Object.keys(manifest.subjects ?? {})] : [];
+      const declared = manifest?.data ?? {};
+      const names = [...new Set([...Object.keys(declared), ...used])].sort();
+      return {
+        name: normalized,
+        version: versions.get(normalized) as string,
+        category: manifest?.category,
+        description: manifest?.description,
+        subject: manifest?.subject,
+        channels,
+        locales,
+        subjectLocales: [...new Set(subjectLocales)].sort(),
+        hasTextPart,
+        variables: names.map((name) => ({ name, ...declared[name], used: used.has(name) })),
+      };
+    },
+  };
+}
@@ -0,0 +1,22 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { countSmsSegments } from './sms';
+
+test('countSmsSegments uses GSM-7 limits for plain text', () => {
+  assert.deepEqual(countSmsSegments('a'.repeat(160)), { encoding: 'GSM-7', units: 160, segments: 1 });
+  assert.deepEqual(countSmsSegments('a'.repeat(161)), { encoding: 'GSM-7', units: 161, segments: 2 });
+  assert.equal(countSmsSegments('a'.repeat(306)).segments, 2);
+  assert.equal(countSmsSegments('a'.repeat(307)).segments, 3);
+});
+
+test('countSmsSegments counts extension characters twice', () => {
+  assert.deepEqual(countSmsSegments('€[]'), { encoding: 'GSM-7', units: 6, segments: 1 });
+  assert.equal(countSmsSegments('{'.repeat(81)).segments, 2);
+});
+
+test('countSmsSegments switches to UCS-2 for other characters', () => {
+  assert.deepEqual(countSmsSegments('—'.repeat(70)), { encoding: 'UCS-2', units: 70, segments: 1 });
+  assert.deepEqual(countSmsSegments(`${'a'.repeat(70)}—`), { encoding: 'UCS-2', units: 71, segments: 2 });
+  assert.equal(countSmsSegments('😀').units, 2);
+});
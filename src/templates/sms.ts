@@ -0,0 +1,42 @@
+// GSM 03.38 basic character set; anything outside it (and the extension table) forces UCS-2.
+const GSM_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+// Extension characters are sent as an escape plus the character, so they cost two septets.
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+const GSM_BASIC_SET = new Set(GSM_BASIC);
+const GSM_EXTENDED_SET = new Set(GSM_EXTENDED);
+
+const GSM_SINGLE_LIMIT = 160;
+const GSM_CONCAT_LIMIT = 153;
+const UCS2_SINGLE_LIMIT = 70;
+const UCS2_CONCAT_LIMIT = 67;
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export type SmsSegmentInfo = {
+  encoding: SmsEncoding;
+  /** Septets for GSM-7, UTF-16 code units for UCS-2. */
+  units: number;
+  segments: number;
+};
+
+export function countSmsSegments(body: string): SmsSegmentInfo {
+  let septets = 0;
+  for (const char of body) {
+    if (GSM_BASIC_SET.has(char)) {
+      septets += 1;
+    } else if (GSM_EXTENDED_SET.has(char)) {
+      septets += 2;
+    } else {
+      return measure('UCS-2', body.length, UCS2_SINGLE_LIMIT, UCS2_CONCAT_LIMIT);
+    }
+  }
+  return measure('GSM-7', septets, GSM_SINGLE_LIMIT, GSM_CONCAT_LIMIT);
+}
+
+function measure(encoding: SmsEncoding, units: number, single: number, concat: number): SmsSegmentInfo {
+  const segments = units === 0 ? 0 : units <= single ? 1 : Math.ceil(units / concat);
+  return { encoding, units, segments };
+}
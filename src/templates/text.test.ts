@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import test from 'node:test';
+
+import { createTemplateRegistry } from './registry';
+import { decodeEntities, htmlToText } from './text';
+
+const TEMPLATE_DIR = path.resolve(__dirname, '..', '..', 'templates');
+const registry = createTemplateRegistry(TEMPLATE_DIR);
+
+const CONFIRMATION_URL = 'https://app.intellex.test/auth/confirm?token=abc&type=magiclink&redirect_to=https%3A%2F%2Fapp.intellex.test';
+
+const SAMPLE_DATA = {
+  ConfirmationURL: CONFIRMATION_URL,
+  Email: 'user@example.com',
+  NewEmail: 'new@example.com',
+  OldEmail: 'old@example.com',
+  Provider: 'Google',
+  FactorType: 'totp',
+  Phone: '+15555550100',
+  OldPhone: '+15555550199',
+  Token: '123456',
+};
+
+test('decodeEntities handles named and numeric entities', () => {
+  assert.equal(decodeEntities('a &amp; b &lt;c&gt; &#34;d&#34; &#x27;e&#x27; &copy;'), 'a & b <c> "d" \'e\' ©');
+});
+
+test('htmlToText drops styles and keeps link targets', () => {
+  const html = `<html><head><style>.x { color: red; }</style></head><body>
+    <p>Hello
+      there</p><a href="https://x.test/?a=1&amp;b=2">Open</a><br><a href="https://x.test/raw">https://x.test/raw</a>
+  </body></html>`;
+  assert.equal(htmlToText(html), 'Hello there\nOpen (https://x.test/?a=1&b=2)\nhttps://x.test/raw');
+});
+
+test('every template produces a text part that keeps its ConfirmationURL links', async () => {
+  let linked = 0;
+  for (const name of registry.allowed) {
+    const { text } = await registry.renderMessage(name, SAMPLE_DATA);
+    assert.ok(text.trim().length > 0, `${name} has an empty text part`);
+    assert.doesNotMatch(text, /<[a-z][^>]*>|{{|color-scheme/i, name);
+
+    const source = fs.readFileSync(path.join(TEMPLATE_DIR, `${name}.html`), 'utf8');
+    if (!source.includes('ConfirmationURL')) continue;
+    linked += 1;
+    assert.ok(text.includes(CONFIRMATION_URL), `${name} lost its ConfirmationURL`);
+  }
+  assert.ok(linked > 0, 'no template links to ConfirmationURL');
+});
@@ -0,0 +1,75 @@
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+};
+
+const BLOCK_TAGS = 'p|div|tr|table|h[1-6]|li|ul|ol|section|article|header|footer|blockquote|center';
+const MAX_BLANK_LINES = 1;
+
+export function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? Number.parseInt(entity.slice(2), 16) : Number.parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function collapse(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Derives a plain-text body from rendered email HTML: drops <head>, styles, scripts
+ * and comments, keeps link targets as `label (url)`, and turns block elements into
+ * line breaks so paragraphs survive.
+ */
+export function htmlToText(html: string): string {
+  let text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<head[\s\S]*?<\/head>/gi, '')
+    .replace(/<(style|script|svg)[\s\S]*?<\/\1>/gi, '');
+
+  text = text.replace(/<a\b[^>]*?\bhref\s*=\s*(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi, (_match, _quote, href: string, inner: string) => {
+    const url = decodeEntities(href.trim());
+    const label = collapse(decodeEntities(inner.replace(/<[^>]+>/g, ' ')));
+    if (!url || url.startsWith('#')) return label;
+    if (!label || label === url) return ` ${url} `;
+    return ` ${label} (${url}) `;
+  });
+
+  // Source line breaks are formatting only; structure comes from the tags below.
+  text = text
+    .replace(/\s+/g, ' ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(new RegExp(`</?(?:${BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n')
+    .replace(/<td\b[^>]*>/gi, ' ')
+    .replace(/<[^>]+>/g, '');
+
+  const lines = decodeEntities(text)
+    .split('\n')
+    .map((line) => collapse(line));
+
+  const result: string[] = [];
+  let blank = 0;
+  for (const line of lines) {
+    if (!line) {
+      blank += 1;
+      if (blank <= MAX_BLANK_LINES && result.length > 0) result.push('');
+      continue;
+    }
+    blank = 0;
+    result.push(line);
+  }
+  while (result.length > 0 && !result[result.length - 1]) result.pop();
+  return result.join('\n');
+}
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { parseBounceType, parseResendEventDetail } from './resend-events';
+
+test('parseResendEventDetail extracts click and open details', () => {
+  const click = {
+    type: 'email.clicked',
+    data: {
+      email_id: 'msg-1',
+      click: {
+        ipAddress: '203.0.113.7',
+        link: 'https://app.example.com/projects/1',
+        timestamp: '2024-03-05T12:00:00.000Z',
+        userAgent: 'Mozilla/5.0',
+      },
+    },
+  };
+  assert.deepEqual(parseResendEventDetail('clicked', click), {
+    kind: 'click',
+    url: 'https://app.example.com/projects/1',
+    userAgent: 'Mozilla/5.0',
+    ipAddress: '203.0.113.7',
+  });
+  assert.equal(parseResendEventDetail('clicked', { type: 'email.clicked', data: {} }), undefined);
+
+  const open = { type: 'email.opened', data: { open: { user_agent: 'Apple Mail' } } };
+  assert.deepEqual(parseResendEventDetail('opened', open), { kind: 'open', userAgent: 'Apple Mail' });
+  assert.equal(parseResendEventDetail('delivered', click), undefined);
+});
+
+test('parseResendEventDetail structures bounce diagnostics', () => {
+  const bounce = {
+    type: 'email.bounced',
+    data: {
+      bounce: {
+        type: 'Permanent',
+        subType: 'General',
+        message: 'The recipient does not exist.',
+        diagnosticCode: ['smtp; 550 5.1.1 user unknown'],
+      },
+    },
+  };
+  assert.deepEqual(parseResendEventDetail('bounced', bounce), {
+    kind: 'bounce',
+    type: 'hard',
+    subType: 'General',
+    message: 'The recipient does not exist.',
+    diagnosticCode: 'smtp; 550 5.1.1 user unknown',
+  });
+  assert.deepEqual(parseResendEventDetail('bounced', { bounce_type: 'soft' }), { kind: 'bounce', type: 'soft' });
+  assert.deepEqual(parseResendEventDetail('delivery_delayed', { data: {} }), { kind: 'delay' });
+});
+
+test('parseBounceType maps provider classifications', () => {
+  assert.equal(parseBounceType('Transient'), 'transient');
+  assert.equal(parseBounceType('Undetermined'), 'soft');
+  assert.equal(parseBounceType('Permanent'), 'hard');
+  assert.equal(parseBounceType('unknown'), 'hard');
+  assert.equal(parseBounceType(undefined), 'hard');
+});
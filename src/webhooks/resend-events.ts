@@ -0,0 +1,91 @@
+import type { BounceType, ProviderEventDetail } from '../contracts/send';
+
+// Resend reports `Permanent`, `Transient` or `Undetermined`; anything unrecognised is treated as permanent.
+const BOUNCE_TYPE_ALIASES: Record<string, BounceType> = {
+  permanent: 'hard',
+  hard: 'hard',
+  transient: 'transient',
+  soft: 'soft',
+  undetermined: 'soft',
+};
+
+function readString(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined;
+}
+
+/** Looks under `data` first (current payloads), then at the top level (older and forwarded payloads). */
+function readSection(payload: Record<string, unknown>, key: string): Record<string, unknown> | undefined {
+  return asRecord(asRecord(payload.data)?.[key]) ?? asRecord(payload[key]);
+}
+
+function readField(section: Record<string, unknown> | undefined, ...keys: string[]): string | undefined {
+  if (!section) return undefined;
+  for (const key of keys) {
+    const value = section[key];
+    const asString = Array.isArray(value) ? readString(value[0]) : readString(value);
+    if (asString) return asString;
+  }
+  return undefined;
+}
+
+function compact<T extends Record<string, unknown>>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+}
+
+export function parseBounceType(raw: string | undefined): BounceType {
+  return (raw && BOUNCE_TYPE_ALIASES[raw.toLowerCase()]) || 'hard';
+}
+
+/**
+ * Pulls the typed detail for an event out of a Resend webhook body. Returns undefined for statuses that
+ * carry no detail, and for clicks without a link, which are not worth reporting.
+ */
+export function parseResendEventDetail(
+  status: string,
+  payload: Record<string, unknown>,
+): ProviderEventDetail | undefined {
+  switch (status) {
+    case 'opened': {
+      const open = readSection(payload, 'open');
+      return compact({
+        kind: 'open' as const,
+        userAgent: readField(open, 'userAgent', 'user_agent'),
+        ipAddress: readField(open, 'ipAddress', 'ip_address'),
+      });
+    }
+    case 'clicked': {
+      const click = readSection(payload, 'click');
+      const url = readField(click, 'link', 'url');
+      if (!url) return undefined;
+      return compact({
+        kind: 'click' as const,
+        url,
+        userAgent: readField(click, 'userAgent', 'user_agent'),
+        ipAddress: readField(click, 'ipAddress', 'ip_address'),
+      });
+    }
+    case 'bounced': {
+      const bounce = readSection(payload, 'bounce');
+      const flatType = readField(asRecord(payload.data), 'bounce_type') ?? readField(payload, 'bounce_type');
+      return compact({
+        kind: 'bounce' as const,
+        type: parseBounceType(readField(bounce, 'type') ?? flatType),
+        subType: readField(bounce, 'subType', 'sub_type'),
+        message: readField(bounce, 'message'),
+        diagnosticCode: readField(bounce, 'diagnosticCode', 'diagnostic_code'),
+      });
+    }
+    case 'delivery_delayed': {
+      const delay = readSection(payload, 'delay') ?? readSection(payload, 'delivery_delayed');
+      return compact({ kind: 'delay' as const, message: readField(delay, 'message', 'reason') });
+    }
+    default:
+      return undefined;
+  }
+}
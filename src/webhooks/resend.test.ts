@@ -1,12 +1,23 @@
 import assert from 'node:assert/strict';
 import test from 'node:test';
 
-import { createResendSignatureHeader, verifyResendSignature } from './resend';
+import { createMemoryStore } from '../stores';
+import {
+  createResendSignatureHeader,
+  createSvixHeaders,
+  createWebhookDeduplicator,
+  RESEND_SIGNATURE_HEADER,
+  SVIX_SIGNATURE_HEADER,
+  verifyResendSignature,
+  verifyResendWebhook,
+} from './resend';
 
 const SECRET = 'test-secret';
 const PAYLOAD = '{"event":"delivered"}';
 const TIMESTAMP_SECONDS = 1_700_000_000;
 const NOW_MS = TIMESTAMP_SECONDS * 1000;
+const SVIX_SECRET = `whsec_${Buffer.from('svix-secret-bytes').toString('base64')}`;
+const ROTATED_SECRET = `whsec_${Buffer.from('rotated-secret-bytes').toString('base64')}`;
 
 test('verifyResendSignature accepts a valid signature', () => {
   const header = createResendSignatureHeader(SECRET, TIMESTAMP_SECONDS, PAYLOAD);
@@ -43,3 +54,68 @@ test('verifyResendSignature rejects an old timestamp', () => {
   });
   assert.equal(result.ok, false);
 });
+
+test('verifyResendWebhook accepts Svix headers and reports the event id', () => {
+  const headers = createSvixHeaders(SVIX_SECRET, 'msg_123', TIMESTAMP_SECONDS, PAYLOAD);
+  const result = verifyResendWebhook({ secrets: [SVIX_SECRET], headers, payload: PAYLOAD, now: NOW_MS });
+  assert.deepEqual(result, { ok: true, timestamp: TIMESTAMP_SECONDS, eventId: 'svix:msg_123' });
+
+  const tampered = verifyResendWebhook({ secrets: [SVIX_SECRET], headers, payload: '{}', now: NOW_MS });
+  assert.equal(tampered.reason, 'signature mismatch');
+  const stale = verifyResendWebhook({ secrets: [SVIX_SECRET], headers, payload: PAYLOAD, now: NOW_MS + 600_000 });
+  assert.equal(stale.reason, 'signature timestamp outside tolerance');
+  const missingId = verifyResendWebhook({
+    secrets: [SVIX_SECRET],
+    headers: { [SVIX_SIGNATURE_HEADER]: headers[SVIX_SIGNATURE_HEADER] },
+    payload: PAYLOAD,
+    now: NOW_MS,
+  });
+  assert.equal(missingId.reason, 'missing signature headers');
+});
+
+test('verifyResendWebhook matches any of several space-separated signatures', () => {
+  const signed = createSvixHeaders(ROTATED_SECRET, 'msg_456', TIMESTAMP_SECONDS, PAYLOAD);
+  const other = createSvixHeaders(SVIX_SECRET, 'msg_456', TIMESTAMP_SECONDS, PAYLOAD);
+  const headers = {
+    ...signed,
+    [SVIX_SIGNATURE_HEADER]: `v2,ignored ${other[SVIX_SIGNATURE_HEADER]} ${signed[SVIX_SIGNATURE_HEADER]}`,
+  };
+  assert.equal(verifyResendWebhook({ secrets: [ROTATED_SECRET], headers, payload: PAYLOAD, now: NOW_MS }).ok, true);
+  const unknown = `whsec_${Buffer.from('unknown').toString('base64')}`;
+  assert.equal(verifyResendWebhook({ secrets: [unknown], headers, payload: PAYLOAD, now: NOW_MS }).ok, false);
+});
+
+test('verifyResendWebhook accepts either secret during rotation', () => {
+  for (const secret of [SVIX_SECRET, ROTATED_SECRET]) {
+    const headers = createSvixHeaders(secret, 'msg_789', TIMESTAMP_SECONDS, PAYLOAD);
+    const secrets = [SVIX_SECRET, ROTATED_SECRET];
+    assert.equal(verifyResendWebhook({ secrets, headers, payload: PAYLOAD, now: NOW_MS }).ok, true);
+  }
+
+  const legacy = { [RESEND_SIGNATURE_HEADER]: createResendSignatureHeader('new-secret', TIMESTAMP_SECONDS, PAYLOAD) };
+  const result = verifyResendWebhook({
+    secrets: ['old-secret', 'new-secret'],
+    headers: legacy,
+    payload: PAYLOAD,
+    now: NOW_MS,
+  });
+  assert.equal(result.ok, true);
+  assert.match(result.eventId ?? '', /^resend:[0-9a-f]{64}$/);
+  assert.equal(verifyResendWebhook({ secrets: [], headers: legacy, payload: PAYLOAD, now: NOW_MS }).ok, false);
+});
+
+test('webhook deduplicator recognises retries and replays until released', async () => {
+  const dedup = createWebhookDeduplicator(createMemoryStore<number>());
+  const first = createSvixHeaders(SVIX_SECRET, 'msg_retry', TIMESTAMP_SECONDS, PAYLOAD);
+  // A provider retry is signed afresh but keeps its svix-id.
+  const retry = createSvixHeaders(SVIX_SECRET, 'msg_retry', TIMESTAMP_SECONDS + 30, PAYLOAD);
+  const firstId = verifyResendWebhook({ secrets: [SVIX_SECRET], headers: first, payload: PAYLOAD, now: NOW_MS });
+  const retryId = verifyResendWebhook({ secrets: [SVIX_SECRET], headers: retry, payload: PAYLOAD, now: NOW_MS });
+  assert.equal(firstId.eventId, retryId.eventId);
+
+  const eventId = firstId.eventId ?? '';
+  assert.equal(await dedup.claim(eventId), true);
+  assert.equal(await dedup.claim(eventId), false);
+  await dedup.release(eventId);
+  assert.equal(await dedup.claim(eventId), true);
+});
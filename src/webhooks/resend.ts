@@ -1,11 +1,23 @@
 import crypto from 'node:crypto';
 
+import type { KeyValueStore } from '../stores';
+import {
+  createStandardWebhookHeaders,
+  type StandardWebhookHeaderNames,
+  verifyStandardWebhook,
+} from './standard-webhooks';
+
 export const RESEND_SIGNATURE_HEADER = 'resend-signature';
+export const SVIX_ID_HEADER = 'svix-id';
+export const SVIX_TIMESTAMP_HEADER = 'svix-timestamp';
+export const SVIX_SIGNATURE_HEADER = 'svix-signature';
 const SIGNATURE_VERSION = 'v1';
 const SIGNATURE_SEPARATOR = ',';
 const SIGNATURE_KV_SEPARATOR = '=';
 const PAYLOAD_SEPARATOR = '.';
 const DEFAULT_TOLERANCE_SECONDS = 300;
+/** Longer than the provider's retry schedule, so a redelivery is still recognised. */
+const DEFAULT_DEDUP_TTL_MS = 3 * 24 * 60 * 60_000;
 
 export type ResendSignature = {
   timestamp: number;
@@ -18,6 +30,13 @@ type VerificationResult = {
   reason?: string;
 };
 
+export type WebhookVerificationResult = VerificationResult & {
+  /** Stable across provider retries of one event (Svix), or unique to one signed request (legacy header). */
+  eventId?: string;
+};
+
+type HeaderValue = string | string[] | undefined;
+
 function parseKeyValue(part: string): { key: string; value: string } | null {
   const trimmed = part.trim();
   if (!trimmed) return null;
@@ -104,3 +123,90 @@ export function createResendSignatureHeader(secret: string, timestamp: number, p
   const signature = computeResendSignature(secret, timestamp, payload);
   return `t=${timestamp},${SIGNATURE_VERSION}=${signature}`;
 }
+
+// Svix signs with the Standard Webhooks scheme under its own header names.
+const SVIX_HEADER_NAMES: StandardWebhookHeaderNames = {
+  id: SVIX_ID_HEADER,
+  timestamp: SVIX_TIMESTAMP_HEADER,
+  signature: SVIX_SIGNATURE_HEADER,
+};
+
+export function createSvixHeaders(
+  secret: string,
+  id: string,
+  timestamp: number,
+  payload: string,
+): Record<string, string> {
+  return createStandardWebhookHeaders(secret, id, timestamp, payload, SVIX_HEADER_NAMES);
+}
+
+/**
+ * Verifies a Resend webhook signed either with Svix headers (`svix-id`, `svix-timestamp`,
+ * `svix-signature`) or the legacy `resend-signature` header. Any of `secrets` may match,
+ * which lets a new secret be rolled out before the old one is retired.
+ */
+export function verifyResendWebhook(options: {
+  secrets: string[];
+  headers: Record<string, HeaderValue>;
+  payload: string;
+  toleranceSeconds?: number;
+  now?: number;
+}): WebhookVerificationResult {
+  const { secrets, headers, payload } = options;
+  const toleranceSeconds = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  const now = options.now ?? Date.now();
+  if (secrets.length === 0) {
+    return { ok: false, reason: 'no webhook secret configured' };
+  }
+  if (headers[SVIX_SIGNATURE_HEADER] !== undefined) {
+    const { id, ...result } = verifyStandardWebhook({
+      secrets,
+      headers,
+      payload,
+      toleranceSeconds,
+      now,
+      names: SVIX_HEADER_NAMES,
+    });
+    return result.ok ? { ...result, eventId: `svix:${id}` } : result;
+  }
+
+  let result: VerificationResult = { ok: false, reason: 'missing signature header' };
+  for (const secret of secrets) {
+    result = verifyResendSignature({
+      secret,
+      signatureHeader: headers[RESEND_SIGNATURE_HEADER],
+      payload,
+      toleranceSeconds,
+      now,
+    });
+    if (result.ok) {
+      // Legacy deliveries carry no event id; the signature pins one request, which is what a replay reuses.
+      const signature = parseResendSignatureHeader(headers[RESEND_SIGNATURE_HEADER])?.signature;
+      return { ...result, eventId: `resend:${signature}` };
+    }
+    if (result.reason !== 'signature mismatch') break;
+  }
+  return result;
+}
+
+export type WebhookDeduplicator = {
+  /** Returns false when the event was already claimed, i.e. this delivery is a retry or a replay. */
+  claim(eventId: string): Promise<boolean>;
+  /** Forgets a claimed event so the provider's next retry is processed, e.g. after a failure. */
+  release(eventId: string): Promise<void>;
+};
+
+export function createWebhookDeduplicator(
+  store: KeyValueStore<number>,
+  ttlMs: number = DEFAULT_DEDUP_TTL_MS,
+  now: () => number = Date.now,
+): WebhookDeduplicator {
+  return {
+    claim(eventId: string) {
+      return store.setIfAbsent(eventId, now(), { ttlMs });
+    },
+    async release(eventId: string) {
+      await store.delete(eventId);
+    },
+  };
+}
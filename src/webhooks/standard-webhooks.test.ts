@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createStandardWebhookHeaders, verifyStandardWebhook } from './standard-webhooks';
+
+const SECRET = `whsec_${Buffer.from('standard-secret-bytes').toString('base64')}`;
+const ROTATED_SECRET = `v1,whsec_${Buffer.from('rotated-secret-bytes').toString('base64')}`;
+const PAYLOAD = '{"type":"email"}';
+const TIMESTAMP_SECONDS = 1_700_000_000;
+const NOW_MS = TIMESTAMP_SECONDS * 1000;
+
+test('verifyStandardWebhook accepts any configured secret and reports the message id', () => {
+  const headers = createStandardWebhookHeaders(ROTATED_SECRET, 'msg_1', TIMESTAMP_SECONDS, PAYLOAD);
+  const result = verifyStandardWebhook({
+    secrets: [SECRET, ROTATED_SECRET],
+    headers,
+    payload: PAYLOAD,
+    toleranceSeconds: 300,
+    now: NOW_MS,
+  });
+  assert.deepEqual(result, { ok: true, id: 'msg_1', timestamp: TIMESTAMP_SECONDS });
+});
+
+test('verifyStandardWebhook rejects missing headers, stale timestamps and other secrets', () => {
+  const headers = createStandardWebhookHeaders(SECRET, 'msg_1', TIMESTAMP_SECONDS, PAYLOAD);
+  const verify = (overrides: { secrets?: string[]; headers?: Record<string, string>; now?: number }) =>
+    verifyStandardWebhook({
+      secrets: overrides.secrets ?? [SECRET],
+      headers: overrides.headers ?? headers,
+      payload: PAYLOAD,
+      toleranceSeconds: 300,
+      now: overrides.now ?? NOW_MS,
+    }).reason;
+
+  assert.equal(verify({ secrets: [] }), 'no webhook secret configured');
+  assert.equal(verify({ headers: { ...headers, 'webhook-signature': '' } }), 'missing signature headers');
+  assert.equal(verify({ now: NOW_MS + 301_000 }), 'signature timestamp outside tolerance');
+  assert.equal(verify({ secrets: [ROTATED_SECRET] }), 'signature mismatch');
+});
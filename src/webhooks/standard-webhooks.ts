@@ -0,0 +1,117 @@
+import crypto from 'node:crypto';
+
+/** Header names of the Standard Webhooks spec; Svix sends the same scheme under `svix-*` names. */
+export type StandardWebhookHeaderNames = {
+  id: string;
+  timestamp: string;
+  signature: string;
+};
+
+export const STANDARD_WEBHOOK_HEADERS: StandardWebhookHeaderNames = {
+  id: 'webhook-id',
+  timestamp: 'webhook-timestamp',
+  signature: 'webhook-signature',
+};
+
+const SECRET_VERSION_PREFIX = 'v1,';
+const SECRET_PREFIX = 'whsec_';
+const SIGNATURE_VERSION = 'v1';
+const SIGNATURE_SEPARATOR = ',';
+const PAYLOAD_SEPARATOR = '.';
+
+type HeaderValue = string | string[] | undefined;
+
+export type StandardWebhookVerification = {
+  ok: boolean;
+  /** The sender's message id; stable across retries of one message. */
+  id?: string;
+  timestamp?: number;
+  reason?: string;
+};
+
+function firstHeader(value: HeaderValue): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function timingSafeEqual(expected: string, provided: string): boolean {
+  const expectedBuffer = Buffer.from(expected, 'utf8');
+  const providedBuffer = Buffer.from(provided, 'utf8');
+  if (expectedBuffer.length !== providedBuffer.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+function signingKey(secret: string): Buffer {
+  // Secrets are base64 after `whsec_`; Supabase shows them with a leading `v1,`. Bare secrets decode the same way.
+  let encoded = secret.startsWith(SECRET_VERSION_PREFIX) ? secret.slice(SECRET_VERSION_PREFIX.length) : secret;
+  encoded = encoded.startsWith(SECRET_PREFIX) ? encoded.slice(SECRET_PREFIX.length) : encoded;
+  return Buffer.from(encoded, 'base64');
+}
+
+export function computeStandardWebhookSignature(
+  secret: string,
+  id: string,
+  timestamp: number,
+  payload: string,
+): string {
+  return crypto
+    .createHmac('sha256', signingKey(secret))
+    .update(`${id}${PAYLOAD_SEPARATOR}${timestamp}${PAYLOAD_SEPARATOR}${payload}`)
+    .digest('base64');
+}
+
+export function createStandardWebhookHeaders(
+  secret: string,
+  id: string,
+  timestamp: number,
+  payload: string,
+  names: StandardWebhookHeaderNames = STANDARD_WEBHOOK_HEADERS,
+): Record<string, string> {
+  return {
+    [names.id]: id,
+    [names.timestamp]: String(timestamp),
+    [names.signature]: `${SIGNATURE_VERSION},${computeStandardWebhookSignature(secret, id, timestamp, payload)}`,
+  };
+}
+
+/** Verifies a Standard Webhooks signature; any of `secrets` may match, so a secret can be rotated. */
+export function verifyStandardWebhook(options: {
+  secrets: string[];
+  headers: Record<string, HeaderValue>;
+  payload: string;
+  toleranceSeconds: number;
+  now: number;
+  names?: StandardWebhookHeaderNames;
+}): StandardWebhookVerification {
+  const { secrets, headers, payload, toleranceSeconds, now, names = STANDARD_WEBHOOK_HEADERS } = options;
+  if (secrets.length === 0) {
+    return { ok: false, reason: 'no webhook secret configured' };
+  }
+  const id = firstHeader(headers[names.id]);
+  const timestampHeader = firstHeader(headers[names.timestamp]);
+  const signatureHeader = firstHeader(headers[names.signature]);
+  const timestamp = timestampHeader ? Number.parseInt(timestampHeader, 10) : Number.NaN;
+  if (!id || !signatureHeader || !Number.isFinite(timestamp)) {
+    return { ok: false, reason: 'missing signature headers' };
+  }
+
+  if (Math.abs(Math.floor(now / 1000) - timestamp) > toleranceSeconds) {
+    return { ok: false, reason: 'signature timestamp outside tolerance', timestamp };
+  }
+
+  // The header lists one `v1,<base64>` entry per active sender secret, separated by spaces.
+  const provided = signatureHeader
+    .split(' ')
+    .map((entry) => entry.split(SIGNATURE_SEPARATOR, 2))
+    .filter(([version, signature]) => version === SIGNATURE_VERSION && signature)
+    .map(([, signature]) => signature);
+  const matched = secrets.some((secret) => {
+    const expected = computeStandardWebhookSignature(secret, id, timestamp, payload);
+    return provided.some((signature) => timingSafeEqual(expected, signature));
+  });
+  if (!matched) {
+    return { ok: false, reason: 'signature mismatch', timestamp };
+  }
+  return { ok: true, id, timestamp };
+}
@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import test from 'node:test';
+
+import { verifyStandardWebhook } from './standard-webhooks';
+import { buildConfirmationUrl, mapSendEmailHook } from './supabase';
+
+// Signed with this secret outside the code under test, as Supabase Auth shows it in the dashboard.
+const HOOK_SECRET = 'v1,whsec_c3VwYWJhc2Utc2VuZC1lbWFpbC1ob29rLXRlc3Qta2V5';
+const SUPABASE_URL = 'https://abcdefgh.supabase.co';
+const NOW_MS = 1_700_000_000 * 1000;
+
+type Fixture = { headers: Record<string, string>; body: string };
+
+function loadFixture(name: string): Fixture {
+  const file = path.join(__dirname, 'fixtures', 'supabase', `${name}.json`);
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as Fixture;
+}
+
+function verifiedHook(name: string) {
+  const fixture = loadFixture(name);
+  const verification = verifyStandardWebhook({
+    secrets: [HOOK_SECRET],
+    headers: fixture.headers,
+    payload: fixture.body,
+    toleranceSeconds: 300,
+    now: NOW_MS,
+  });
+  assert.equal(verification.ok, true, verification.reason);
+  return { id: verification.id, hook: mapSendEmailHook(JSON.parse(fixture.body), SUPABASE_URL) };
+}
+
+test('signed signup hook maps to confirm-signup with a verify link and the user locale', () => {
+  const { id, hook } = verifiedHook('signup');
+  assert.equal(id, 'msg_2Yk9dHhRWLgEqjDUaxhZ9eQwqVR');
+  assert.deepEqual(hook, {
+    userId: '8ccaa7af-909f-44e7-84cb-67cdccb56be6',
+    locale: 'pt-BR',
+    emails: [
+      {
+        key: 'email',
+        template: 'Authentication/confirm-signup',
+        to: 'jane@example.com',
+        data: {
+          ConfirmationURL:
+            'https://abcdefgh.supabase.co/auth/v1/verify' +
+            '?token=7d5b7b1964cf5d388340a7f04f1dbb5eeb6c7b52ef8270e1737a58d0' +
+            '&type=signup&redirect_to=https%3A%2F%2Fapp.example.com%2Fwelcome',
+        },
+      },
+    ],
+  });
+});
+
+test('signed recovery hook falls back to site_url when redirect_to is empty', () => {
+  const { hook } = verifiedHook('recovery');
+  assert.equal(hook.locale, undefined);
+  assert.equal(hook.emails[0].template, 'Authentication/reset-password');
+  assert.equal(
+    hook.emails[0].data.ConfirmationURL,
+    'https://abcdefgh.supabase.co/auth/v1/verify?token=pkce_4a0e2c5d0f7b&type=recovery' +
+      '&redirect_to=https%3A%2F%2Fapp.example.com',
+  );
+});
+
+test('signed secure email change sends one confirmation to each address', () => {
+  const { hook } = verifiedHook('email-change');
+  assert.deepEqual(
+    hook.emails.map((email) => [email.key, email.to, email.data.ConfirmationURL]),
+    [
+      [
+        'current',
+        'jane@example.com',
+        'https://abcdefgh.supabase.co/auth/v1/verify?token=hash-for-current-address&type=email_change' +
+          '&redirect_to=https%3A%2F%2Fapp.example.com%2Fsettings',
+      ],
+      [
+        'new',
+        'jane.new@example.com',
+        'https://abcdefgh.supabase.co/auth/v1/verify?token=hash-for-new-address&type=email_change' +
+          '&redirect_to=https%3A%2F%2Fapp.example.com%2Fsettings',
+      ],
+    ],
+  );
+  assert.equal(hook.emails[0].data.Email, 'jane@example.com');
+  assert.equal(hook.emails[0].data.NewEmail, 'jane.new@example.com');
+});
+
+test('signed reauthentication and security notification hooks map to their templates', () => {
+  const reauthentication = verifiedHook('reauthentication').hook.emails;
+  assert.deepEqual(reauthentication, [
+    { key: 'email', template: 'Authentication/reauthentication', to: 'jane@example.com', data: { Token: '884512' } },
+  ]);
+
+  const emailChanged = verifiedHook('email-changed-notification').hook.emails;
+  assert.deepEqual(emailChanged, [
+    {
+      key: 'email',
+      template: 'Security/email-changed',
+      to: 'jane@example.com',
+      data: { Email: 'jane.new@example.com', OldEmail: 'jane@example.com' },
+    },
+  ]);
+});
+
+test('a tampered fixture body fails verification', () => {
+  const fixture = loadFixture('signup');
+  const verification = verifyStandardWebhook({
+    secrets: [HOOK_SECRET],
+    headers: fixture.headers,
+    payload: fixture.body.replace('jane@example.com', 'mallory@example.com'),
+    toleranceSeconds: 300,
+    now: NOW_MS,
+  });
+  assert.deepEqual(verification, { ok: false, reason: 'signature mismatch', timestamp: 1_700_000_000 });
+});
+
+test('mapSendEmailHook accepts the magic_link spelling and rejects unknown or incomplete payloads', () => {
+  const user = { id: 'user-1', email: 'jane@example.com' };
+  const magicLink = mapSendEmailHook(
+    { user, email_data: { email_action_type: 'magic_link', token_hash: 'abc', site_url: 'https://app.example.com' } },
+    SUPABASE_URL,
+  );
+  assert.equal(magicLink.emails[0].template, 'Authentication/magic-link');
+  assert.match(String(magicLink.emails[0].data.ConfirmationURL), /type=magiclink/);
+
+  assert.throws(
+    () => mapSendEmailHook({ user, email_data: { email_action_type: 'toString' } }, SUPABASE_URL),
+    /Unsupported email_action_type: toString/,
+  );
+  assert.throws(
+    () => mapSendEmailHook({ user, email_data: { email_action_type: 'signup' } }, SUPABASE_URL),
+    /email_data.token_hash is required/,
+  );
+  assert.throws(() => mapSendEmailHook({ email_data: { email_action_type: 'signup' } }, SUPABASE_URL), /user.id/);
+});
+
+test('buildConfirmationUrl tolerates a trailing slash and a missing redirect', () => {
+  assert.equal(
+    buildConfirmationUrl(`${SUPABASE_URL}/`, { tokenHash: 'abc', type: 'invite' }),
+    'https://abcdefgh.supabase.co/auth/v1/verify?token=abc&type=invite',
+  );
+});
@@ -0,0 +1,180 @@
+/** `metadata.source` of sends made for the Supabase Auth "Send Email" hook. */
+export const SUPABASE_SOURCE = 'supabase';
+
+const VERIFY_PATH = '/auth/v1/verify';
+
+/** The parts of the hook payload this service reads. */
+export type SupabaseSendEmailPayload = {
+  user: {
+    id: string;
+    email?: string;
+    new_email?: string;
+    phone?: string;
+    user_metadata?: Record<string, unknown>;
+  };
+  email_data: {
+    email_action_type: string;
+    token?: string;
+    token_hash?: string;
+    token_new?: string;
+    token_hash_new?: string;
+    redirect_to?: string;
+    site_url?: string;
+    old_email?: string;
+    old_phone?: string;
+    provider?: string;
+    factor_type?: string;
+  };
+};
+
+/** One email the hook asks for; `key` tells apart the two emails of a secure email change. */
+export type SupabaseEmail = {
+  key: string;
+  template: string;
+  to: string;
+  data: Record<string, unknown>;
+};
+
+type EmailData = SupabaseSendEmailPayload['email_data'];
+type User = SupabaseSendEmailPayload['user'];
+type Mapping = (user: User, email: EmailData, link: (tokenHash: string | undefined) => string) => SupabaseEmail[];
+
+function required(value: string | undefined, field: string): string {
+  if (!value) throw new Error(`${field} is required`);
+  return value;
+}
+
+function confirmationEmail(template: string): Mapping {
+  return (user, email, link) => [
+    {
+      key: 'email',
+      template,
+      to: required(user.email, 'user.email'),
+      data: { ConfirmationURL: link(email.token_hash) },
+    },
+  ];
+}
+
+function notification(template: string, data: (user: User, email: EmailData) => Record<string, unknown>): Mapping {
+  return (user, email) => [{ key: 'email', template, to: required(user.email, 'user.email'), data: data(user, email) }];
+}
+
+/**
+ * With secure email change on, both addresses confirm: the current one with `token_hash_new` and
+ * the new one with `token_hash` (Supabase's names are swapped). Otherwise only the new address gets a link.
+ */
+const emailChange: Mapping = (user, email, link) => {
+  const current = required(user.email, 'user.email');
+  const next = required(user.new_email, 'user.new_email');
+  const data = { Email: current, NewEmail: next };
+  const template = 'Authentication/change-email';
+  const emails: SupabaseEmail[] = [
+    { key: 'new', template, to: next, data: { ...data, ConfirmationURL: link(email.token_hash) } },
+  ];
+  if (email.token_hash_new) {
+    const confirmation = { ...data, ConfirmationURL: link(email.token_hash_new) };
+    emails.unshift({ key: 'current', template, to: current, data: confirmation });
+  }
+  return emails;
+};
+
+const ACTIONS: Record<string, Mapping> = {
+  signup: confirmationEmail('Authentication/confirm-signup'),
+  invite: confirmationEmail('Authentication/invite-user'),
+  magiclink: confirmationEmail('Authentication/magic-link'),
+  // An email OTP sign-in; the link signs the user in like a magic link.
+  email: confirmationEmail('Authentication/magic-link'),
+  recovery: confirmationEmail('Authentication/reset-password'),
+  email_change: emailChange,
+  reauthentication: notification('Authentication/reauthentication', (_user, email) => ({
+    Token: required(email.token, 'email_data.token'),
+  })),
+  password_changed_notification: notification('Security/password-changed', (user) => ({ Email: user.email })),
+  // Goes to the previous address, whose owner is the one who needs to know.
+  email_changed_notification: (user, email) => [
+    {
+      key: 'email',
+      template: 'Security/email-changed',
+      to: required(email.old_email || user.email, 'email_data.old_email'),
+      data: { Email: required(user.email, 'user.email'), OldEmail: required(email.old_email, 'email_data.old_email') },
+    },
+  ],
+  phone_changed_notification: notification('Security/phone-changed', (user, email) => ({
+    Phone: required(user.phone, 'user.phone'),
+    OldPhone: required(email.old_phone, 'email_data.old_phone'),
+    Email: user.email,
+  })),
+  identity_linked_notification: notification('Security/identity-linked', (user, email) => ({
+    Provider: required(email.provider, 'email_data.provider'),
+    Email: user.email,
+  })),
+  identity_unlinked_notification: notification('Security/identity-unlinked', (user, email) => ({
+    Provider: required(email.provider, 'email_data.provider'),
+    Email: user.email,
+  })),
+  mfa_factor_enrolled_notification: notification('Security/mfa-added', (user, email) => ({
+    FactorType: required(email.factor_type, 'email_data.factor_type'),
+    Email: user.email,
+  })),
+  mfa_factor_unenrolled_notification: notification('Security/mfa-removed', (user, email) => ({
+    FactorType: required(email.factor_type, 'email_data.factor_type'),
+    Email: user.email,
+  })),
+};
+
+// The hook docs spell it `magic_link` in places; the payload says `magiclink`.
+const ACTION_ALIASES = new Map([['magic_link', 'magiclink']]);
+
+/** The Auth server's verify link, as Supabase's own templates build `{{ .ConfirmationURL }}`. */
+export function buildConfirmationUrl(
+  supabaseUrl: string,
+  options: { tokenHash: string; type: string; redirectTo?: string },
+): string {
+  const url = new URL(`${supabaseUrl.replace(/\/+$/, '')}${VERIFY_PATH}`);
+  url.searchParams.set('token', options.tokenHash);
+  url.searchParams.set('type', options.type);
+  if (options.redirectTo) url.searchParams.set('redirect_to', options.redirectTo);
+  return url.toString();
+}
+
+function readPayload(body: unknown): SupabaseSendEmailPayload {
+  const payload = body as Partial<SupabaseSendEmailPayload> | undefined;
+  if (!payload?.user || typeof payload.user !== 'object' || typeof payload.user.id !== 'string') {
+    throw new Error('user.id is required');
+  }
+  if (!payload.email_data || typeof payload.email_data.email_action_type !== 'string') {
+    throw new Error('email_data.email_action_type is required');
+  }
+  return payload as SupabaseSendEmailPayload;
+}
+
+export type SupabaseSendEmailRequest = {
+  userId: string;
+  /** `user_metadata.locale`, unvalidated. */
+  locale?: string;
+  emails: SupabaseEmail[];
+};
+
+/**
+ * Maps a Send Email hook payload to the emails to send. `supabaseUrl` is the project URL the
+ * confirmation links point at; a missing `redirect_to` falls back to the payload's `site_url`.
+ */
+export function mapSendEmailHook(body: unknown, supabaseUrl: string): SupabaseSendEmailRequest {
+  const { user, email_data: email } = readPayload(body);
+  const action = ACTION_ALIASES.get(email.email_action_type) ?? email.email_action_type;
+  const mapping = Object.hasOwn(ACTIONS, action) ? ACTIONS[action] : undefined;
+  if (!mapping) throw new Error(`Unsupported email_action_type: ${email.email_action_type}`);
+
+  const link = (tokenHash: string | undefined) =>
+    buildConfirmationUrl(supabaseUrl, {
+      tokenHash: required(tokenHash, 'email_data.token_hash'),
+      type: action,
+      redirectTo: email.redirect_to || email.site_url,
+    });
+  const locale = user.user_metadata?.locale;
+  return {
+    userId: user.id,
+    locale: typeof locale === 'string' ? locale : undefined,
+    emails: mapping(user, email, link),
+  };
+}
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { computeTwilioSignature, normalizeTwilioStatus, verifyTwilioSignature } from './twilio';
+
+const AUTH_TOKEN = 'test-token';
+const URL = 'https://comms.test/webhooks/sms';
+const PARAMS = { MessageSid: 'SM123', MessageStatus: 'delivered', To: '+15555550100' };
+
+test('verifyTwilioSignature accepts a valid signature', () => {
+  const signature = computeTwilioSignature(AUTH_TOKEN, URL, PARAMS);
+  const result = verifyTwilioSignature({ authToken: AUTH_TOKEN, signatureHeader: signature, url: URL, params: PARAMS });
+  assert.equal(result.ok, true);
+});
+
+test('verifyTwilioSignature rejects tampered params, other URLs and missing headers', () => {
+  const signature = computeTwilioSignature(AUTH_TOKEN, URL, PARAMS);
+  const tampered = { ...PARAMS, MessageStatus: 'failed' };
+  assert.equal(
+    verifyTwilioSignature({ authToken: AUTH_TOKEN, signatureHeader: signature, url: URL, params: tampered }).ok,
+    false,
+  );
+  assert.equal(
+    verifyTwilioSignature({ authToken: AUTH_TOKEN, signatureHeader: signature, url: `${URL}?x=1`, params: PARAMS }).ok,
+    false,
+  );
+  assert.equal(
+    verifyTwilioSignature({ authToken: AUTH_TOKEN, signatureHeader: undefined, url: URL, params: PARAMS }).reason,
+    'missing signature header',
+  );
+});
+
+test('normalizeTwilioStatus maps terminal states and ignores intermediate ones', () => {
+  assert.equal(normalizeTwilioStatus('delivered'), 'delivered');
+  assert.equal(normalizeTwilioStatus('undelivered'), 'bounced');
+  assert.equal(normalizeTwilioStatus('failed'), 'failed');
+  assert.equal(normalizeTwilioStatus('sending'), null);
+  assert.equal(normalizeTwilioStatus(undefined), null);
+});
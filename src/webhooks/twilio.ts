@@ -0,0 +1,55 @@
+import crypto from 'node:crypto';
+
+export const TWILIO_SIGNATURE_HEADER = 'x-twilio-signature';
+
+type VerificationResult = {
+  ok: boolean;
+  reason?: string;
+};
+
+/**
+ * Twilio signs the full callback URL followed by every POST parameter
+ * (sorted by name, name and value concatenated) with HMAC-SHA1 of the auth token.
+ */
+export function computeTwilioSignature(authToken: string, url: string, params: Record<string, string>): string {
+  const signed = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+  return crypto.createHmac('sha1', authToken).update(signed, 'utf8').digest('base64');
+}
+
+export function verifyTwilioSignature(options: {
+  authToken: string;
+  signatureHeader: string | string[] | undefined;
+  url: string;
+  params: Record<string, string>;
+}): VerificationResult {
+  const { authToken, signatureHeader, url, params } = options;
+  const provided = Array.isArray(signatureHeader) ? signatureHeader[0] : signatureHeader;
+  if (!provided) {
+    return { ok: false, reason: 'missing signature header' };
+  }
+  const expected = Buffer.from(computeTwilioSignature(authToken, url, params), 'utf8');
+  const actual = Buffer.from(provided, 'utf8');
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return { ok: false, reason: 'signature mismatch' };
+  }
+  return { ok: true };
+}
+
+export type SmsStatus = 'delivered' | 'bounced' | 'failed' | 'dropped';
+
+// Intermediate states (queued, sending, sent, accepted, scheduled) are not forwarded:
+// the send itself is already reported as `sent`.
+const TWILIO_STATUS_MAP: Record<string, SmsStatus> = {
+  delivered: 'delivered',
+  read: 'delivered',
+  undelivered: 'bounced',
+  failed: 'failed',
+  canceled: 'dropped',
+};
+
+export function normalizeTwilioStatus(raw: string | undefined): SmsStatus | null {
+  if (!raw) return null;
+  return TWILIO_STATUS_MAP[raw.trim().toLowerCase()] ?? null;
+}
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { expandBatchRequest } from './batch';
+
+test('expandBatchRequest passes a request list through in order', () => {
+  const requests = [
+    { id: 'a', channel: 'email', template: 'Billing/plan-changed', to: 'a@example.com', data: {} },
+    { id: 'b', channel: 'sms', template: 'Security/login-code', to: '+15555550100', data: {} },
+  ];
+  assert.deepEqual(expandBatchRequest({ requests }), requests);
+});
+
+test('expandBatchRequest merges recipient data over the shared template data', () => {
+  const items = expandBatchRequest({
+    channel: 'email',
+    template: 'Billing/plan-changed',
+    subject: 'Your plan changed',
+    data: { PlanName: 'Team', UserName: 'there' },
+    metadata: { projectId: 'p-1' },
+    recipients: [
+      { id: 'r-1', to: 'a@example.com', data: { UserName: 'Ada' } },
+      { id: 'r-2', to: 'b@example.com', cc: 'owner@example.com', metadata: { projectId: 'p-1', userId: 'u-2' } },
+    ],
+  });
+  assert.deepEqual(items[0], {
+    channel: 'email',
+    template: 'Billing/plan-changed',
+    subject: 'Your plan changed',
+    data: { PlanName: 'Team', UserName: 'Ada' },
+    metadata: { projectId: 'p-1' },
+    id: 'r-1',
+    to: 'a@example.com',
+    cc: undefined,
+    bcc: undefined,
+    replyTo: undefined,
+  });
+  assert.equal(items[1].cc, 'owner@example.com');
+  assert.deepEqual(items[1].data, { PlanName: 'Team', UserName: 'there' });
+  assert.deepEqual(items[1].metadata, { projectId: 'p-1', userId: 'u-2' });
+});
+
+test('expandBatchRequest rejects malformed batches', () => {
+  const recipient = { id: 'r-1', to: 'a@example.com' };
+  assert.throws(() => expandBatchRequest([]), /object/);
+  assert.throws(() => expandBatchRequest({ template: 'x' }), /Exactly one/);
+  assert.throws(() => expandBatchRequest({ requests: [], recipients: [recipient] }), /Exactly one/);
+  assert.throws(() => expandBatchRequest({ recipients: [] }), /non-empty/);
+  assert.throws(() => expandBatchRequest({ recipients: [recipient, recipient] }), /Duplicate id/);
+  assert.throws(() => expandBatchRequest({ recipients: [recipient, { id: 'r-2' }] }, 1), /at most 1/);
+});
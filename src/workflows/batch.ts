@@ -0,0 +1,68 @@
+import crypto from 'node:crypto';
+
+import type { BatchRecipient, SendRequest } from '../contracts/send';
+
+/** Resend's batch API takes at most 100 messages per call. */
+export const MAX_BATCH_SIZE = 100;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function expandRecipient(shared: Record<string, unknown>, recipient: unknown): Partial<SendRequest> {
+  if (!isRecord(recipient)) return {};
+  const { id, to, cc, bcc, replyTo, subject, data, metadata } = recipient as Partial<BatchRecipient>;
+  const sharedData = isRecord(shared.data) ? shared.data : {};
+  return {
+    ...shared,
+    id,
+    to,
+    cc,
+    bcc,
+    replyTo,
+    subject: subject ?? (shared.subject as string | undefined),
+    data: isRecord(data) ? { ...sharedData, ...data } : sharedData,
+    metadata: metadata ?? (shared.metadata as SendRequest['metadata']),
+  };
+}
+
+/**
+ * Turns a `/send/batch` body into one send request per item, in order. Throws for a malformed
+ * batch; the items themselves are left for per-item validation.
+ */
+export function expandBatchRequest(body: unknown, maxSize = MAX_BATCH_SIZE): Array<Partial<SendRequest>> {
+  if (!isRecord(body)) {
+    throw new Error('Body must be an object');
+  }
+  const { requests, recipients, ...shared } = body;
+  if ((requests === undefined) === (recipients === undefined)) {
+    throw new Error('Exactly one of requests or recipients is required');
+  }
+
+  const list = requests ?? recipients;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new Error(`${requests !== undefined ? 'requests' : 'recipients'} must be a non-empty array`);
+  }
+  if (list.length > maxSize) {
+    throw new Error(`A batch holds at most ${maxSize} items`);
+  }
+
+  const items: Array<Partial<SendRequest>> =
+    requests !== undefined
+      ? list.map((item) => (isRecord(item) ? (item as Partial<SendRequest>) : {}))
+      : list.map((recipient) => expandRecipient(shared, recipient));
+
+  const seen = new Set<string>();
+  for (const item of items) {
+    const id = typeof item.id === 'string' ? item.id.trim() : '';
+    if (!id) continue;
+    if (seen.has(id)) throw new Error(`Duplicate id in batch: ${id}`);
+    seen.add(id);
+  }
+  return items;
+}
+
+/** Keyed on the batch's ids, so the provider drops a resubmitted batch it already accepted. */
+export function batchIdempotencyKey(ids: string[]): string {
+  return `batch-${crypto.createHash('sha256').update(ids.join('\n')).digest('hex').slice(0, 32)}`;
+}
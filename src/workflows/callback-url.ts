@@ -0,0 +1,158 @@
+import { lookup } from 'node:dns/promises';
+import net, { type LookupFunction } from 'node:net';
+
+const MAX_CALLBACK_URL_LENGTH = 2048;
+const LOCAL_HOSTNAME_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+// Loopback, private, link-local, shared, documentation, multicast and reserved ranges. IPv4-mapped IPv6
+// addresses (`::ffff:7f00:1`) are checked against the IPv4 rules.
+const PRIVATE_RANGES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.0.2.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['198.51.100.0', 24, 'ipv4'],
+  ['203.0.113.0', 24, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  // Unspecified, loopback and the deprecated IPv4-compatible form.
+  ['::', 96, 'ipv6'],
+  // NAT64 prefixes translate to IPv4 addresses, including private ones.
+  ['64:ff9b::', 96, 'ipv6'],
+  ['64:ff9b:1::', 48, 'ipv6'],
+  ['100::', 64, 'ipv6'],
+  ['2001:db8::', 32, 'ipv6'],
+  // 6to4 embeds an IPv4 address as well.
+  ['2002::', 16, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+const privateAddresses = new net.BlockList();
+for (const [network, prefix, type] of PRIVATE_RANGES) {
+  privateAddresses.addSubnet(network, prefix, type);
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const bare = address.replace(/^\[|\]$/g, '').toLowerCase();
+  const family = net.isIP(bare);
+  if (family === 0) return false;
+  return privateAddresses.check(bare, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+export function isLocalHostname(hostname: string): boolean {
+  const lowered = hostname.toLowerCase();
+  return lowered === 'localhost' || LOCAL_HOSTNAME_SUFFIXES.some((suffix) => lowered.endsWith(suffix));
+}
+
+export function parseCallbackAllowlist(raw: string | undefined): Set<string> {
+  if (!raw) return new Set();
+  return new Set(
+    raw
+      .split(',')
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean),
+  );
+}
+
+/**
+ * Callback URLs must be HTTPS and must not point at loopback, link-local or private
+ * networks. Hosts on the allowlist (`CALLBACK_URL_ALLOWLIST`) skip both checks.
+ */
+export function validateCallbackUrl(raw: unknown, allowlist: Set<string>): string {
+  if (typeof raw !== 'string' || !raw.trim()) {
+    throw new Error('callbackUrl must be a non-empty string');
+  }
+  const trimmed = raw.trim();
+  if (trimmed.length > MAX_CALLBACK_URL_LENGTH) {
+    throw new Error('callbackUrl too long');
+  }
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    throw new Error('callbackUrl must be a valid URL');
+  }
+  if (url.username || url.password) {
+    throw new Error('callbackUrl must not contain credentials');
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (allowlist.has(hostname)) {
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new Error('callbackUrl must use http or https');
+    }
+    return url.toString();
+  }
+  if (url.protocol !== 'https:') {
+    throw new Error('callbackUrl must use https');
+  }
+  if (isLocalHostname(hostname) || isPrivateAddress(hostname)) {
+    throw new Error('callbackUrl must not target a private network');
+  }
+  return url.toString();
+}
+
+export type ResolvedAddress = { address: string; family: number };
+export type HostResolver = (hostname: string) => Promise<ResolvedAddress[]>;
+
+const resolveHost: HostResolver = (hostname) => lookup(hostname, { all: true });
+
+/** A callback host that is or resolves to a private address; retrying cannot fix it. */
+export class PrivateAddressError extends Error {
+  constructor(hostname: string) {
+    super(`callbackUrl host ${hostname} resolves to a private address`);
+    this.name = 'PrivateAddressError';
+  }
+}
+
+function bareHostname(rawUrl: string): string {
+  return new URL(rawUrl).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+}
+
+/**
+ * Resolves the callback host right before delivery so a public name that later resolves
+ * to a private address is refused with a clear error. Lookup failures are thrown as is.
+ */
+export async function assertPublicCallbackHost(
+  rawUrl: string,
+  allowlist: Set<string>,
+  resolve: HostResolver = resolveHost,
+): Promise<void> {
+  const hostname = bareHostname(rawUrl);
+  if (allowlist.has(hostname)) return;
+  const addresses = net.isIP(hostname) ? [{ address: hostname, family: net.isIP(hostname) }] : await resolve(hostname);
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new PrivateAddressError(hostname);
+  }
+}
+
+/**
+ * `connect.lookup` for the callback HTTP agent. It checks the addresses the socket is about to
+ * connect to, so a DNS answer that changes after `assertPublicCallbackHost` (DNS rebinding)
+ * still cannot reach a private network.
+ */
+export function createPublicOnlyLookup(allowlist: Set<string>, resolve: HostResolver = resolveHost): LookupFunction {
+  return (hostname, options, callback) => {
+    resolve(hostname).then(
+      (addresses) => {
+        if (!allowlist.has(hostname.toLowerCase()) && addresses.some(({ address }) => isPrivateAddress(address))) {
+          callback(new PrivateAddressError(hostname), '');
+        } else if (options.all) {
+          callback(null, addresses);
+        } else if (addresses.length === 0) {
+          callback(Object.assign(new Error(`No addresses for ${hostname}`), { code: 'ENOTFOUND' }), '');
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      },
+      (error: NodeJS.ErrnoException) => callback(error, ''),
+    );
+  };
+}
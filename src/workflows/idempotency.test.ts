@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createMemoryStore } from '../stores';
+import { createIdempotencyGuard, fingerprintPayload, type IdempotencyRecord } from './idempotency';
+
+type Response = { id: string; status: string };
+
+function createGuard() {
+  return createIdempotencyGuard<Response>(createMemoryStore<IdempotencyRecord<Response>>(), 60_000);
+}
+
+test('fingerprintPayload ignores key order and undefined fields', () => {
+  const a = fingerprintPayload({ to: 'a@example.com', data: { x: 1, y: 2 }, subject: undefined });
+  const b = fingerprintPayload({ data: { y: 2, x: 1 }, to: 'a@example.com' });
+  assert.equal(a, b);
+  assert.notEqual(a, fingerprintPayload({ to: 'b@example.com', data: { x: 1, y: 2 } }));
+});
+
+test('idempotency guard replays a completed response for the same payload', async () => {
+  const guard = createGuard();
+  assert.deepEqual(await guard.begin('req-1', 'fp-1'), { kind: 'new' });
+  await guard.complete('req-1', 'fp-1', 200, { id: 'req-1', status: 'sent' });
+  assert.deepEqual(await guard.begin('req-1', 'fp-1'), {
+    kind: 'replay',
+    statusCode: 200,
+    response: { id: 'req-1', status: 'sent' },
+  });
+});
+
+test('idempotency guard reports a conflict for a different payload', async () => {
+  const guard = createGuard();
+  await guard.begin('req-2', 'fp-1');
+  assert.deepEqual(await guard.begin('req-2', 'fp-2'), { kind: 'conflict' });
+  await guard.complete('req-2', 'fp-1', 200, { id: 'req-2', status: 'sent' });
+  assert.deepEqual(await guard.begin('req-2', 'fp-2'), { kind: 'conflict' });
+});
+
+test('idempotency guard reports in-progress requests and allows retry after release', async () => {
+  const guard = createGuard();
+  await guard.begin('req-3', 'fp-1');
+  assert.deepEqual(await guard.begin('req-3', 'fp-1'), { kind: 'in_progress' });
+  await guard.release('req-3');
+  assert.deepEqual(await guard.begin('req-3', 'fp-1'), { kind: 'new' });
+});
@@ -0,0 +1,70 @@
+import crypto from 'node:crypto';
+
+import type { KeyValueStore } from '../stores';
+
+// A claim that never completes (crash mid-send) must not block retries forever.
+const PENDING_TTL_MS = 2 * 60_000;
+
+export type IdempotencyRecord<R> =
+  | { state: 'pending'; fingerprint: string; createdAt: number }
+  | { state: 'complete'; fingerprint: string; createdAt: number; statusCode: number; response: R };
+
+export type IdempotencyOutcome<R> =
+  | { kind: 'new' }
+  | { kind: 'replay'; statusCode: number; response: R }
+  | { kind: 'in_progress' }
+  | { kind: 'conflict' };
+
+export type IdempotencyGuard<R> = {
+  begin(id: string, fingerprint: string): Promise<IdempotencyOutcome<R>>;
+  complete(id: string, fingerprint: string, statusCode: number, response: R): Promise<void>;
+  release(id: string): Promise<void>;
+};
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value as Record<string, unknown>).sort()) {
+      const entry = (value as Record<string, unknown>)[key];
+      if (entry !== undefined) sorted[key] = canonicalize(entry);
+    }
+    return sorted;
+  }
+  return value;
+}
+
+/** Stable hash of a request payload; key order and undefined fields do not affect it. */
+export function fingerprintPayload(payload: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(canonicalize(payload))).digest('hex');
+}
+
+export function createIdempotencyGuard<R>(
+  store: KeyValueStore<IdempotencyRecord<R>>,
+  ttlMs: number,
+): IdempotencyGuard<R> {
+  return {
+    async begin(id: string, fingerprint: string) {
+      const pending: IdempotencyRecord<R> = { state: 'pending', fingerprint, createdAt: Date.now() };
+      const claimed = await store.setIfAbsent(id, pending, { ttlMs: Math.min(ttlMs, PENDING_TTL_MS) });
+      if (claimed) return { kind: 'new' };
+
+      const existing = await store.get(id);
+      if (!existing) {
+        // Expired between the two calls; claim it again rather than failing the caller.
+        return (await store.setIfAbsent(id, pending, { ttlMs: Math.min(ttlMs, PENDING_TTL_MS) }))
+          ? { kind: 'new' }
+          : { kind: 'in_progress' };
+      }
+      if (existing.fingerprint !== fingerprint) return { kind: 'conflict' };
+      if (existing.state === 'pending') return { kind: 'in_progress' };
+      return { kind: 'replay', statusCode: existing.statusCode, response: existing.response };
+    },
+    async complete(id: string, fingerprint: string, statusCode: number, response: R) {
+      await store.set(id, { state: 'complete', fingerprint, createdAt: Date.now(), statusCode, response }, { ttlMs });
+    },
+    async release(id: string) {
+      await store.delete(id);
+    },
+  };
+}
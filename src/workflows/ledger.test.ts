@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createMemoryStore } from '../stores';
+import { createMessageLedger, type LedgerEntry } from './ledger';
+
+const MESSAGE = {
+  requestId: 'req-1',
+  channel: 'email',
+  template: 'Security/password-changed',
+  recipient: 'user@example.com',
+};
+
+function setup() {
+  const ledger = createMessageLedger({
+    entries: createMemoryStore<LedgerEntry>(),
+    providerIndex: createMemoryStore<string>(),
+    retentionMs: 60_000,
+    now: () => 1_700_000_000_000,
+  });
+  return { ledger };
+}
+
+test('ledger builds a timeline and correlates provider message ids', async () => {
+  const { ledger } = setup();
+  await ledger.record({ ...MESSAGE, templateVersion: 'aaaaaa' }, { status: 'queued', timestamp: 1, provider: 'resend' });
+  await ledger.record(
+    { ...MESSAGE, templateVersion: 'bbbbbb' },
+    { status: 'sent', timestamp: 2, provider: 'resend', providerMessageId: 'msg-1' },
+  );
+
+  assert.equal(await ledger.findRequestId('msg-1'), 'req-1');
+  assert.equal(await ledger.recordProviderEvent('msg-1', { status: 'delivered', timestamp: 3 }), 'req-1');
+  assert.equal(await ledger.recordProviderEvent('unknown', { status: 'delivered', timestamp: 3 }), null);
+
+  const entry = await ledger.get('req-1');
+  assert.equal(entry?.status, 'delivered');
+  assert.equal(entry?.providerMessageId, 'msg-1');
+  assert.equal(entry?.templateVersion, 'bbbbbb', 'the version that was sent replaces the one it was queued with');
+  assert.deepEqual(
+    entry?.events.map((event) => [event.status, event.source]),
+    [
+      ['queued', 'send'],
+      ['sent', 'send'],
+      ['delivered', 'webhook'],
+    ],
+  );
+});
+
+test('ledger status does not move back behind a provider outcome', async () => {
+  const { ledger } = setup();
+  await ledger.record(MESSAGE, { status: 'sent', timestamp: 1, providerMessageId: 'msg-2' });
+  await ledger.recordProviderEvent('msg-2', { status: 'complaint', timestamp: 5 });
+  await ledger.recordProviderEvent('msg-2', { status: 'delivered', timestamp: 4 });
+  await ledger.record(MESSAGE, { status: 'sent', timestamp: 6 });
+
+  const entry = await ledger.get('req-1');
+  assert.equal(entry?.status, 'complaint');
+  assert.deepEqual(
+    entry?.events.map((event) => event.status),
+    ['sent', 'delivered', 'complaint', 'sent'],
+  );
+});
+
+test('ledger lets a retried request replace a failure', async () => {
+  const { ledger } = setup();
+  await ledger.record(MESSAGE, { status: 'failed', timestamp: 1, error: 'timeout' });
+  await ledger.record(MESSAGE, { status: 'queued', timestamp: 2 });
+  assert.equal((await ledger.get('req-1'))?.status, 'queued');
+});
+
+test('ledger serializes concurrent updates to one message', async () => {
+  const { ledger } = setup();
+  await ledger.record(MESSAGE, { status: 'sent', timestamp: 1, providerMessageId: 'msg-3' });
+  await Promise.all([
+    ledger.recordProviderEvent('msg-3', { status: 'delivered', timestamp: 2 }),
+    ledger.recordProviderEvent('msg-3', { status: 'complaint', timestamp: 3 }),
+  ]);
+  assert.equal((await ledger.get('req-1'))?.events.length, 3);
+});
+
+test('ledger ranks engagement above delivery and ignores a late delay', async () => {
+  const { ledger } = setup();
+  await ledger.record(MESSAGE, { status: 'sent', timestamp: 1, providerMessageId: 'msg-4' });
+  await ledger.recordProviderEvent('msg-4', { status: 'opened', timestamp: 3 });
+  await ledger.recordProviderEvent('msg-4', { status: 'delivered', timestamp: 2 });
+  await ledger.recordProviderEvent('msg-4', {
+    status: 'clicked',
+    timestamp: 4,
+    detail: { kind: 'click', url: 'https://app.example.com' },
+  });
+  await ledger.recordProviderEvent('msg-4', { status: 'delivery_delayed', timestamp: 5 });
+
+  const entry = await ledger.get('req-1');
+  assert.equal(entry?.status, 'clicked');
+  assert.deepEqual(entry?.events[3].detail, { kind: 'click', url: 'https://app.example.com' });
+});
@@ -0,0 +1,126 @@
+import type { ProviderEventDetail } from '../contracts/send';
+import type { KeyValueStore } from '../stores';
+
+const MAX_EVENTS_PER_MESSAGE = 50;
+
+/**
+ * A status only replaces one of equal or lower rank, so a `sent` recorded after a fast
+ * `delivered` webhook does not move the message backwards, while a retry after `failed` does.
+ * Engagement outranks delivery, and a late `delivery_delayed` never hides the outcome.
+ */
+const SEND_STATUSES = new Set(['queued', 'sent', 'failed', 'canceled', 'suppressed', 'opted_out']);
+const STATUS_RANKS: Record<string, number> = { delivery_delayed: 1, opened: 3, clicked: 4, complaint: 5 };
+const PROVIDER_EVENT_RANK = 2;
+
+export type LedgerEvent = {
+  status: string;
+  timestamp: number;
+  source: 'send' | 'webhook';
+  provider?: string;
+  providerMessageId?: string;
+  error?: string;
+  detail?: ProviderEventDetail;
+};
+
+export type LedgerMessage = {
+  requestId: string;
+  channel: string;
+  template: string;
+  /** The latest version recorded; a queued send may render with a newer bundle than it was accepted with. */
+  templateVersion?: string;
+  recipient: string;
+  metadata?: Record<string, unknown>;
+};
+
+export type LedgerEntry = LedgerMessage & {
+  status: string;
+  provider?: string;
+  providerMessageId?: string;
+  createdAt: number;
+  updatedAt: number;
+  /** Oldest first; capped at the most recent events. */
+  events: LedgerEvent[];
+};
+
+export type MessageLedger = {
+  /** Appends a lifecycle event for a request, creating its entry on first sight. */
+  record(message: LedgerMessage, event: Omit<LedgerEvent, 'source'>): Promise<LedgerEntry>;
+  /** Appends a webhook event to whichever request sent `providerMessageId`; returns that request id. */
+  recordProviderEvent(providerMessageId: string, event: Omit<LedgerEvent, 'source'>): Promise<string | null>;
+  findRequestId(providerMessageId: string): Promise<string | null>;
+  get(requestId: string): Promise<LedgerEntry | null>;
+};
+
+export type MessageLedgerOptions = {
+  entries: KeyValueStore<LedgerEntry>;
+  /** Provider message id → request id. */
+  providerIndex: KeyValueStore<string>;
+  retentionMs: number;
+  now?: () => number;
+};
+
+function rankOf(status: string): number {
+  if (SEND_STATUSES.has(status)) return 0;
+  return STATUS_RANKS[status] ?? PROVIDER_EVENT_RANK;
+}
+
+export function createMessageLedger(options: MessageLedgerOptions): MessageLedger {
+  const { entries, providerIndex, retentionMs, now = Date.now } = options;
+
+  // Per-request read-modify-write chain: a webhook can land while the send is still being recorded.
+  const chains = new Map<string, Promise<unknown>>();
+  const withRequest = <T>(requestId: string, task: () => Promise<T>): Promise<T> => {
+    const previous = chains.get(requestId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    chains.set(requestId, next);
+    void next.finally(() => {
+      if (chains.get(requestId) === next) chains.delete(requestId);
+    });
+    return next;
+  };
+
+  const save = async (base: LedgerEntry, event: LedgerEvent): Promise<LedgerEntry> => {
+    const events = [...base.events, event].sort((a, b) => a.timestamp - b.timestamp).slice(-MAX_EVENTS_PER_MESSAGE);
+    const entry: LedgerEntry = {
+      ...base,
+      status: rankOf(event.status) >= rankOf(base.status) ? event.status : base.status,
+      provider: event.provider ?? base.provider,
+      providerMessageId: event.providerMessageId ?? base.providerMessageId,
+      updatedAt: now(),
+      events,
+    };
+    await entries.set(base.requestId, entry, { ttlMs: retentionMs });
+    if (event.providerMessageId && event.providerMessageId !== base.providerMessageId) {
+      await providerIndex.set(event.providerMessageId, base.requestId, { ttlMs: retentionMs });
+    }
+    return entry;
+  };
+
+  return {
+    record(message, event) {
+      return withRequest(message.requestId, async () => {
+        const timestamp = now();
+        const existing = await entries.get(message.requestId);
+        const base: LedgerEntry = existing
+          ? { ...existing, templateVersion: message.templateVersion ?? existing.templateVersion }
+          : { ...message, status: event.status, createdAt: timestamp, updatedAt: timestamp, events: [] };
+        return save(base, { ...event, source: 'send' });
+      });
+    },
+    async recordProviderEvent(providerMessageId, event) {
+      const requestId = await providerIndex.get(providerMessageId);
+      if (!requestId) return null;
+      await withRequest(requestId, async () => {
+        const existing = await entries.get(requestId);
+        if (existing) await save(existing, { ...event, providerMessageId, source: 'webhook' });
+      });
+      return requestId;
+    },
+    findRequestId(providerMessageId) {
+      return providerIndex.get(providerMessageId);
+    },
+    get(requestId) {
+      return entries.get(requestId);
+    },
+  };
+}
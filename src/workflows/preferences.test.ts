@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createMemoryStore } from '../stores';
+import {
+  createPreferenceStore,
+  createUnsubscribeToken,
+  type Preferences,
+  preferenceKey,
+  validatePreferencePatch,
+  verifyUnsubscribeToken,
+} from './preferences';
+
+test('opt-outs block non-transactional categories only', async () => {
+  const preferences = createPreferenceStore(createMemoryStore<Preferences>());
+  await preferences.update('user:u1', { categories: { Research: false, Security: false } });
+
+  const subject = { userId: 'u1', recipient: 'ada@example.com' };
+  assert.deepEqual(await preferences.check(subject, 'Research', 'email'), {
+    allowed: false,
+    reason: 'opted out of Research',
+  });
+  assert.deepEqual(await preferences.check(subject, 'Security', 'email'), { allowed: true });
+  assert.deepEqual(await preferences.check(subject, undefined, 'email'), { allowed: true });
+  assert.deepEqual(await preferences.check({ userId: 'u2' }, 'Research', 'email'), { allowed: true });
+});
+
+test('channel opt-outs and recipient-keyed preferences apply alongside user preferences', async () => {
+  const preferences = createPreferenceStore(createMemoryStore<Preferences>());
+  await preferences.update('user:u1', { channels: { push: false } });
+  await preferences.update(preferenceKey({ recipient: 'Ada@Example.com' }) as string, { categories: { Billing: false } });
+
+  assert.equal((await preferences.check({ userId: 'u1' }, 'Research', 'push')).allowed, false);
+  assert.equal((await preferences.check({ userId: 'u1' }, 'Research', 'email')).allowed, true);
+  assert.equal((await preferences.check({ userId: 'u1', recipient: 'ada@example.com' }, 'Billing', 'email')).allowed, false);
+
+  const merged = await preferences.update('user:u1', { channels: { push: true, sms: false } });
+  assert.deepEqual(merged.channels, { push: true, sms: false });
+});
+
+test('validatePreferencePatch rejects unknown channels and non-boolean flags', () => {
+  assert.deepEqual(validatePreferencePatch({ categories: { Research: false } }), {
+    categories: { Research: false },
+    channels: undefined,
+  });
+  assert.throws(() => validatePreferencePatch({ channels: { fax: false } }), /not a valid channel/);
+  assert.throws(() => validatePreferencePatch({ categories: { Research: 'no' } }), /must be a boolean/);
+});
+
+test('unsubscribe tokens round-trip and reject tampering', () => {
+  const token = createUnsubscribeToken('secret', { key: 'user:u1', category: 'Research' });
+  assert.deepEqual(verifyUnsubscribeToken('secret', token), { key: 'user:u1', category: 'Research' });
+  assert.equal(verifyUnsubscribeToken('other-secret', token), null);
+
+  const [, signature] = token.split('.');
+  const forged = Buffer.from(JSON.stringify({ k: 'user:u2', c: 'Research' })).toString('base64url');
+  assert.equal(verifyUnsubscribeToken('secret', `${forged}.${signature}`), null);
+  assert.equal(verifyUnsubscribeToken('secret', 'garbage'), null);
+});
@@ -0,0 +1,144 @@
+import crypto from 'node:crypto';
+
+import type { KeyValueStore } from '../stores';
+import { normalizeAddress } from './suppressions';
+
+/** Template categories that are always sent: account access and security notices cannot be opted out of. */
+export const TRANSACTIONAL_CATEGORIES = new Set(['Authentication', 'Security']);
+
+const PREFERENCE_CHANNELS = new Set(['email', 'sms', 'push']);
+const CATEGORY_REGEX = /^[A-Za-z0-9_-]{1,64}$/;
+const TOKEN_SEPARATOR = '.';
+
+export type Preferences = {
+  /** `false` opts out of a category on every channel; missing means opted in. */
+  categories: Record<string, boolean>;
+  /** `false` opts out of every non-transactional category on that channel. */
+  channels: Record<string, boolean>;
+  updatedAt: number;
+};
+
+export type PreferencePatch = {
+  categories?: Record<string, boolean>;
+  channels?: Record<string, boolean>;
+};
+
+/** Preferences can be stored per user and per recipient address; either one opting out wins. */
+export type PreferenceSubject = {
+  userId?: string;
+  recipient?: string;
+};
+
+export type PreferenceDecision = { allowed: true } | { allowed: false; reason: string };
+
+export type PreferenceStore = {
+  get(key: string): Promise<Preferences | null>;
+  update(key: string, patch: PreferencePatch): Promise<Preferences>;
+  check(subject: PreferenceSubject, category: string | undefined, channel: string): Promise<PreferenceDecision>;
+};
+
+export function isTransactionalCategory(category: string | undefined): boolean {
+  // Templates without a manifest predate categories and are all transactional.
+  return !category || TRANSACTIONAL_CATEGORIES.has(category);
+}
+
+/** Storage key for the user when known, otherwise for the recipient address. */
+export function preferenceKey(subject: PreferenceSubject): string | null {
+  if (subject.userId) return `user:${subject.userId}`;
+  if (subject.recipient) return `recipient:${normalizeAddress(subject.recipient)}`;
+  return null;
+}
+
+function preferenceKeys(subject: PreferenceSubject): string[] {
+  const keys: string[] = [];
+  if (subject.userId) keys.push(`user:${subject.userId}`);
+  if (subject.recipient) keys.push(`recipient:${normalizeAddress(subject.recipient)}`);
+  return keys;
+}
+
+/** Throws with a message for the caller on unknown channels, malformed categories or non-boolean values. */
+export function validatePreferencePatch(raw: unknown): PreferencePatch {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('preferences must be an object');
+  }
+  const source = raw as Record<string, unknown>;
+  const readFlags = (field: 'categories' | 'channels', isValidKey: (key: string) => boolean) => {
+    const value = source[field];
+    if (value === undefined) return undefined;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error(`${field} must be an object`);
+    }
+    const flags: Record<string, boolean> = {};
+    for (const [key, flag] of Object.entries(value as Record<string, unknown>)) {
+      if (!isValidKey(key)) throw new Error(`${field}.${key} is not a valid ${field.slice(0, -1)}`);
+      if (typeof flag !== 'boolean') throw new Error(`${field}.${key} must be a boolean`);
+      flags[key] = flag;
+    }
+    return flags;
+  };
+  return {
+    categories: readFlags('categories', (key) => CATEGORY_REGEX.test(key)),
+    channels: readFlags('channels', (key) => PREFERENCE_CHANNELS.has(key)),
+  };
+}
+
+export function createPreferenceStore(store: KeyValueStore<Preferences>, now: () => number = Date.now): PreferenceStore {
+  return {
+    get: (key) => store.get(key),
+    async update(key, patch) {
+      const existing = await store.get(key);
+      const updated: Preferences = {
+        categories: { ...existing?.categories, ...patch.categories },
+        channels: { ...existing?.channels, ...patch.channels },
+        updatedAt: now(),
+      };
+      await store.set(key, updated);
+      return updated;
+    },
+    async check(subject, category, channel) {
+      if (isTransactionalCategory(category)) return { allowed: true };
+      for (const key of preferenceKeys(subject)) {
+        const preferences = await store.get(key);
+        if (!preferences) continue;
+        if (category && preferences.categories[category] === false) {
+          return { allowed: false, reason: `opted out of ${category}` };
+        }
+        if (preferences.channels[channel] === false) {
+          return { allowed: false, reason: `opted out of ${channel}` };
+        }
+      }
+      return { allowed: true };
+    },
+  };
+}
+
+export type UnsubscribeClaims = {
+  /** Preference key, see `preferenceKey`. */
+  key: string;
+  category: string;
+};
+
+function signToken(secret: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('base64url');
+}
+
+/** Opaque, non-expiring token for one-click unsubscribe links. */
+export function createUnsubscribeToken(secret: string, claims: UnsubscribeClaims): string {
+  const body = Buffer.from(JSON.stringify({ k: claims.key, c: claims.category })).toString('base64url');
+  return `${body}${TOKEN_SEPARATOR}${signToken(secret, body)}`;
+}
+
+export function verifyUnsubscribeToken(secret: string, token: string): UnsubscribeClaims | null {
+  const [body, signature, extra] = token.split(TOKEN_SEPARATOR);
+  if (!body || !signature || extra !== undefined) return null;
+  const expected = Buffer.from(signToken(secret, body));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as { k?: unknown; c?: unknown };
+    if (typeof parsed.k !== 'string' || typeof parsed.c !== 'string') return null;
+    return { key: parsed.k, category: parsed.c };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { ProviderError, type PushMessage, type PushProvider } from '../providers';
+import { createMemoryStore } from '../stores';
+import type { HostResolver } from './callback-url';
+import {
+  createPushSubscriptionRegistry,
+  sendPushToUser,
+  type StoredPushSubscription,
+  validatePushSubscription,
+} from './push';
+
+function subscription(endpoint: string) {
+  return { endpoint, expirationTime: null, keys: { p256dh: 'BNcR-key', auth: 'tBHItJ' } };
+}
+
+function fakeProvider(outcomes: Record<string, ProviderError | null>): PushProvider & { sent: PushMessage[] } {
+  const sent: PushMessage[] = [];
+  return {
+    name: 'web-push',
+    sent,
+    async send(message) {
+      sent.push(message);
+      const error = outcomes[message.subscription.endpoint];
+      if (error) throw error;
+      return { provider: 'web-push', messageId: `id-${sent.length}` };
+    },
+  };
+}
+
+const gone = () => new ProviderError('web-push', 'gone', { retryable: false, statusCode: 410 });
+
+test('validatePushSubscription accepts browser subscriptions and rejects private endpoints', async () => {
+  const resolveHost: HostResolver = async (hostname) => [
+    { address: hostname === 'push.attacker.test' ? '169.254.169.254' : '142.250.74.10', family: 4 },
+  ];
+  const validate = (raw: unknown) => validatePushSubscription(raw, resolveHost);
+  const valid = await validate(subscription('https://fcm.googleapis.com/fcm/send/abc'));
+  assert.equal(valid.endpoint, 'https://fcm.googleapis.com/fcm/send/abc');
+  await assert.rejects(validate(subscription('http://push.test/a')), /https/);
+  await assert.rejects(validate(subscription('https://10.0.0.5/a')), /private network/);
+  await assert.rejects(validate(subscription('https://push.internal/a')), /private network/);
+  await assert.rejects(validate(subscription('https://push.attacker.test/a')), /private network/);
+  await assert.rejects(
+    validate({ endpoint: 'https://push.test/a', keys: { p256dh: 'not base64!', auth: 'x' } }),
+    /keys\.p256dh/,
+  );
+});
+
+test('registry replaces a re-registered endpoint and removes endpoints', async () => {
+  const registry = createPushSubscriptionRegistry(createMemoryStore<StoredPushSubscription[]>());
+  await Promise.all([
+    registry.register('user-1', subscription('https://push.test/a')),
+    registry.register('user-1', subscription('https://push.test/b')),
+    registry.register('user-1', subscription('https://push.test/a')),
+  ]);
+  assert.deepEqual((await registry.list('user-1')).map((item) => item.endpoint).sort(), [
+    'https://push.test/a',
+    'https://push.test/b',
+  ]);
+  assert.equal(await registry.remove('user-1', ['https://push.test/a', 'https://push.test/c']), 1);
+  assert.equal((await registry.list('user-1')).length, 1);
+});
+
+test('sendPushToUser fans out and prunes subscriptions that are gone', async () => {
+  const registry = createPushSubscriptionRegistry(createMemoryStore<StoredPushSubscription[]>());
+  await registry.register('user-1', subscription('https://push.test/a'));
+  await registry.register('user-1', subscription('https://push.test/b'));
+  const provider = fakeProvider({ 'https://push.test/b': gone() });
+
+  const result = await sendPushToUser(registry, provider, 'user-1', '{"title":"Hi"}', { ttlSeconds: 60 });
+  assert.equal(result.delivered, 1);
+  assert.equal(result.pruned, 1);
+  assert.equal(provider.sent.length, 2);
+  assert.equal(provider.sent[0].ttlSeconds, 60);
+  assert.equal('createdAt' in provider.sent[0].subscription, false);
+  assert.deepEqual((await registry.list('user-1')).map((item) => item.endpoint), ['https://push.test/a']);
+});
+
+test('sendPushToUser fails when no device accepts the message', async () => {
+  const registry = createPushSubscriptionRegistry(createMemoryStore<StoredPushSubscription[]>());
+  await assert.rejects(sendPushToUser(registry, fakeProvider({}), 'nobody', '{}'), /No push subscriptions/);
+
+  await registry.register('user-1', subscription('https://push.test/a'));
+  await registry.register('user-1', subscription('https://push.test/b'));
+  const unavailable = new ProviderError('web-push', 'unavailable', { retryable: true, statusCode: 503 });
+  const provider = fakeProvider({ 'https://push.test/a': gone(), 'https://push.test/b': unavailable });
+  await assert.rejects(sendPushToUser(registry, provider, 'user-1', '{}'), (error: unknown) => {
+    assert.ok(error instanceof ProviderError);
+    assert.equal(error.retryable, true);
+    return true;
+  });
+  assert.equal((await registry.list('user-1')).length, 1);
+});
@@ -0,0 +1,193 @@
+import { logger } from '../observability/log';
+import { ProviderError, type ProviderSendResult, type PushProvider, type WebPushSubscription } from '../providers';
+import type { KeyValueStore } from '../stores';
+import {
+  assertPublicCallbackHost,
+  type HostResolver,
+  isLocalHostname,
+  isPrivateAddress,
+  PrivateAddressError,
+} from './callback-url';
+
+const MAX_ENDPOINT_LENGTH = 2048;
+const MAX_KEY_LENGTH = 256;
+// Oldest subscriptions are dropped first; browsers re-subscribe on their next visit.
+const MAX_SUBSCRIPTIONS_PER_USER = 20;
+const BASE64URL_REGEX = /^[A-Za-z0-9_-]+={0,2}$/;
+const GONE_STATUS_CODES = new Set([404, 410]);
+
+export type StoredPushSubscription = WebPushSubscription & {
+  createdAt: number;
+};
+
+export type PushSubscriptionRegistry = {
+  /** Adds or refreshes a subscription; the endpoint identifies it. */
+  register(userId: string, subscription: WebPushSubscription): Promise<StoredPushSubscription>;
+  list(userId: string): Promise<StoredPushSubscription[]>;
+  remove(userId: string, endpoints: string[]): Promise<number>;
+};
+
+function readKey(keys: Record<string, unknown>, name: string): string {
+  const value = keys[name];
+  if (typeof value !== 'string' || !value || value.length > MAX_KEY_LENGTH || !BASE64URL_REGEX.test(value)) {
+    throw new Error(`subscription.keys.${name} must be a base64url string`);
+  }
+  return value;
+}
+
+/**
+ * Validates the browser's `PushSubscription.toJSON()`. Push endpoints must be public HTTPS URLs, checked
+ * like callback URLs: the host must not be or resolve to a private address.
+ */
+export async function validatePushSubscription(raw: unknown, resolve?: HostResolver): Promise<WebPushSubscription> {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('subscription must be an object');
+  }
+  const source = raw as Record<string, unknown>;
+  if (typeof source.endpoint !== 'string' || source.endpoint.length > MAX_ENDPOINT_LENGTH) {
+    throw new Error('subscription.endpoint must be a URL');
+  }
+  let endpoint: URL;
+  try {
+    endpoint = new URL(source.endpoint);
+  } catch {
+    throw new Error('subscription.endpoint must be a URL');
+  }
+  if (endpoint.protocol !== 'https:' || endpoint.username || endpoint.password) {
+    throw new Error('subscription.endpoint must be an https URL without credentials');
+  }
+  if (isLocalHostname(endpoint.hostname) || isPrivateAddress(endpoint.hostname)) {
+    throw new Error('subscription.endpoint must not target a private network');
+  }
+  if (!source.keys || typeof source.keys !== 'object') {
+    throw new Error('subscription.keys is required');
+  }
+  const keys = source.keys as Record<string, unknown>;
+  const expirationTime = typeof source.expirationTime === 'number' ? source.expirationTime : null;
+  const subscription = {
+    endpoint: endpoint.toString(),
+    expirationTime,
+    keys: { p256dh: readKey(keys, 'p256dh'), auth: readKey(keys, 'auth') },
+  };
+  try {
+    await assertPublicCallbackHost(subscription.endpoint, new Set(), resolve);
+  } catch (error) {
+    throw error instanceof PrivateAddressError
+      ? new Error('subscription.endpoint must not target a private network')
+      : error;
+  }
+  return subscription;
+}
+
+export function createPushSubscriptionRegistry(
+  store: KeyValueStore<StoredPushSubscription[]>,
+  now: () => number = Date.now,
+): PushSubscriptionRegistry {
+  // Per-user read-modify-write chain so concurrent registrations don't drop each other.
+  const chains = new Map<string, Promise<unknown>>();
+  const withUser = <T>(userId: string, task: () => Promise<T>): Promise<T> => {
+    const previous = chains.get(userId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    chains.set(userId, next);
+    void next.finally(() => {
+      if (chains.get(userId) === next) chains.delete(userId);
+    });
+    return next;
+  };
+
+  const live = (subscriptions: StoredPushSubscription[]) =>
+    subscriptions.filter((item) => !item.expirationTime || item.expirationTime > now());
+
+  return {
+    register(userId, subscription) {
+      return withUser(userId, async () => {
+        const stored: StoredPushSubscription = { ...subscription, createdAt: now() };
+        const existing = live((await store.get(userId)) ?? []).filter(
+          (item) => item.endpoint !== subscription.endpoint,
+        );
+        await store.set(userId, [...existing, stored].slice(-MAX_SUBSCRIPTIONS_PER_USER));
+        return stored;
+      });
+    },
+    async list(userId) {
+      return live((await store.get(userId)) ?? []);
+    },
+    remove(userId, endpoints) {
+      return withUser(userId, async () => {
+        const existing = (await store.get(userId)) ?? [];
+        const remaining = existing.filter((item) => !endpoints.includes(item.endpoint));
+        if (remaining.length === existing.length) return 0;
+        if (remaining.length === 0) {
+          await store.delete(userId);
+        } else {
+          await store.set(userId, remaining);
+        }
+        return existing.length - remaining.length;
+      });
+    },
+  };
+}
+
+export type PushFanOutResult = ProviderSendResult & {
+  delivered: number;
+  pruned: number;
+};
+
+/**
+ * Sends the payload to every subscription the user has, pruning those the push service
+ * reports as gone (404/410). Succeeds when at least one device accepted the message; otherwise
+ * throws, retryable only if some failure was.
+ */
+export async function sendPushToUser(
+  registry: PushSubscriptionRegistry,
+  provider: PushProvider,
+  userId: string,
+  payload: string,
+  options: { ttlSeconds?: number } = {},
+): Promise<PushFanOutResult> {
+  const subscriptions = await registry.list(userId);
+  if (subscriptions.length === 0) {
+    throw new Error('No push subscriptions for user');
+  }
+
+  const results = await Promise.allSettled(
+    subscriptions.map(({ createdAt: _createdAt, ...subscription }) =>
+      provider.send({ subscription, payload, ttlSeconds: options.ttlSeconds }),
+    ),
+  );
+
+  const gone: string[] = [];
+  const failures: ProviderError[] = [];
+  let delivered = 0;
+  let messageId: string | undefined;
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      delivered += 1;
+      messageId ??= result.value.messageId;
+      return;
+    }
+    const error =
+      result.reason instanceof ProviderError
+        ? result.reason
+        : new ProviderError(
+            provider.name,
+            result.reason instanceof Error ? result.reason.message : String(result.reason),
+            { retryable: false },
+          );
+    if (error.statusCode && GONE_STATUS_CODES.has(error.statusCode)) {
+      gone.push(subscriptions[index].endpoint);
+    } else {
+      failures.push(error);
+    }
+  });
+
+  const pruned = gone.length > 0 ? await registry.remove(userId, gone) : 0;
+  if (delivered > 0) {
+    failures.forEach((error) => logger.warn('Push to one of the user\'s devices failed', { userId, error }));
+    return { provider: provider.name, messageId, delivered, pruned };
+  }
+  if (failures.length === 0) {
+    throw new ProviderError(provider.name, 'All push subscriptions have expired', { retryable: false });
+  }
+  throw failures.find((error) => error.retryable) ?? failures[0];
+}
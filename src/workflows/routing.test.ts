@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { type EmailProvider, ProviderError } from '../providers';
+import { sendBatchWithFallback, sendWithFallback } from './routing';
+
+const MESSAGE = { from: 'noreply@intellex.test', to: 'user@example.com', subject: 'Hi', html: '<p>Hi</p>' };
+
+type FakeOutcome = 'ok' | 'retryable' | 'permanent' | 'unknown';
+
+function fakeProvider(name: string, outcome: FakeOutcome): EmailProvider & { calls: number } {
+  return {
+    name,
+    calls: 0,
+    async send() {
+      this.calls += 1;
+      if (outcome === 'ok') return { provider: name, messageId: `${name}-id` };
+      throw new ProviderError(name, `${name} failed`, {
+        retryable: outcome !== 'permanent',
+        outcomeUnknown: outcome === 'unknown',
+      });
+    },
+  };
+}
+
+test('sendWithFallback uses the primary provider when it succeeds', async () => {
+  const primary = fakeProvider('primary', 'ok');
+  const secondary = fakeProvider('secondary', 'ok');
+  const result = await sendWithFallback([primary, secondary], MESSAGE);
+  assert.equal(result.provider, 'primary');
+  assert.equal(secondary.calls, 0);
+});
+
+test('sendWithFallback falls back on a retryable error', async () => {
+  const primary = fakeProvider('primary', 'retryable');
+  const secondary = fakeProvider('secondary', 'ok');
+  const result = await sendWithFallback([primary, secondary], MESSAGE);
+  assert.equal(result.provider, 'secondary');
+  assert.equal(result.messageId, 'secondary-id');
+});
+
+test('sendWithFallback does not fall back on a permanent error', async () => {
+  const primary = fakeProvider('primary', 'permanent');
+  const secondary = fakeProvider('secondary', 'ok');
+  await assert.rejects(sendWithFallback([primary, secondary], MESSAGE), /primary failed/);
+  assert.equal(secondary.calls, 0);
+});
+
+test('sendWithFallback does not fall back when the provider may have accepted the message', async () => {
+  const primary = fakeProvider('primary', 'unknown');
+  const secondary = fakeProvider('secondary', 'ok');
+  await assert.rejects(sendWithFallback([primary, secondary], MESSAGE), (error: unknown) => {
+    assert.ok(error instanceof ProviderError);
+    assert.equal(error.retryable, true);
+    assert.equal(error.outcomeUnknown, true);
+    return true;
+  });
+  assert.equal(secondary.calls, 0);
+});
+
+test('sendWithFallback reports the last provider when all fail', async () => {
+  const primary = fakeProvider('primary', 'retryable');
+  const secondary = fakeProvider('secondary', 'retryable');
+  await assert.rejects(sendWithFallback([primary, secondary], MESSAGE), (error: unknown) => {
+    assert.ok(error instanceof ProviderError);
+    assert.equal(error.provider, 'secondary');
+    return true;
+  });
+});
+
+function batchProvider(name: string, outcome: 'ok' | 'rejected' | 'network'): EmailProvider & { batches: number } {
+  return {
+    ...fakeProvider(name, 'ok'),
+    batches: 0,
+    async sendBatch(messages) {
+      this.batches += 1;
+      if (outcome === 'rejected') throw new ProviderError(name, 'invalid batch', { retryable: false, statusCode: 422 });
+      if (outcome === 'network') {
+        throw new ProviderError(name, 'socket hang up', { retryable: true, outcomeUnknown: true });
+      }
+      return messages.map((_message, index) => ({ provider: name, messageId: `${name}-batch-${index}` }));
+    },
+  };
+}
+
+test('sendBatchWithFallback uses the batch API and keeps input order', async () => {
+  const primary = batchProvider('primary', 'ok');
+  const results = await sendBatchWithFallback([primary], [MESSAGE, { ...MESSAGE, to: 'other@example.com' }]);
+  assert.deepEqual(
+    results.map((result) => (result instanceof ProviderError ? result.message : result.messageId)),
+    ['primary-batch-0', 'primary-batch-1'],
+  );
+  assert.equal(primary.batches, 1);
+});
+
+test('sendBatchWithFallback sends individually when the batch is rejected', async () => {
+  const primary = batchProvider('primary', 'rejected');
+  const results = await sendBatchWithFallback([primary], [MESSAGE, MESSAGE]);
+  assert.deepEqual(
+    results.map((result) => (result instanceof ProviderError ? result.message : result.messageId)),
+    ['primary-id', 'primary-id'],
+  );
+});
+
+test('sendBatchWithFallback does not resend a batch that may have been accepted', async () => {
+  const primary = batchProvider('primary', 'network');
+  const secondary = fakeProvider('secondary', 'ok');
+  const results = await sendBatchWithFallback([primary, secondary], [MESSAGE, MESSAGE]);
+  assert.ok(results.every((result) => result instanceof ProviderError && result.message === 'socket hang up'));
+  assert.equal(secondary.calls, 0);
+});
@@ -0,0 +1,82 @@
+import { logger } from '../observability/log';
+import { timeProviderCall } from '../observability/metrics';
+import { type EmailMessage, type EmailProvider, ProviderError, type ProviderSendResult } from '../providers';
+
+function toProviderError(provider: EmailProvider, error: unknown): ProviderError {
+  if (error instanceof ProviderError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  // Nothing says where an unclassified error happened, so the provider may have accepted the message.
+  return new ProviderError(provider.name, message, { retryable: false, outcomeUnknown: true });
+}
+
+/**
+ * Sends through each provider in order, moving to the next one only when the
+ * current provider fails with a retryable error. A failure after the request reached
+ * the provider may follow it accepting the message, so it is thrown for a retry under
+ * the same idempotency key rather than sent elsewhere. The result names the provider
+ * that accepted the message; the thrown error names the last one attempted.
+ */
+export async function sendWithFallback(
+  providers: EmailProvider[],
+  message: EmailMessage,
+): Promise<ProviderSendResult> {
+  if (providers.length === 0) {
+    throw new Error('No email provider configured');
+  }
+
+  let lastError: ProviderError | null = null;
+  for (const provider of providers) {
+    try {
+      return await timeProviderCall(provider.name, 'send', () => provider.send(message));
+    } catch (error) {
+      lastError = toProviderError(provider, error);
+      if (!lastError.retryable || lastError.outcomeUnknown) {
+        throw lastError;
+      }
+      logger.warn('Provider failed with retryable error; trying the next one', {
+        provider: provider.name,
+        error: lastError,
+      });
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Sends through the primary provider's batch API when it has one, falling back to one
+ * `sendWithFallback` call per message when the batch is rejected. A failure after the request
+ * reached the provider may follow it accepting the batch, so the batch is not resent; every
+ * message reports that error for a retry under the same idempotency key.
+ * Results are in input order and hold either the send result or that message's error.
+ */
+export async function sendBatchWithFallback(
+  providers: EmailProvider[],
+  messages: EmailMessage[],
+  options: { idempotencyKey?: string; traceparent?: string } = {},
+): Promise<Array<ProviderSendResult | ProviderError>> {
+  if (providers.length === 0) {
+    throw new Error('No email provider configured');
+  }
+
+  const [primary] = providers;
+  const sendBatch = primary.sendBatch?.bind(primary);
+  if (sendBatch && messages.length > 1) {
+    try {
+      return await timeProviderCall(primary.name, 'batch', () => sendBatch(messages, options));
+    } catch (error) {
+      const batchError = toProviderError(primary, error);
+      if (batchError.outcomeUnknown) return messages.map(() => batchError);
+      logger.warn('Provider rejected a batch; sending individually', { provider: primary.name, error: batchError });
+    }
+  }
+
+  const results: Array<ProviderSendResult | ProviderError> = [];
+  for (const message of messages) {
+    try {
+      results.push(await sendWithFallback(providers, message));
+    } catch (error) {
+      results.push(error instanceof ProviderError ? error : toProviderError(primary, error));
+    }
+  }
+  return results;
+}
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { createMemoryStore } from '../stores';
+import { createSuppressionList, type SoftBounceCounter, type Suppression } from './suppressions';
+
+function createList(clock: { now: number }) {
+  return createSuppressionList({
+    suppressions: createMemoryStore<Suppression>(),
+    softBounces: createMemoryStore<SoftBounceCounter>(),
+    softBounceThreshold: 3,
+    softBounceWindowMs: 1000,
+    now: () => clock.now,
+  });
+}
+
+test('hard bounces and complaints suppress immediately, case-insensitively', async () => {
+  const list = createList({ now: 1 });
+  const entry = await list.recordBounce('Dead@Example.com', 'hard', { messageId: 'm1' });
+  assert.equal(entry?.reason, 'hard_bounce');
+  assert.equal((await list.get('dead@example.com'))?.messageId, 'm1');
+
+  await list.recordComplaint('angry@example.com');
+  assert.equal((await list.get('ANGRY@example.com'))?.reason, 'complaint');
+  assert.equal((await list.list()).length, 2);
+});
+
+test('soft bounces suppress once the threshold is reached within the window', async () => {
+  const clock = { now: 0 };
+  const list = createList(clock);
+  assert.equal(await list.recordBounce('flaky@example.com', 'soft'), null);
+  clock.now = 500;
+  assert.equal(await list.recordBounce('flaky@example.com', 'soft'), null);
+  clock.now = 1500;
+  // The first two bounces fell out of the window, so counting starts again.
+  assert.equal(await list.recordBounce('flaky@example.com', 'soft'), null);
+  await list.recordBounce('flaky@example.com', 'soft');
+  const entry = await list.recordBounce('flaky@example.com', 'soft');
+  assert.equal(entry?.reason, 'soft_bounce');
+});
+
+test('a less severe reason never replaces an existing suppression', async () => {
+  const list = createList({ now: 1 });
+  await list.recordComplaint('user@example.com');
+  await list.recordBounce('user@example.com', 'hard');
+  await list.add('user@example.com', 'manual');
+  assert.equal((await list.get('user@example.com'))?.reason, 'complaint');
+});
+
+test('remove lifts the suppression and resets soft bounce counting', async () => {
+  const list = createList({ now: 1 });
+  await list.recordBounce('flaky@example.com', 'soft');
+  await list.recordBounce('flaky@example.com', 'soft');
+  await list.add('flaky@example.com', 'manual', { note: 'support ticket 12' });
+  assert.equal(await list.remove('flaky@example.com'), true);
+  assert.equal(await list.get('flaky@example.com'), null);
+  assert.equal(await list.recordBounce('flaky@example.com', 'soft'), null);
+  assert.equal(await list.remove('flaky@example.com'), false);
+});
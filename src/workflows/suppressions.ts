@@ -0,0 +1,109 @@
+import type { KeyValueStore } from '../stores';
+
+export type SuppressionReason = 'hard_bounce' | 'soft_bounce' | 'complaint' | 'manual';
+
+export type Suppression = {
+  address: string;
+  reason: SuppressionReason;
+  createdAt: number;
+  /** `webhook` entries come from provider events, `api` entries from the suppression endpoints. */
+  source: 'webhook' | 'api';
+  messageId?: string;
+  note?: string;
+};
+
+export type SoftBounceCounter = {
+  count: number;
+  firstAt: number;
+  lastAt: number;
+};
+
+export type SuppressionDetails = {
+  messageId?: string;
+  note?: string;
+};
+
+export type SuppressionList = {
+  get(address: string): Promise<Suppression | null>;
+  list(): Promise<Suppression[]>;
+  add(address: string, reason: SuppressionReason, details?: SuppressionDetails): Promise<Suppression>;
+  /** Lifts the suppression and forgets any soft bounces counted so far. */
+  remove(address: string): Promise<boolean>;
+  /** Hard bounces suppress immediately; soft bounces once the threshold is reached within the window. */
+  recordBounce(address: string, kind: 'hard' | 'soft', details?: SuppressionDetails): Promise<Suppression | null>;
+  recordComplaint(address: string, details?: SuppressionDetails): Promise<Suppression>;
+};
+
+export type SuppressionListOptions = {
+  suppressions: KeyValueStore<Suppression>;
+  softBounces: KeyValueStore<SoftBounceCounter>;
+  softBounceThreshold: number;
+  softBounceWindowMs: number;
+  now?: () => number;
+};
+
+// An existing entry is only replaced by a more severe reason, so a later soft bounce never downgrades it.
+const REASON_SEVERITY: Record<SuppressionReason, number> = {
+  soft_bounce: 1,
+  manual: 2,
+  hard_bounce: 3,
+  complaint: 4,
+};
+
+/** Addresses are compared case-insensitively; phone numbers pass through unchanged. */
+export function normalizeAddress(address: string): string {
+  return address.trim().toLowerCase();
+}
+
+export function createSuppressionList(options: SuppressionListOptions): SuppressionList {
+  const { suppressions, softBounces, softBounceThreshold, softBounceWindowMs, now = Date.now } = options;
+
+  const suppress = async (
+    address: string,
+    reason: SuppressionReason,
+    source: Suppression['source'],
+    details: SuppressionDetails = {},
+  ): Promise<Suppression> => {
+    const key = normalizeAddress(address);
+    const existing = await suppressions.get(key);
+    if (existing && REASON_SEVERITY[existing.reason] >= REASON_SEVERITY[reason]) {
+      return existing;
+    }
+    const entry: Suppression = { address: key, reason, createdAt: now(), source, ...details };
+    await suppressions.set(key, entry);
+    return entry;
+  };
+
+  return {
+    get: (address) => suppressions.get(normalizeAddress(address)),
+    async list() {
+      const entries = await suppressions.entries();
+      return entries.map(([, entry]) => entry).sort((a, b) => b.createdAt - a.createdAt);
+    },
+    add: (address, reason, details) => suppress(address, reason, 'api', details),
+    async remove(address) {
+      const key = normalizeAddress(address);
+      await softBounces.delete(key);
+      return suppressions.delete(key);
+    },
+    async recordBounce(address, kind, details) {
+      if (kind === 'hard') {
+        return suppress(address, 'hard_bounce', 'webhook', details);
+      }
+      const key = normalizeAddress(address);
+      const at = now();
+      const stored = await softBounces.get(key);
+      const previous = stored && at - stored.firstAt < softBounceWindowMs ? stored : null;
+      const counter: SoftBounceCounter = previous
+        ? { count: previous.count + 1, firstAt: previous.firstAt, lastAt: at }
+        : { count: 1, firstAt: at, lastAt: at };
+      // The window starts at the first bounce; the TTL only cleans up counters that never reach the threshold.
+      await softBounces.set(key, counter, { ttlMs: Math.max(1, counter.firstAt + softBounceWindowMs - at) });
+      if (counter.count < softBounceThreshold) {
+        return null;
+      }
+      return suppress(address, 'soft_bounce', 'webhook', details);
+    },
+    recordComplaint: (address, details) => suppress(address, 'complaint', 'webhook', details),
+  };
+}